@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+
+/**
+ * A line of the assets input
+ */
+export interface AssetPattern {
+    /** Glob pattern (e.g., "dist/*.zip") */
+    pattern: string;
+    /** Label shown instead of the file name on the release page; empty for none */
+    label: string;
+    /** Content type; empty to derive it from the file extension */
+    contentType: string;
+}
+
+/**
+ * A file to upload as a release asset
+ */
+export interface ReleaseAssetFile {
+    filePath: string;
+    /** Asset name on the release (the file name) */
+    name: string;
+    label: string;
+    contentType: string;
+}
+
+/**
+ * An asset attached to a release
+ */
+export interface UploadedAsset {
+    id: number;
+    name: string;
+    url: string;
+}
+
+export const CHECKSUMS_FILE_NAME = 'SHA256SUMS';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.gz': 'application/gzip',
+    '.tgz': 'application/gzip',
+    '.tar': 'application/x-tar',
+    '.xz': 'application/x-xz',
+    '.zip': 'application/zip',
+    '.whl': 'application/zip',
+    '.jar': 'application/java-archive',
+    '.deb': 'application/vnd.debian.binary-package',
+    '.rpm': 'application/x-rpm',
+    '.dmg': 'application/x-apple-diskimage',
+    '.json': 'application/json',
+    '.js': 'text/javascript',
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+};
+
+/**
+ * Parse the assets input (pure function)
+ * @param value - One "pattern | label | content-type" line per asset pattern; label and content type are optional
+ * @returns Asset patterns in input order
+ */
+export function parseAssetPatterns(value: string): AssetPattern[] {
+    return value
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .map((line) => {
+            const [pattern, label = '', contentType = ''] = line.split('|').map((part) => part.trim());
+            return { pattern, label, contentType };
+        });
+}
+
+/**
+ * Derive the content type of an asset from its file extension (pure function)
+ * @param fileName - File name or path
+ * @returns Content type, or "application/octet-stream" for unknown extensions
+ */
+export function getContentType(fileName: string): string {
+    return CONTENT_TYPES[path.extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Calculate the SHA-256 digest of file content (pure function)
+ * @param content - File content
+ * @returns Lowercase hex digest
+ */
+export function sha256(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Render a checksums file in the format of "sha256sum" (pure function)
+ * @param checksums - Hex digests keyed by asset name
+ * @returns One "<digest>  <name>" line per asset
+ */
+export function renderChecksums(checksums: Map<string, string>): string {
+    return [...checksums].map(([name, digest]) => `${digest}  ${name}\n`).join('');
+}
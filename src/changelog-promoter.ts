@@ -0,0 +1,80 @@
+import { findChangelogEntry, parseChangelogEntries } from './parsers/keep-a-changelog.parser';
+
+/**
+ * Options for promoting the Unreleased section
+ */
+export interface PromoteUnreleasedOptions {
+    /** Version the Unreleased section becomes (e.g., "1.2.0") */
+    version: string;
+    /** Release date as YYYY-MM-DD */
+    date: string;
+    /** Tag of the new release, used in compare links (e.g., "v1.2.0") */
+    tagName: string;
+}
+
+const UNRELEASED_LINK_REGEX = /^\[unreleased\]:\s*(\S+)\s*$/i;
+const COMPARE_URL_REGEX = /^(.*\/compare\/)(.+?)\.\.\.(.+)$/;
+
+/**
+ * Rewrite the compare links after a release (pure function)
+ *
+ * "[Unreleased]: .../compare/v1.0.0...HEAD" becomes "[Unreleased]: .../compare/v1.1.0...HEAD"
+ * followed by "[1.1.0]: .../compare/v1.0.0...v1.1.0". Other link styles are left untouched.
+ */
+function updateLinkReferences(lines: string[], options: PromoteUnreleasedOptions): string[] {
+    const versionLinkPrefix = `[${options.version.toLowerCase()}]:`;
+    if (lines.some((line) => line.toLowerCase().startsWith(versionLinkPrefix))) {
+        return lines;
+    }
+
+    const index = lines.findIndex((line) => UNRELEASED_LINK_REGEX.test(line));
+    const compare = index === -1 ? null : COMPARE_URL_REGEX.exec(UNRELEASED_LINK_REGEX.exec(lines[index])?.[1] ?? '');
+    if (!compare) {
+        return lines;
+    }
+
+    const [, base, from, head] = compare;
+    return [
+        ...lines.slice(0, index),
+        `[Unreleased]: ${base}${options.tagName}...${head}`,
+        `[${options.version}]: ${base}${from}...${options.tagName}`,
+        ...lines.slice(index + 1),
+    ];
+}
+
+/**
+ * Turn the Unreleased section into a version entry and start a new, empty Unreleased section (pure function)
+ * @param content - The full changelog file content
+ * @param options - Version, date and tag of the release
+ * @returns Updated changelog content, or null if the version already has an entry
+ * or there is no non-empty Unreleased section to promote
+ */
+export function promoteUnreleased(content: string, options: PromoteUnreleasedOptions): string | null {
+    const entries = parseChangelogEntries(content);
+    const unreleased = findChangelogEntry(entries, 'Unreleased');
+
+    if (findChangelogEntry(entries, options.version) || !unreleased) {
+        return null;
+    }
+
+    const hasContent =
+        unreleased.description.length > 0 ||
+        unreleased.sections.some((section) => section.notes.length > 0 || section.items.length > 0);
+    if (!hasContent) {
+        return null;
+    }
+
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const headerIndex = unreleased.line - 1;
+
+    const promoted = [
+        ...lines.slice(0, headerIndex),
+        '## [Unreleased]',
+        '',
+        `## [${options.version}] - ${options.date}`,
+        ...lines.slice(headerIndex + 1),
+    ];
+
+    return updateLinkReferences(promoted, options).join(eol);
+}
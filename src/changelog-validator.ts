@@ -0,0 +1,157 @@
+import { ChangelogEntry, parseChangelogEntries } from './parsers/keep-a-changelog.parser';
+import { SemVer, compareSemver, parseSemver } from './semver';
+
+/**
+ * A problem found while validating a changelog
+ */
+export interface ChangelogProblem {
+    /** 1-based line number the problem refers to */
+    line: number;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+/**
+ * Options for validating a changelog
+ */
+export interface ValidateChangelogOptions {
+    /** Version that must have a non-empty entry (omit to skip the check) */
+    currentVersion?: string;
+    /** Accept a non-empty Unreleased section in place of the current version entry (it is promoted on release) */
+    allowUnreleased?: boolean;
+    /** Today's date as YYYY-MM-DD, used to reject dates in the future */
+    today: string;
+}
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Check whether a string is a real calendar date in YYYY-MM-DD format (pure function)
+ * @param value - Date string
+ * @returns True if the date is valid
+ */
+export function isValidIsoDate(value: string): boolean {
+    const match = DATE_REGEX.exec(value);
+    if (!match) {
+        return false;
+    }
+
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return date.toISOString().startsWith(value);
+}
+
+/**
+ * Whether an entry has no description and no section content (pure function)
+ */
+function isEmptyEntry(entry: ChangelogEntry): boolean {
+    return (
+        entry.description.length === 0 &&
+        entry.sections.every((section) => section.notes.length === 0 && section.items.length === 0)
+    );
+}
+
+/**
+ * Validate a Keep a Changelog file (pure function)
+ * @param content - The full changelog file content
+ * @param options - Validation options
+ * @returns Problems in file order; empty if the changelog is valid
+ */
+export function validateChangelog(content: string, options: ValidateChangelogOptions): ChangelogProblem[] {
+    const entriesByLine = new Map(parseChangelogEntries(content).map((entry) => [entry.line, entry]));
+    const problems: ChangelogProblem[] = [];
+    const seen = new Map<string, number>();
+    let currentFound = false;
+    let unreleasedFilled = false;
+    let previous: { entry: ChangelogEntry; version: SemVer } | null = null;
+
+    const lines = content.split('\n');
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        if (!line.startsWith('## ')) {
+            continue;
+        }
+
+        const entry = entriesByLine.get(index + 1);
+        if (!entry) {
+            problems.push({
+                line: index + 1,
+                severity: 'error',
+                message: `Malformed version header: "${line.trim()}". Expected "## [x.y.z] - YYYY-MM-DD"`,
+            });
+            continue;
+        }
+
+        const key = entry.version.toLowerCase().replace(/^v/, '');
+
+        const firstLine = seen.get(key);
+        if (firstLine !== undefined) {
+            problems.push({
+                line: entry.line,
+                severity: 'error',
+                message: `Duplicate entry for ${entry.version} (first defined on line ${firstLine})`,
+            });
+            continue;
+        }
+        seen.set(key, entry.line);
+
+        if (key === 'unreleased') {
+            if (isEmptyEntry(entry)) {
+                problems.push({ line: entry.line, severity: 'warning', message: 'Unreleased section is empty' });
+            } else {
+                unreleasedFilled = true;
+            }
+            continue;
+        }
+
+        if (options.currentVersion && key === options.currentVersion.replace(/^v/, '')) {
+            currentFound = true;
+            if (isEmptyEntry(entry)) {
+                problems.push({ line: entry.line, severity: 'error', message: `Entry for ${entry.version} is empty` });
+            }
+        }
+
+        if (entry.date !== undefined) {
+            if (!isValidIsoDate(entry.date)) {
+                problems.push({
+                    line: entry.line,
+                    severity: 'error',
+                    message: `Invalid date "${entry.date}" for ${entry.version}. Expected YYYY-MM-DD`,
+                });
+            } else if (entry.date > options.today) {
+                problems.push({
+                    line: entry.line,
+                    severity: 'error',
+                    message: `Date ${entry.date} for ${entry.version} is in the future`,
+                });
+            }
+        }
+
+        const version = parseSemver(entry.version);
+        if (!version) {
+            problems.push({
+                line: entry.line,
+                severity: 'error',
+                message: `${entry.version} is not a valid semantic version`,
+            });
+            continue;
+        }
+
+        // Newest versions come first
+        if (previous && compareSemver(version, previous.version) > 0) {
+            problems.push({
+                line: entry.line,
+                severity: 'error',
+                message: `${entry.version} is listed after ${previous.entry.version}; versions must be in descending order`,
+            });
+        }
+        previous = { entry, version };
+    }
+
+    if (options.currentVersion && !currentFound && !(options.allowUnreleased && unreleasedFilled)) {
+        const versionClean = options.currentVersion.replace(/^v/, '');
+        problems.unshift({ line: 1, severity: 'error', message: `No entry found for version ${versionClean}` });
+    }
+
+    return problems;
+}
@@ -0,0 +1,330 @@
+import { getExecOutput } from '@actions/exec';
+import {
+    PackageReleaseResult,
+    ReleaseConfig,
+    ReleaseRepository,
+    createGitHubClient,
+    createPackageTarget,
+    createReleaseContext,
+    describeReleaseStatus,
+    parseReleaseConfig,
+    releasePackage,
+    runMonorepo,
+    setUpTagSigner,
+} from './index';
+import { TagSigner } from './services/tag-signer';
+
+/**
+ * Options of the auto-release command
+ */
+export interface CliOptions {
+    /** Action input values from the flags by input name (e.g., "tag-prefix") */
+    inputs: Record<string, string>;
+    /** Print the result as JSON on stdout, with the logs on stderr */
+    json: boolean;
+    help: boolean;
+    /** Repository and commits; empty to read them from the environment or the git checkout */
+    repository: string;
+    sha: string;
+    ref: string;
+    serverUrl: string;
+    apiUrl: string;
+}
+
+/**
+ * Result printed by "--json"
+ */
+export interface CliResult {
+    success: boolean;
+    dryRun: boolean;
+    /** Result of every package, as in the releases output of the action */
+    releases: PackageReleaseResult[];
+    error?: string;
+}
+
+const VALUE_FLAGS: Record<string, 'repository' | 'sha' | 'ref' | 'serverUrl' | 'apiUrl'> = {
+    repository: 'repository',
+    sha: 'sha',
+    ref: 'ref',
+    'server-url': 'serverUrl',
+    'api-url': 'apiUrl',
+};
+
+// GitLab projects can be nested in subgroups (e.g., "group/sub/project")
+const REPOSITORY_REGEX = /^[\w.-]+(\/[\w.-]+)+$/;
+
+// Exit code for invalid arguments, as opposed to a failed release (1)
+const USAGE_EXIT_CODE = 2;
+
+export const CLI_USAGE = `Usage: auto-release [options]
+
+Runs the auto-release-action flow (version check, changelog, tag and release) outside of GitHub Actions,
+in the current directory.
+
+Options:
+  --<input> <value>         Any input of the action, e.g. --tag-prefix v or --release-provider gitlab
+  --<input>=<value>         Same, e.g. for values starting with "-"
+  --<input>, --no-<input>   Set an input to true or false, e.g. --dry-run or --no-validate-changelog
+  --repository <owner/repo> Repository, or GitLab project path (default: $GITHUB_REPOSITORY or the origin remote)
+  --sha <sha>               Commit the tag points at (default: $GITHUB_SHA or HEAD)
+  --ref <ref>               Branch changelog commits are pushed to (default: $GITHUB_REF or the current branch)
+  --server-url <url>        GitHub server URL (default: $GITHUB_SERVER_URL or https://github.com)
+  --api-url <url>           GitHub API URL (default: $GITHUB_API_URL or https://api.github.com)
+  --json                    Print the result of every package as JSON on stdout and the logs on stderr
+  -h, --help                Show this help
+
+Every input can also be set as an environment variable, e.g. AUTO_RELEASE_TAG_PREFIX=v.
+The token defaults to $GITHUB_TOKEN or $GH_TOKEN. Flags take precedence over environment variables.
+See action.yml for the inputs.
+`;
+
+/**
+ * Name of the environment variable of an input (pure function)
+ * @param input - Input name (e.g., "tag-prefix")
+ * @returns Variable name (e.g., "AUTO_RELEASE_TAG_PREFIX")
+ */
+export function toCliEnvName(input: string): string {
+    return `AUTO_RELEASE_${input.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * Parse the command line arguments (pure function)
+ *
+ * Input flags are not checked here: any "--<input>" is accepted, and flags the configuration
+ * never reads are rejected by parseCliConfig.
+ * @param argv - Arguments after the command name
+ * @returns Options
+ * @throws Error for unexpected arguments, missing values and invalid repositories
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        inputs: {},
+        json: false,
+        help: false,
+        repository: '',
+        sha: '',
+        ref: '',
+        serverUrl: '',
+        apiUrl: '',
+    };
+
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        if (arg === '-h' || arg === '--help') {
+            options.help = true;
+            continue;
+        }
+        if (arg === '--json') {
+            options.json = true;
+            continue;
+        }
+
+        const match = arg.match(/^--([a-z0-9-]+)(?:=([\s\S]*))?$/);
+        if (!match) {
+            throw new Error(`Unexpected argument: ${arg}`);
+        }
+        const [, name, inlineValue] = match;
+        const next = argv[index + 1];
+        // Values starting with "-" are given inline (e.g., --tag-prefix=-rc), so flags are never taken as values
+        const hasNextValue = next !== undefined && !next.startsWith('-');
+
+        if (name in VALUE_FLAGS) {
+            const value = inlineValue ?? (hasNextValue ? argv[++index] : undefined);
+            if (!value) {
+                throw new Error(`Missing value for --${name}`);
+            }
+            options[VALUE_FLAGS[name]] = value;
+        } else if (name.startsWith('no-') && inlineValue === undefined) {
+            options.inputs[name.slice(3)] = 'false';
+        } else {
+            // A flag without a value turns the input on, e.g. --dry-run
+            options.inputs[name] = inlineValue ?? (hasNextValue ? argv[++index] : 'true');
+        }
+    }
+
+    if (options.repository && !REPOSITORY_REGEX.test(options.repository)) {
+        throw new Error(`Invalid --repository: ${options.repository}. Expected "owner/repo" or "group/sub/project"`);
+    }
+
+    return options;
+}
+
+/**
+ * Build the configuration from the flags and "AUTO_RELEASE_*" environment variables
+ * @param options - Command options
+ * @param env - Environment variables
+ * @returns Configuration object; flags take precedence over environment variables
+ * @throws Error for invalid inputs and for flags the configuration does not read
+ */
+export function parseCliConfig(options: CliOptions, env: NodeJS.ProcessEnv): ReleaseConfig {
+    const read = new Set<string>();
+    const config = parseReleaseConfig((name) => {
+        read.add(name);
+        const token = name === 'github-token' ? env.GITHUB_TOKEN || env.GH_TOKEN : undefined;
+        return (options.inputs[name] ?? (env[toCliEnvName(name)] || token) ?? '').trim();
+    });
+
+    const unknown = Object.keys(options.inputs).find((name) => !read.has(name));
+    if (unknown) {
+        throw new Error(`Unknown option: --${unknown}`);
+    }
+
+    return config;
+}
+
+/**
+ * Read the repository path from a git remote URL (pure function)
+ * @param url - Remote URL (e.g., "git@github.com:owner/repo.git" or "https://gitlab.com/group/sub/project")
+ * @returns Repository with its subgroups (e.g., "group/sub/project"), or null if the URL has no owner and name
+ */
+export function parseRepositoryFromRemote(url: string): string | null {
+    const remote = url.trim();
+    // SCP-like remotes (e.g., "git@host:owner/repo") have no scheme
+    const remotePath = URL.canParse(remote) ? new URL(remote).pathname : remote.slice(remote.indexOf(':') + 1);
+    const repository = remotePath.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+    return REPOSITORY_REGEX.test(repository) ? repository : null;
+}
+
+/**
+ * Summarize the result of a package in one line (pure function)
+ * @param result - Package result
+ * @param dryRun - Whether nothing was really released
+ * @returns Line like "✅ Released v1.2.0: Version changed from 1.1.0 to 1.2.0"
+ */
+export function formatCliResult(result: PackageReleaseResult, dryRun: boolean): string {
+    const label = [result.name, result.tagName || result.version].filter((part) => part).join(' ');
+    const line = `${describeReleaseStatus(result, dryRun)} ${label}: ${result.error ?? result.decision}`;
+    return result.releaseUrl ? `${line} (${result.releaseUrl})` : line;
+}
+
+/**
+ * Run git in the current directory
+ * @returns Trimmed output, or an empty string if git fails or is not installed
+ */
+async function readGit(args: string[]): Promise<string> {
+    try {
+        const result = await getExecOutput('git', args, { silent: true, ignoreReturnCode: true });
+        return result.exitCode === 0 ? result.stdout.trim() : '';
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Read the repository and commits from the options, the GITHUB_* variables or the git checkout
+ * @param options - Command options
+ * @param config - Configuration, for the release provider
+ * @param env - Environment variables
+ * @returns Repository and commits of the run
+ * @throws Error if the repository or the commit cannot be determined, or the repository is nested outside of GitLab
+ */
+async function resolveRepository(
+    options: CliOptions,
+    config: ReleaseConfig,
+    env: NodeJS.ProcessEnv,
+): Promise<ReleaseRepository> {
+    const repository =
+        options.repository ||
+        env.GITHUB_REPOSITORY ||
+        parseRepositoryFromRemote(await readGit(['remote', 'get-url', 'origin']));
+    if (!repository) {
+        throw new Error('Could not determine the repository from the origin remote. Pass --repository owner/repo');
+    }
+    if (repository.split('/').length > 2 && config.releaseProvider !== 'gitlab') {
+        throw new Error(
+            `Invalid repository: ${repository}. Expected "owner/repo"; only release-provider: gitlab supports subgroups`,
+        );
+    }
+
+    const sha = options.sha || env.GITHUB_SHA || (await readGit(['rev-parse', 'HEAD']));
+    if (!sha) {
+        throw new Error('Could not determine the commit from the checkout. Pass --sha');
+    }
+
+    // The owner keeps the subgroups, so the GitLab project path defaults to the full path
+    const separator = repository.lastIndexOf('/');
+    return {
+        owner: repository.slice(0, separator),
+        repo: repository.slice(separator + 1),
+        serverUrl: options.serverUrl || env.GITHUB_SERVER_URL || 'https://github.com',
+        sha,
+        ref: options.ref || env.GITHUB_REF || (await readGit(['symbolic-ref', '-q', 'HEAD'])),
+        // Commit notes and file detection use the latest tag instead of the previous push
+        previousSha: null,
+    };
+}
+
+/**
+ * Send everything written to stdout to stderr instead
+ * @returns Function that restores stdout
+ */
+function redirectStdoutToStderr(): () => void {
+    const write = process.stdout.write;
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+    return () => {
+        process.stdout.write = write;
+    };
+}
+
+/**
+ * Run the release flow of the action from the command line
+ * @param argv - Arguments after the command name
+ * @returns Exit code: 0 on success, 1 if the release failed, 2 for invalid arguments
+ */
+export async function runCli(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    let config: ReleaseConfig;
+    let repository: ReleaseRepository;
+    try {
+        options = parseCliArgs(argv);
+        if (options.help) {
+            process.stdout.write(CLI_USAGE);
+            return 0;
+        }
+        config = parseCliConfig(options, process.env);
+        repository = await resolveRepository(options, config, process.env);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        process.stderr.write(`auto-release: ${message}\nRun "auto-release --help" for usage\n`);
+        return USAGE_EXIT_CODE;
+    }
+
+    const results: PackageReleaseResult[] = [];
+    let failure: string | undefined;
+    let signer: TagSigner | null = null;
+    // The release flow logs through @actions/core, which writes to stdout
+    const restoreStdout = options.json ? redirectStdoutToStderr() : () => {};
+    try {
+        signer = await setUpTagSigner(config);
+        const octokit = createGitHubClient(config.githubToken, {
+            baseUrl: options.apiUrl || process.env.GITHUB_API_URL || 'https://api.github.com',
+        });
+        const context = createReleaseContext(config, repository, octokit, signer);
+
+        if (config.packages.length > 0) {
+            await runMonorepo(context, results);
+        } else {
+            results.push(await releasePackage(createPackageTarget(config), context));
+        }
+    } catch (error) {
+        failure = error instanceof Error ? error.message : 'An unknown error occurred';
+    } finally {
+        await signer?.cleanUp();
+        restoreStdout();
+    }
+
+    if (options.json) {
+        const result: CliResult = { success: !failure, dryRun: config.dryRun, releases: results, error: failure };
+        process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+        for (const result of results) {
+            process.stdout.write(`${formatCliResult(result, config.dryRun)}\n`);
+        }
+    }
+    if (failure) {
+        process.stderr.write(`auto-release: ${failure}\n`);
+    }
+
+    return failure ? 1 : 0;
+}
@@ -0,0 +1,238 @@
+import * as github from '@actions/github';
+import { GitCommit } from './services/git.service';
+
+/**
+ * Logins and author names matching this pattern are not credited (e.g., "dependabot[bot]")
+ */
+export const DEFAULT_BOT_PATTERN = '\\[bot\\]$';
+
+/**
+ * Someone who authored a commit or a pull request of the release
+ */
+export interface Contributor {
+    /** GitHub login, or the commit author name for commits not linked to an account */
+    name: string;
+    /** Whether the name is a GitHub login */
+    login: boolean;
+    /** Whether the contributor has no commit before the previous release */
+    firstTime: boolean;
+}
+
+/**
+ * Pull request merged between the previous release and the new one
+ */
+export interface MergedPullRequest {
+    number: number;
+    title: string;
+    /** Login of the pull request author; empty for deleted accounts */
+    author: string;
+}
+
+/**
+ * Contributors and merged pull requests of a release
+ */
+export interface ReleaseCredits {
+    contributors: Contributor[];
+    pullRequests: MergedPullRequest[];
+}
+
+/**
+ * Parameters for collecting the credits of a release
+ */
+export interface CollectReleaseCreditsParams {
+    octokit: ReturnType<typeof github.getOctokit>;
+    owner: string;
+    repo: string;
+    /** Commits since the previous release, newest first */
+    commits: GitCommit[];
+    /** Previous release tag, or null for the first release */
+    previousTag: string | null;
+    /** Commit the release points at */
+    headSha: string;
+    botPattern: RegExp;
+}
+
+/**
+ * GitHub account a commit is linked to
+ */
+interface CommitAccount {
+    login: string;
+    type: string;
+}
+
+/**
+ * Page size of the commit listings
+ */
+const COMMITS_PER_PAGE = 100;
+
+/**
+ * Parse the bot pattern input (pure function)
+ * @param value - Regular expression source; empty string for the default
+ * @returns Case-insensitive regular expression
+ * @throws Error if the pattern is not a valid regular expression
+ */
+export function parseBotPattern(value: string): RegExp {
+    const pattern = value || DEFAULT_BOT_PATTERN;
+
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (error: unknown) {
+        throw new Error(`Invalid bot-pattern: ${pattern}`, { cause: error });
+    }
+}
+
+/**
+ * Look up the GitHub accounts of all commits between the previous release tag and the release commit
+ *
+ * One listing covers every commit of the release, paged by 100: the comparison with the previous tag,
+ * or the history of the release commit for the first release.
+ * @param params - Repository, previous tag and release commit
+ * @returns Account by commit SHA; null for commits not linked to an account
+ */
+async function fetchCommitAccounts(params: CollectReleaseCreditsParams): Promise<Map<string, CommitAccount | null>> {
+    const { octokit, owner, repo, previousTag, headSha } = params;
+    const accounts = new Map<string, CommitAccount | null>();
+
+    const listPage = async (page: number) => {
+        if (previousTag) {
+            const comparison = await octokit.rest.repos.compareCommitsWithBasehead({
+                owner,
+                repo,
+                basehead: `${previousTag}...${headSha}`,
+                per_page: COMMITS_PER_PAGE,
+                page,
+            });
+            return comparison.data.commits;
+        }
+
+        const history = await octokit.rest.repos.listCommits({
+            owner,
+            repo,
+            sha: headSha,
+            per_page: COMMITS_PER_PAGE,
+            page,
+        });
+        return history.data;
+    };
+
+    for (let page = 1; ; page++) {
+        // The next page is only requested when this one is full
+        // oxlint-disable-next-line no-await-in-loop
+        const commits = await listPage(page);
+
+        for (const commit of commits) {
+            accounts.set(
+                commit.sha,
+                commit.author?.login ? { login: commit.author.login, type: commit.author.type } : null,
+            );
+        }
+        if (commits.length < COMMITS_PER_PAGE) {
+            return accounts;
+        }
+    }
+}
+
+/**
+ * Look up the GitHub accounts and merged pull requests of the commits of a release
+ *
+ * Contributors are first-time contributors when none of their commits is reachable from the previous
+ * release tag. Nobody is marked for the first release, where every contributor would be.
+ * @param params - Commits and repository to look them up in
+ * @returns Credits without bots, contributors sorted by name and pull requests by number
+ * @throws Error if a GitHub API call fails
+ */
+export async function collectReleaseCredits(params: CollectReleaseCreditsParams): Promise<ReleaseCredits> {
+    const { octokit, owner, repo, botPattern } = params;
+    const contributors = new Map<string, Contributor>();
+    const pullRequests = new Map<number, MergedPullRequest>();
+
+    const addContributor = (name: string, login: boolean) => {
+        if (name && !botPattern.test(name) && !contributors.has(name)) {
+            contributors.set(name, { name, login, firstTime: false });
+        }
+    };
+
+    const accounts = await fetchCommitAccounts(params);
+    const associatedPerCommit = await Promise.all(
+        params.commits.map((commit) =>
+            octokit.rest.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: commit.sha }),
+        ),
+    );
+
+    for (const [index, commit] of params.commits.entries()) {
+        const associated = associatedPerCommit[index];
+        const account = accounts.get(commit.sha);
+        if (account?.type !== 'Bot') {
+            addContributor(account?.login ?? commit.author, Boolean(account?.login));
+        }
+
+        for (const pullRequest of associated.data) {
+            if (pullRequest.merged_at && !pullRequests.has(pullRequest.number)) {
+                const author = pullRequest.user?.login ?? '';
+                pullRequests.set(pullRequest.number, { number: pullRequest.number, title: pullRequest.title, author });
+                if (pullRequest.user?.type !== 'Bot') {
+                    addContributor(author, true);
+                }
+            }
+        }
+    }
+
+    const previousTag = params.previousTag;
+    if (previousTag) {
+        await Promise.all(
+            [...contributors.values()]
+                .filter((contributor) => contributor.login)
+                .map(async (contributor) => {
+                    const earlier = await octokit.rest.repos.listCommits({
+                        owner,
+                        repo,
+                        sha: previousTag,
+                        author: contributor.name,
+                        per_page: 1,
+                    });
+                    contributor.firstTime = earlier.data.length === 0;
+                }),
+        );
+    }
+
+    return {
+        contributors: [...contributors.values()].toSorted((a, b) =>
+            a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+        ),
+        pullRequests: [...pullRequests.values()].toSorted((a, b) => a.number - b.number),
+    };
+}
+
+/**
+ * Mention a contributor with an account by login; others are credited by name
+ */
+function mention(name: string, login: boolean): string {
+    return login ? `@${name}` : name;
+}
+
+/**
+ * Render the credits as "Contributors" and "Merged pull requests" sections (pure function)
+ * @param credits - Contributors and merged pull requests
+ * @returns Markdown with one "## " section per non-empty list, or empty string if both are empty
+ */
+export function renderReleaseCredits(credits: ReleaseCredits): string {
+    const sections: string[] = [];
+
+    if (credits.contributors.length > 0) {
+        const lines = credits.contributors.map(
+            (contributor) =>
+                `- ${mention(contributor.name, contributor.login)}${contributor.firstTime ? ' (first contribution)' : ''}`,
+        );
+        sections.push(`## Contributors\n\n${lines.join('\n')}`);
+    }
+
+    if (credits.pullRequests.length > 0) {
+        const lines = credits.pullRequests.map(
+            (pullRequest) =>
+                `- ${pullRequest.title} (#${pullRequest.number})${pullRequest.author ? ` by @${pullRequest.author}` : ''}`,
+        );
+        sections.push(`## Merged pull requests\n\n${lines.join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+}
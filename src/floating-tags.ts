@@ -0,0 +1,81 @@
+import { compareSemver, parseSemver } from './semver';
+
+/**
+ * Alias tag that follows the latest release of a major or minor version line (e.g., "v1" or "v1.2")
+ */
+export type FloatingTagLevel = 'major' | 'minor';
+
+export const FLOATING_TAG_LEVELS: FloatingTagLevel[] = ['major', 'minor'];
+
+/**
+ * Planned move of one floating tag
+ */
+export interface FloatingTagPlan {
+    /** Alias tag name (e.g., "v1") */
+    tagName: string;
+    /** Newer release tag of the same version line; the alias is not moved back behind it */
+    newerTag: string | null;
+}
+
+/**
+ * Parse the floating tags input (pure function)
+ * @param value - Comma-separated levels (e.g., "major, minor"); empty string for none
+ * @returns Levels in the order major, minor
+ * @throws Error if a level is not known
+ */
+export function parseFloatingTags(value: string): FloatingTagLevel[] {
+    const levels = value
+        .split(',')
+        .map((level) => level.trim())
+        .filter((level) => level.length > 0);
+
+    for (const level of levels) {
+        if (!(FLOATING_TAG_LEVELS as string[]).includes(level)) {
+            throw new Error(`Invalid floating-tags: ${level}. Expected one of: ${FLOATING_TAG_LEVELS.join(', ')}`);
+        }
+    }
+
+    return FLOATING_TAG_LEVELS.filter((level) => levels.includes(level));
+}
+
+/**
+ * Plan which floating tags to move to a new release (pure function)
+ * @param tagPrefix - Prefix of the version tags (e.g., "v")
+ * @param version - Released version (e.g., "1.2.3")
+ * @param tags - Existing tags with the prefix
+ * @param levels - Floating tag levels to maintain
+ * @returns One plan per level; empty for versions that are not stable semver
+ */
+export function planFloatingTags(
+    tagPrefix: string,
+    version: string,
+    tags: string[],
+    levels: FloatingTagLevel[],
+): FloatingTagPlan[] {
+    const current = parseSemver(version);
+    if (!current || current.prerelease.length > 0) {
+        return [];
+    }
+
+    return levels.map((level) => {
+        const line = level === 'major' ? `${current.major}` : `${current.major}.${current.minor}`;
+
+        // The alias must keep pointing at the highest stable release of its line
+        let newerTag: string | null = null;
+        let newest = current;
+        for (const tag of tags) {
+            const tagged = tag.startsWith(tagPrefix) ? parseSemver(tag.slice(tagPrefix.length)) : null;
+            const sameLine =
+                tagged !== null &&
+                tagged.major === current.major &&
+                (level === 'major' || tagged.minor === current.minor);
+
+            if (sameLine && tagged.prerelease.length === 0 && compareSemver(tagged, newest) > 0) {
+                newerTag = tag;
+                newest = tagged;
+            }
+        }
+
+        return { tagName: `${tagPrefix}${line}`, newerTag };
+    });
+}
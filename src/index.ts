@@ -1,81 +1,299 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { parsePackageJson, extractVersionFromTag } from './parsers/package-json.parser';
+import { GitHub } from '@actions/github/lib/utils';
+import * as path from 'path';
+import { extractVersionFromTag } from './parsers/package-json.parser';
+import { resolveVersionSource } from './parsers/version-source';
 import { parseChangelogContent } from './parsers/changelog.parser';
-import { buildTagName, isBlank } from './utils';
-import { GitService } from './services/git.service';
-import { FileService } from './services/file.service';
+import {
+    ChangelogEntry,
+    appendLinkReferences,
+    findChangelogEntry,
+    parseChangelogEntries,
+    parseLinkReferences,
+    renderChangelogEntry,
+    renderChangelogItems,
+    toSectionKey,
+} from './parsers/keep-a-changelog.parser';
+import { buildTagName, escapeHtml, isBlank, parseListInput } from './utils';
+import {
+    BumpType,
+    DowngradePolicy,
+    classifyBump,
+    isPrereleaseVersion,
+    parseDowngradePolicy,
+    parseSemver,
+} from './semver';
+import { DEFAULT_GIT_USER_EMAIL, DryRunGitService, GitService, IGitService } from './services/git.service';
+import { GitHubApiGitService } from './services/github-api-git.service';
+import { SigningFormat, TagSigner, parseSigningFormat } from './services/tag-signer';
+import { DryRunFileService, FileService } from './services/file.service';
+import { validateChangelog } from './changelog-validator';
+import { promoteUnreleased } from './changelog-promoter';
+import { CommitGroup, parseCommitGroups, renderCommitNotes } from './release-notes';
+import { collectReleaseCredits, parseBotPattern, renderReleaseCredits } from './contributors';
+import {
+    NOTIFICATION_RETRY_DELAY_MS,
+    NOTIFIER_KINDS,
+    Notifier,
+    parseNotificationRetries,
+    sendNotifications,
+} from './notifiers';
+import {
+    IssueReference,
+    closeMilestone,
+    findIssueReferences,
+    formatIssueReference,
+    parseIssueRepositories,
+    updateReferencedIssues,
+} from './issue-references';
+import {
+    AssetPattern,
+    CHECKSUMS_FILE_NAME,
+    ReleaseAssetFile,
+    UploadedAsset,
+    getContentType,
+    parseAssetPatterns,
+    renderChecksums,
+    sha256,
+} from './assets';
+import { DEFAULT_TAG_SCHEME, PackageTarget, resolvePackageTargets, toOutputId } from './monorepo';
+import { FloatingTagLevel, parseFloatingTags, planFloatingTags } from './floating-tags';
+import {
+    DEFAULT_RELEASE_BODY_TEMPLATE,
+    DEFAULT_RELEASE_NAME_TEMPLATE,
+    DEFAULT_TAG_MESSAGE_TEMPLATE,
+    TemplateValues,
+    renderTemplate,
+    validateTemplate,
+} from './templates';
+import {
+    CreateReleaseResult,
+    IReleaseProvider,
+    ReleaseProviderKind,
+    parseReleaseProvider,
+} from './providers/release-provider';
+import { GitHubReleaseProvider } from './providers/github-release.provider';
+import { DEFAULT_GITLAB_URL, GitLabReleaseProvider } from './providers/gitlab-release.provider';
+import { GiteaReleaseProvider } from './providers/gitea-release.provider';
 
 /**
  * Configuration for the release action
  */
 export interface ReleaseConfig {
     githubToken: string;
-    packageJsonPath: string;
+    versionFilePath: string;
+    versionSource: string;
+    versionPattern: string;
+    /** Compare with the version in the latest tag name or with the version file at the previous commit or tag */
+    versionDetection: VersionDetection;
     changelogPath: string;
+    /** "structured" renders Keep a Changelog entries from the parsed model, "raw" copies the text */
+    changelogParser: ChangelogParser;
+    changelogSectionOrder: string[];
+    /** Validate the whole changelog on every run and fail on errors */
+    validateChangelog: boolean;
+    /** Fail instead of using the default release body when the version has no changelog entry */
+    failOnMissingChangelog: boolean;
+    /** Turn the Unreleased section into the version entry and commit it before tagging */
+    promoteUnreleased: boolean;
+    /** What to use as the release body when the changelog has no entry */
+    changelogFallback: ChangelogFallback;
+    commitGroups: CommitGroup[];
+    commitAuthors: boolean;
+    /** Append "Contributors" and "Merged pull requests" sections to the release body */
+    contributors: boolean;
+    /** Logins and author names left out of the contributors (e.g., "dependabot[bot]") */
+    botPattern: RegExp;
+    /** Files to attach to the release; relative to the package directory in monorepo mode */
+    assets: AssetPattern[];
     tagPrefix: string;
+    /** Templates with {{placeholders}} for the release name, tag annotation and release body */
+    releaseNameTemplate: string;
+    tagMessageTemplate: string;
+    releaseBodyTemplate: string;
+    /** Template files rendered above and below the release body; empty for none */
+    releaseBodyHeaderFile: string;
+    releaseBodyFooterFile: string;
+    /** End the release body with a "**Full Changelog**" link comparing the previous tag with the new one */
+    fullChangelogLink: boolean;
+    /** How tags are read and created: with the git CLI in the checkout or through the GitHub API */
+    tagBackend: TagBackend;
+    /** Forge the releases are created on */
+    releaseProvider: ReleaseProviderKind;
+    /** Instance URL of a GitLab or Gitea provider; empty for the default */
+    providerUrl: string;
+    /** Token for the GitLab or Gitea API; empty to use githubToken */
+    providerToken: string;
+    /** "owner/repo" (or "group/subgroup/project" on GitLab) on the provider; empty for the workflow's repository */
+    providerRepository: string;
+    /** Name and email of the tagger and committer; empty for github-actions[bot] */
+    gitUserName: string;
+    gitUserEmail: string;
+    /** Private key to sign tags with; empty for unsigned tags */
+    signingKey: string;
+    signingKeyPassphrase: string;
+    signingFormat: SigningFormat;
+    /** Alias tags (e.g., "v1" and "v1.2") moved to every stable release */
+    floatingTags: FloatingTagLevel[];
+    /** Webhooks notified about every published release */
+    notifiers: Notifier[];
+    notificationRetries: number;
+    /** Label and comment on the issues and pull requests referenced in the changelog entry */
+    updateIssues: boolean;
+    /** Also update the issues referenced in the commit messages since the previous tag */
+    issueReferencesFromCommits: boolean;
+    releasedLabel: string;
+    /** Other repositories (lowercase "owner/repo") whose referenced issues are updated too */
+    issueRepositories: string[];
+    /** Close the open milestone named after the tag or version */
+    closeMilestone: boolean;
     createDraft: boolean;
     createPrerelease: boolean;
+    /** Derive the prerelease flag from the version instead of createPrerelease */
+    autoPrerelease: boolean;
+    prereleaseIdentifiers: string[];
+    prereleaseZeroMajor: boolean;
+    /** Package directories or globs; empty for single-package mode */
+    packages: string[];
+    tagScheme: string;
+    downgradePolicy: DowngradePolicy;
+    /** Log what would happen instead of pushing tags and commits or creating releases */
+    dryRun: boolean;
+    /** Update the release of an existing tag instead of skipping it */
+    updateExistingRelease: boolean;
+    /** Keep the pushed tag when the release cannot be created, instead of deleting it */
+    keepTagOnFailure: boolean;
 }
 
+/**
+ * Reads an input by name (e.g., "tag-prefix"); unset inputs are empty strings
+ */
+export type InputReader = (name: string) => string;
+
+export type ChangelogParser = 'structured' | 'raw';
+
+export type ChangelogFallback = 'message' | 'commits';
+
+export type TagBackend = 'git' | 'api';
+
+/**
+ * What the current version is compared with: the version in the latest tag name, or the version file
+ * at the previous commit of a push or at the latest tag
+ */
+export type VersionDetection = 'tag' | 'file';
+
+/**
+ * Where the release body came from: the version entry, the promoted Unreleased section,
+ * notes generated from commits or the default message
+ */
+export type ChangelogSource = 'changelog' | 'promoted' | 'commits' | 'default';
+
+/**
+ * What to do with the release: create tag and release, create the missing release
+ * for an existing tag, update the existing release, or nothing
+ */
+export type ReleaseAction = 'create' | 'recover' | 'update' | 'none';
+
 /**
  * Result of determining whether to create a release (pure business logic)
  */
 interface ReleaseDecision {
     versionChanged: boolean;
     shouldCreateRelease: boolean;
+    releaseAction: ReleaseAction;
     newTagName: string;
     currentVersion: string;
     latestVersion?: string;
+    bumpType: BumpType;
 }
 
 /**
- * Determine if a release should be created based on version comparison (pure function)
- * @param currentVersion - Current version from package.json
+ * Determine if a release should be created based on semver comparison (pure function)
+ * @param currentVersion - Current version from the version file
  * @param latestTag - Latest git tag (or null if none exists)
  * @param tagPrefix - Prefix for tags (e.g., "v")
  * @param tagAlreadyExists - Whether the new tag already exists
+ * @param downgradePolicy - What to do when the current version is lower than the latest tag
+ * @param releaseExists - Whether the existing tag has a release
+ * @param updateExistingRelease - Whether to update the release of an existing tag
+ * @param previousVersion - Version to compare with instead of the latest tag's (e.g., read from the version file)
  * @returns Decision object with version info and whether to create release
+ * @throws Error if the current version is not valid semver, or on a downgrade with the "error" policy
  */
 export function determineReleaseDecision(
     currentVersion: string,
     latestTag: string | null,
     tagPrefix: string,
     tagAlreadyExists: boolean,
+    downgradePolicy: DowngradePolicy = 'error',
+    releaseExists = tagAlreadyExists,
+    updateExistingRelease = false,
+    previousVersion: string | null = null,
 ): ReleaseDecision {
+    const current = parseSemver(currentVersion);
+    if (!current) {
+        throw new Error(`Version ${currentVersion} is not a valid semantic version`);
+    }
+
     const newTagName = buildTagName(tagPrefix, currentVersion);
 
     // First release - no previous tags
-    if (!latestTag) {
+    if (!latestTag && previousVersion === null) {
         return {
             versionChanged: true,
             shouldCreateRelease: true,
+            releaseAction: 'create',
             newTagName,
             currentVersion,
+            bumpType: 'initial',
         };
     }
 
-    const latestVersion = extractVersionFromTag(latestTag, tagPrefix);
+    const latestVersion = previousVersion ?? extractVersionFromTag(latestTag ?? '', tagPrefix);
+    const latest = parseSemver(latestVersion);
+
+    // A latest tag that is not semver cannot be compared, so treat it like a first release
+    const bumpType = latest ? classifyBump(latest, current) : 'initial';
+    const versionChanged = bumpType !== 'none';
+
+    if (bumpType === 'downgrade' && downgradePolicy === 'error') {
+        throw new Error(
+            `Version downgrade detected: ${currentVersion} is lower than the ${previousVersion === null ? 'latest tagged' : 'previous'} version ${latestVersion}`,
+        );
+    }
+
+    // The tag exists: usually the latest tag itself, so the version looks unchanged
+    if (tagAlreadyExists) {
+        // A previous run pushed the tag but failed to create the release
+        let releaseAction: ReleaseAction = 'none';
+        if (!releaseExists) {
+            releaseAction = 'recover';
+        } else if (updateExistingRelease) {
+            releaseAction = 'update';
+        }
 
-    // Version hasn't changed
-    if (currentVersion === latestVersion) {
         return {
-            versionChanged: false,
-            shouldCreateRelease: false,
+            versionChanged,
+            shouldCreateRelease: releaseAction !== 'none',
+            releaseAction,
             newTagName,
             currentVersion,
             latestVersion,
+            bumpType,
         };
     }
 
-    // Version changed but tag already exists
-    if (tagAlreadyExists) {
+    // Version hasn't changed, or a downgrade that should not be released
+    if (!versionChanged || (bumpType === 'downgrade' && downgradePolicy === 'skip')) {
         return {
-            versionChanged: true,
+            versionChanged,
             shouldCreateRelease: false,
+            releaseAction: 'none',
             newTagName,
             currentVersion,
             latestVersion,
+            bumpType,
         };
     }
 
@@ -83,12 +301,46 @@ export function determineReleaseDecision(
     return {
         versionChanged: true,
         shouldCreateRelease: true,
+        releaseAction: 'create',
         newTagName,
         currentVersion,
         latestVersion,
+        bumpType,
     };
 }
 
+/**
+ * Describe a release decision for reports (pure function)
+ * @param decision - Release decision
+ * @param tagAlreadyExists - Whether the tag for the current version exists
+ * @returns Short human-readable explanation
+ */
+export function describeReleaseDecision(decision: ReleaseDecision, tagAlreadyExists: boolean): string {
+    if (decision.releaseAction === 'recover') {
+        return `Release: create the missing release for existing tag ${decision.newTagName}`;
+    }
+
+    if (decision.releaseAction === 'update') {
+        return `Release: update the existing release for tag ${decision.newTagName}`;
+    }
+
+    if (!decision.versionChanged) {
+        return 'No release: version unchanged';
+    }
+
+    if (!decision.shouldCreateRelease) {
+        return tagAlreadyExists
+            ? `No release: tag ${decision.newTagName} already exists`
+            : 'No release: version downgrade (downgrade-policy: skip)';
+    }
+
+    if (decision.bumpType === 'initial') {
+        return 'Release: first release';
+    }
+
+    return `Release: ${decision.bumpType} version change`;
+}
+
 /**
  * Get changelog content with fallback to default message (pure function)
  * @param changelogContent - Extracted changelog content (may be empty)
@@ -100,42 +352,298 @@ export function getChangelogWithFallback(changelogContent: string, version: stri
 }
 
 /**
- * Parse inputs from GitHub Actions (pure function)
+ * Decide whether the release should be marked as a prerelease (pure function)
+ * @param config - Action configuration
+ * @param version - Version being released
+ * @returns True if the release should be a prerelease
+ */
+export function resolvePrerelease(config: ReleaseConfig, version: string): boolean {
+    if (!config.autoPrerelease) {
+        return config.createPrerelease;
+    }
+
+    const parsed = parseSemver(version);
+    return parsed !== null && isPrereleaseVersion(parsed, config.prereleaseIdentifiers, config.prereleaseZeroMajor);
+}
+
+/**
+ * Parse the changelog parser input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Changelog parser
+ * @throws Error if the value is not a known parser
+ */
+export function parseChangelogParser(value: string): ChangelogParser {
+    if (!value) {
+        return 'structured';
+    }
+
+    if (value !== 'structured' && value !== 'raw') {
+        throw new Error(`Invalid changelog-parser: ${value}. Expected one of: structured, raw`);
+    }
+
+    return value;
+}
+
+/**
+ * Parse the changelog fallback input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Changelog fallback
+ * @throws Error if the value is not a known fallback
+ */
+export function parseChangelogFallback(value: string): ChangelogFallback {
+    if (!value) {
+        return 'message';
+    }
+
+    if (value !== 'message' && value !== 'commits') {
+        throw new Error(`Invalid changelog-fallback: ${value}. Expected one of: message, commits`);
+    }
+
+    return value;
+}
+
+/**
+ * Parse the tag backend input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Tag backend
+ * @throws Error if the value is not a known backend
+ */
+export function parseTagBackend(value: string): TagBackend {
+    if (!value) {
+        return 'git';
+    }
+
+    if (value !== 'git' && value !== 'api') {
+        throw new Error(`Invalid tag-backend: ${value}. Expected one of: git, api`);
+    }
+
+    return value;
+}
+
+/**
+ * Parse the version detection input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Version detection mode
+ * @throws Error if the value is not a known mode
+ */
+export function parseVersionDetection(value: string): VersionDetection {
+    if (!value) {
+        return 'tag';
+    }
+
+    if (value !== 'tag' && value !== 'file') {
+        throw new Error(`Invalid version-detection: ${value}. Expected one of: tag, file`);
+    }
+
+    return value;
+}
+
+/**
+ * Read a boolean input (pure function)
+ * @param getInput - Reads an input by name
+ * @param name - Input name
+ * @returns Whether the input is "true"; false if it is empty
+ * @throws Error if the value is neither "true" nor "false"
+ */
+function parseBooleanInput(getInput: InputReader, name: string): boolean {
+    const value = getInput(name);
+    if (value !== '' && value !== 'true' && value !== 'false') {
+        throw new Error(`Invalid ${name}: ${value}. Expected true or false`);
+    }
+
+    return value === 'true';
+}
+
+/**
+ * Read a template input, falling back to a default (pure function)
+ * @param getInput - Reads an input by name
+ * @param name - Input name
+ * @param defaultTemplate - Template used when the input is empty
+ * @returns Validated template
+ * @throws Error if the template uses unknown placeholders
+ */
+function parseTemplateInput(getInput: InputReader, name: string, defaultTemplate: string): string {
+    const template = getInput(name) || defaultTemplate;
+    validateTemplate(template, name);
+    return template;
+}
+
+/**
+ * Read the webhook URL inputs (e.g., "slack-webhook-url"; "webhook-url" for the generic webhook)
+ * @param getInput - Reads an input by name
+ * @returns One notifier per configured URL
+ * @throws Error if a URL is not a valid http(s) URL
+ */
+function parseNotifierInputs(getInput: InputReader): Notifier[] {
+    const notifiers: Notifier[] = [];
+
+    for (const kind of NOTIFIER_KINDS) {
+        const input = kind === 'webhook' ? 'webhook-url' : `${kind}-webhook-url`;
+        const url = getInput(input);
+        if (!url) {
+            continue;
+        }
+
+        // The URL is its own credential, so it is not repeated in the error
+        if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+            throw new Error(`Invalid ${input}: expected an http(s) URL`);
+        }
+        notifiers.push({ kind, url });
+    }
+
+    return notifiers;
+}
+
+/**
+ * Build the configuration from the inputs of the action (pure function)
+ * @param getInput - Reads an input by name; core.getInput in the action, the flags in the CLI
  * @returns Configuration object
+ * @throws Error if github-token is missing but needed, or an input is invalid
  */
-export function parseInputs(): ReleaseConfig {
-    return {
-        githubToken: core.getInput('github-token', { required: true }),
-        packageJsonPath: core.getInput('package-json-path') || 'package.json',
-        changelogPath: core.getInput('changelog-path') || 'CHANGELOG.md',
-        tagPrefix: core.getInput('tag-prefix') || 'v',
-        createDraft: core.getInput('create-draft') === 'true',
-        createPrerelease: core.getInput('create-prerelease') === 'true',
+export function parseReleaseConfig(getInput: InputReader): ReleaseConfig {
+    const config: ReleaseConfig = {
+        githubToken: getInput('github-token'),
+        versionFilePath: getInput('version-file') || getInput('package-json-path') || 'package.json',
+        versionSource: getInput('version-source') || 'auto',
+        versionPattern: getInput('version-pattern'),
+        versionDetection: parseVersionDetection(getInput('version-detection')),
+        changelogPath: getInput('changelog-path') || 'CHANGELOG.md',
+        changelogParser: parseChangelogParser(getInput('changelog-parser')),
+        changelogSectionOrder: getInput('changelog-section-order')
+            .split(',')
+            .map((title) => title.trim())
+            .filter((title) => title.length > 0),
+        validateChangelog: parseBooleanInput(getInput, 'validate-changelog'),
+        failOnMissingChangelog: parseBooleanInput(getInput, 'fail-on-missing-changelog'),
+        promoteUnreleased: parseBooleanInput(getInput, 'promote-unreleased'),
+        changelogFallback: parseChangelogFallback(getInput('changelog-fallback')),
+        commitGroups: parseCommitGroups(getInput('commit-groups')),
+        commitAuthors: parseBooleanInput(getInput, 'commit-authors'),
+        contributors: parseBooleanInput(getInput, 'contributors'),
+        botPattern: parseBotPattern(getInput('bot-pattern')),
+        assets: parseAssetPatterns(getInput('assets')),
+        tagPrefix: getInput('tag-prefix') || 'v',
+        releaseNameTemplate: parseTemplateInput(getInput, 'release-name-template', DEFAULT_RELEASE_NAME_TEMPLATE),
+        tagMessageTemplate: parseTemplateInput(getInput, 'tag-message-template', DEFAULT_TAG_MESSAGE_TEMPLATE),
+        releaseBodyTemplate: parseTemplateInput(getInput, 'release-body-template', DEFAULT_RELEASE_BODY_TEMPLATE),
+        releaseBodyHeaderFile: getInput('release-body-header-file'),
+        releaseBodyFooterFile: getInput('release-body-footer-file'),
+        fullChangelogLink: parseBooleanInput(getInput, 'full-changelog-link'),
+        tagBackend: parseTagBackend(getInput('tag-backend')),
+        releaseProvider: parseReleaseProvider(getInput('release-provider')),
+        providerUrl: getInput('provider-url'),
+        providerToken: getInput('provider-token'),
+        providerRepository: getInput('provider-repository'),
+        gitUserName: getInput('git-user-name'),
+        gitUserEmail: getInput('git-user-email'),
+        signingKey: getInput('signing-key'),
+        signingKeyPassphrase: getInput('signing-key-passphrase'),
+        signingFormat: parseSigningFormat(getInput('signing-format')),
+        floatingTags: parseFloatingTags(getInput('floating-tags')),
+        notifiers: parseNotifierInputs(getInput),
+        notificationRetries: parseNotificationRetries(getInput('notification-retries')),
+        updateIssues: parseBooleanInput(getInput, 'update-issues'),
+        issueReferencesFromCommits: parseBooleanInput(getInput, 'issue-references-from-commits'),
+        releasedLabel: getInput('released-label') || 'released',
+        issueRepositories: parseIssueRepositories(getInput('issue-repositories')),
+        closeMilestone: parseBooleanInput(getInput, 'close-milestone'),
+        createDraft: parseBooleanInput(getInput, 'create-draft'),
+        createPrerelease: getInput('create-prerelease') === 'true',
+        autoPrerelease: getInput('create-prerelease') === 'auto',
+        prereleaseIdentifiers: getInput('prerelease-identifiers')
+            .split(/[|,\n]/)
+            .map((identifier) => identifier.trim())
+            .filter((identifier) => identifier.length > 0),
+        prereleaseZeroMajor: parseBooleanInput(getInput, 'prerelease-zero-major'),
+        packages: parseListInput(getInput('packages')),
+        tagScheme: getInput('tag-scheme') || DEFAULT_TAG_SCHEME,
+        downgradePolicy: parseDowngradePolicy(getInput('downgrade-policy')),
+        dryRun: parseBooleanInput(getInput, 'dry-run'),
+        updateExistingRelease: parseBooleanInput(getInput, 'update-existing-release'),
+        keepTagOnFailure: parseBooleanInput(getInput, 'keep-tag-on-failure'),
     };
+
+    // Releases on GitLab and Gitea only call the GitHub API for these features
+    const usesGitHub =
+        config.releaseProvider === 'github' ||
+        config.tagBackend === 'api' ||
+        config.contributors ||
+        config.updateIssues ||
+        config.closeMilestone;
+    if (!config.githubToken && usesGitHub) {
+        throw new Error('Input required and not supplied: github-token');
+    }
+
+    return config;
+}
+
+/**
+ * Parse inputs from GitHub Actions
+ * @returns Configuration object
+ */
+export function parseInputs(): ReleaseConfig {
+    return parseReleaseConfig((name) => core.getInput(name));
 }
 
 /**
- * Read and parse the current version from package.json
+ * Read and parse the current version from the version file
  * @param fileService - File service instance
- * @param packageJsonPath - Path to package.json
+ * @param versionFilePath - Path to the version file (package.json, pyproject.toml, Cargo.toml, ...)
+ * @param versionSource - Version source type, or "auto" to detect it from the file name
+ * @param versionPattern - Regular expression used by the "regex" version source
  * @returns Current version string
- * @throws Error if package.json doesn't exist or version is missing
+ * @throws Error if the version file doesn't exist or version is missing
  */
-export function getCurrentVersion(fileService: FileService, packageJsonPath: string): string {
-    if (!fileService.fileExists(packageJsonPath)) {
-        throw new Error(`package.json not found at: ${packageJsonPath}`);
+export function getCurrentVersion(
+    fileService: FileService,
+    versionFilePath: string,
+    versionSource = 'auto',
+    versionPattern = '',
+): string {
+    const source = resolveVersionSource(versionFilePath, versionSource, versionPattern);
+
+    if (!fileService.fileExists(versionFilePath)) {
+        throw new Error(`${source.label} not found at: ${versionFilePath}`);
     }
 
-    const packageContent = fileService.readFile(packageJsonPath);
-    const currentVersion = parsePackageJson(packageContent);
-    
+    const fileContent = fileService.readFile(versionFilePath);
+    const currentVersion = source.parse(fileContent);
+
     if (isBlank(currentVersion)) {
-        throw new Error('No version found in package.json');
+        throw new Error(`No version found in ${source.label}`);
     }
 
     return currentVersion;
 }
 
+/**
+ * Read the version from the version file at an earlier commit or tag
+ * @param gitService - Git service instance
+ * @param ref - Commit SHA or tag to read the file at
+ * @param versionFilePath - Path to the version file, relative to the repository root
+ * @param versionSource - Version source type, or "auto" to detect it from the file name
+ * @param versionPattern - Regular expression for the "regex" source
+ * @returns Version at the ref, or null if the file cannot be read there or has no version
+ */
+export async function getVersionAtRef(
+    gitService: IGitService,
+    ref: string,
+    versionFilePath: string,
+    versionSource = 'auto',
+    versionPattern = '',
+): Promise<string | null> {
+    const source = resolveVersionSource(versionFilePath, versionSource, versionPattern);
+
+    try {
+        const version = source.parse(await gitService.getFileFromTag(ref, path.posix.normalize(versionFilePath)));
+        return isBlank(version) ? null : version;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Could not read the version from ${source.label} at ${ref}: ${message}`);
+        return null;
+    }
+}
+
 /**
  * Extract changelog content for a specific version
  * @param fileService - File service instance
@@ -157,161 +665,1435 @@ export function extractChangelog(
 }
 
 /**
- * Parameters for creating a GitHub release
+ * Extract the structured changelog entry for a specific version
+ * @param fileService - File service instance
+ * @param changelogPath - Path to changelog file
+ * @param version - Version to extract the entry for
+ * @returns Parsed entry, or null if the file or version is missing
  */
-export interface CreateReleaseParams {
-    octokit: ReturnType<typeof github.getOctokit>;
-    owner: string;
-    repo: string;
-    tagName: string;
-    body: string;
-    draft: boolean;
-    prerelease: boolean;
+export function extractChangelogEntry(
+    fileService: FileService,
+    changelogPath: string,
+    version: string,
+): ChangelogEntry | null {
+    if (!fileService.fileExists(changelogPath)) {
+        return null;
+    }
+
+    const entries = parseChangelogEntries(fileService.readFile(changelogPath));
+    return findChangelogEntry(entries, version);
 }
 
 /**
- * Result of creating a GitHub release
+ * Validate the changelog and report every problem as an annotation on the file
+ * @param fileService - File service instance
+ * @param changelogPath - Path to changelog file
+ * @param version - Version that must have a changelog entry
+ * @param allowUnreleased - Accept a non-empty Unreleased section instead of the version entry
+ * @throws Error if the changelog is missing or has validation errors
  */
-export interface CreateReleaseResult {
-    id: number;
-    htmlUrl: string;
+export function validateChangelogFile(
+    fileService: FileService,
+    changelogPath: string,
+    version: string,
+    allowUnreleased = false,
+): void {
+    if (!fileService.fileExists(changelogPath)) {
+        core.error(`Changelog not found at ${changelogPath}`, { title: 'Changelog validation' });
+        throw new Error(`Changelog validation failed: ${changelogPath} not found`);
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const problems = validateChangelog(fileService.readFile(changelogPath), {
+        currentVersion: version,
+        allowUnreleased,
+        today,
+    });
+
+    for (const problem of problems) {
+        const annotate = problem.severity === 'error' ? core.error : core.warning;
+        annotate(problem.message, { title: 'Changelog validation', file: changelogPath, startLine: problem.line });
+    }
+
+    const errorCount = problems.filter((problem) => problem.severity === 'error').length;
+    if (errorCount > 0) {
+        throw new Error(`Changelog validation failed with ${errorCount} error(s) in ${changelogPath}`);
+    }
+
+    core.info(`📋 ${changelogPath} passed validation`);
 }
 
 /**
- * Create a GitHub release
- * @param params - Release parameters
- * @returns Release result with id and URL
+ * Promote the Unreleased section to the version entry, then commit and push the changelog
+ * @param fileService - File service instance
+ * @param gitService - Git service instance
+ * @param changelogPath - Path to changelog file
+ * @param version - Version being released
+ * @param tagName - Tag of the release, used for compare links
+ * @returns True if the changelog was updated and committed
  */
-export async function createGitHubRelease(params: CreateReleaseParams): Promise<CreateReleaseResult> {
-    const release = await params.octokit.rest.repos.createRelease({
-        owner: params.owner,
-        repo: params.repo,
-        tag_name: params.tagName,
-        name: params.tagName,
-        body: params.body,
-        draft: params.draft,
-        prerelease: params.prerelease,
+export async function promoteUnreleasedChangelog(
+    fileService: FileService,
+    gitService: IGitService,
+    changelogPath: string,
+    version: string,
+    tagName: string,
+): Promise<boolean> {
+    if (!fileService.fileExists(changelogPath)) {
+        return false;
+    }
+
+    const versionClean = version.replace(/^v/, '');
+    const promoted = promoteUnreleased(fileService.readFile(changelogPath), {
+        version: versionClean,
+        date: new Date().toISOString().slice(0, 10),
+        tagName,
     });
 
-    return {
-        id: release.data.id,
-        htmlUrl: release.data.html_url,
+    if (promoted === null) {
+        core.info(`ℹ️  Nothing to promote in ${changelogPath}`);
+        return false;
+    }
+
+    core.info(`📝 Promoting Unreleased to ${versionClean} in ${changelogPath}`);
+    fileService.writeFile(changelogPath, promoted);
+    await gitService.commitAndPush([changelogPath], `Update changelog for ${tagName}`);
+
+    return true;
+}
+
+/**
+ * Move the configured floating tags (e.g., "v1" and "v1.2") to a new release
+ *
+ * Prereleases never move floating tags, and a floating tag is never moved back to an older release.
+ * A tag that cannot be moved (e.g., a protected tag) is reported as a warning and left where it was.
+ * @param gitService - Git service instance
+ * @param levels - Floating tag levels to maintain
+ * @param tagPrefix - Prefix of the version tags
+ * @param tagName - Tag of the release
+ * @param version - Version being released
+ * @param tags - Existing tags with the prefix
+ * @param prerelease - Whether the release is marked as a prerelease
+ * @returns Names of the moved tags
+ */
+export async function moveFloatingTags(
+    gitService: IGitService,
+    levels: FloatingTagLevel[],
+    tagPrefix: string,
+    tagName: string,
+    version: string,
+    tags: string[],
+    prerelease: boolean,
+): Promise<string[]> {
+    if (levels.length === 0) {
+        return [];
+    }
+
+    const plans = prerelease ? [] : planFloatingTags(tagPrefix, version, tags, levels);
+    if (plans.length === 0) {
+        core.info(`ℹ️  Floating tags are not moved for prerelease ${tagName}`);
+        return [];
+    }
+
+    const moved: string[] = [];
+    for (const plan of plans) {
+        if (plan.newerTag) {
+            core.warning(`⚠️  Not moving ${plan.tagName} to ${tagName}: ${plan.newerTag} is newer`);
+            continue;
+        }
+
+        try {
+            // Tags are pushed one after another, like every other git operation
+            // oxlint-disable-next-line no-await-in-loop
+            await gitService.moveTag(plan.tagName, tagName);
+            moved.push(plan.tagName);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            core.warning(`Could not move ${plan.tagName} to ${tagName}: ${message}`);
+        }
+    }
+
+    return moved;
+}
+
+/**
+ * Generate release notes from the Conventional Commits since the previous tag
+ * @param gitService - Git service instance
+ * @param config - Action configuration
+ * @param previousTag - Previous release tag, or null for the whole history
+ * @param directory - Only include commits touching this directory
+ * @returns Grouped Markdown notes (may be empty string if no commit matched a group)
+ */
+export async function generateCommitNotes(
+    gitService: IGitService,
+    config: ReleaseConfig,
+    previousTag: string | null,
+    directory: string,
+): Promise<string> {
+    const commits = await gitService.getCommits(previousTag, [directory]);
+    core.info(`📜 Found ${commits.length} commit(s) since ${previousTag ?? 'the first commit'}`);
+
+    return renderCommitNotes(commits, { groups: config.commitGroups, includeAuthors: config.commitAuthors });
+}
+
+/**
+ * Credit the contributors and merged pull requests since the previous tag
+ * @param context - Shared services and repository information
+ * @param previousTag - Previous release tag, or null for the whole history
+ * @param directory - Only include commits touching this directory
+ * @returns "Contributors" and "Merged pull requests" sections (may be empty string without commits
+ * or without a GitHub repository)
+ * @throws Error if a GitHub API call fails
+ */
+export async function generateReleaseCredits(
+    context: ReleaseContext,
+    previousTag: string | null,
+    directory: string,
+): Promise<string> {
+    // A GitLab project in subgroups (e.g., "group/sub/project" in the CLI) has no GitHub repository to look up
+    if (context.owner.includes('/')) {
+        core.warning(`Not crediting contributors: ${context.owner}/${context.repo} is not a GitHub repository`);
+        return '';
+    }
+
+    const commits = await context.gitService.getCommits(previousTag, [directory]);
+    core.info(`👥 Looking up the authors of ${commits.length} commit(s) since ${previousTag ?? 'the first commit'}`);
+
+    const credits = await collectReleaseCredits({
+        octokit: context.octokit,
+        owner: context.owner,
+        repo: context.repo,
+        commits,
+        previousTag,
+        headSha: context.sha,
+        botPattern: context.config.botPattern,
+    });
+
+    return renderReleaseCredits(credits);
+}
+
+/**
+ * Find the issues and pull requests referenced in the changelog entry and, if enabled, the commit messages
+ * @param context - Shared services and repository information
+ * @param changelog - Release notes of the release
+ * @param previousTag - Previous release tag, or null for the whole history
+ * @param directory - Only include commits touching this directory
+ * @returns References to the current repository and the allowed ones, each once
+ */
+export async function collectIssueReferences(
+    context: ReleaseContext,
+    changelog: string,
+    previousTag: string | null,
+    directory: string,
+): Promise<IssueReference[]> {
+    const texts = [changelog];
+    if (context.config.issueReferencesFromCommits) {
+        const commits = await context.gitService.getCommits(previousTag, [directory]);
+        texts.push(...commits.map((commit) => commit.message));
+    }
+
+    return findIssueReferences(texts.join('\n'), context.owner, context.repo, context.config.issueRepositories);
+}
+
+/**
+ * Label and comment on the issues referenced in a published release and close its milestone
+ *
+ * Failures only produce warnings, so they never fail or roll back the release.
+ * @param context - Shared services and repository information
+ * @param tagName - Tag of the release
+ * @param version - Released version
+ * @param releaseUrl - URL of the release, linked in the comments
+ * @param changelog - Release notes of the release
+ * @param previousTag - Previous release tag, or null for the whole history
+ * @param directory - Only include commits touching this directory
+ */
+export async function updateReleasedIssues(
+    context: ReleaseContext,
+    tagName: string,
+    version: string,
+    releaseUrl: string,
+    changelog: string,
+    previousTag: string | null,
+    directory: string,
+): Promise<void> {
+    const { config } = context;
+
+    if (config.updateIssues) {
+        try {
+            const references = await collectIssueReferences(context, changelog, previousTag, directory);
+            const list = references.map(formatIssueReference).join(', ');
+
+            if (references.length === 0) {
+                core.info('ℹ️  No issue or pull request references found');
+            } else if (config.dryRun) {
+                core.info(`🧪 Dry run: would label "${config.releasedLabel}" and comment on ${list}`);
+            } else {
+                const updated = await updateReferencedIssues({
+                    octokit: context.octokit,
+                    references,
+                    label: config.releasedLabel,
+                    comment: `Released in [${tagName}](${releaseUrl})`,
+                });
+                core.info(
+                    `🔖 Labeled and commented on ${updated.length} of ${references.length} reference(s): ${list}`,
+                );
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            core.warning(`Could not update the referenced issues: ${message}`);
+        }
+    }
+
+    if (config.closeMilestone) {
+        const titles = [...new Set([tagName, version])];
+        if (config.dryRun) {
+            core.info(`🧪 Dry run: would close the open milestone named ${titles.join(' or ')}`);
+            return;
+        }
+
+        const closed = await closeMilestone(context.octokit, context.owner, context.repo, titles);
+        if (closed) {
+            core.info(`🏁 Closed milestone ${closed}`);
+        }
+    }
+}
+
+/**
+ * Expand the asset patterns into the files to upload
+ *
+ * Patterns starting with "!" exclude files from every other pattern (e.g., "!dist/*.map").
+ * @param fileService - File service instance
+ * @param patterns - Asset patterns
+ * @param directory - Directory the patterns are relative to
+ * @returns Files to upload; a file matched by several patterns is listed once
+ * @throws Error if two files would be uploaded under the same name
+ */
+export async function resolveReleaseAssets(
+    fileService: FileService,
+    patterns: AssetPattern[],
+    directory: string,
+): Promise<ReleaseAssetFile[]> {
+    const files = new Map<string, ReleaseAssetFile>();
+    const exclusions = patterns
+        .filter((pattern) => pattern.pattern.startsWith('!'))
+        .map((pattern) => `!${path.join(directory, pattern.pattern.slice(1))}`);
+
+    const included = patterns.filter((candidate) => !candidate.pattern.startsWith('!'));
+    // Patterns are expanded one by one to keep their label and content type
+    const matchesPerPattern = await Promise.all(
+        included.map((pattern) => fileService.findFiles([path.join(directory, pattern.pattern), ...exclusions])),
+    );
+
+    for (const [index, pattern] of included.entries()) {
+        const matches = matchesPerPattern[index];
+        if (matches.length === 0) {
+            core.warning(`No files found for asset pattern: ${pattern.pattern}`);
+        }
+
+        for (const filePath of matches) {
+            const name = path.basename(filePath);
+            const existing = files.get(name);
+            if (existing && existing.filePath !== filePath) {
+                throw new Error(`Duplicate asset name ${name}: ${existing.filePath} and ${filePath}`);
+            }
+            if (!existing) {
+                files.set(name, {
+                    filePath,
+                    name,
+                    label: pattern.label,
+                    contentType: pattern.contentType || getContentType(name),
+                });
+            }
+        }
+    }
+
+    if (files.has(CHECKSUMS_FILE_NAME)) {
+        throw new Error(`Asset name ${CHECKSUMS_FILE_NAME} is reserved for the generated checksums`);
+    }
+
+    return [...files.values()];
+}
+
+/**
+ * Upload files to a release, followed by a SHA256SUMS file covering all of them
+ * @param context - Shared services and repository information
+ * @param release - Created release
+ * @param files - Files to upload
+ * @returns Uploaded assets, including the checksums file
+ */
+export async function uploadReleaseAssets(
+    context: ReleaseContext,
+    release: CreateReleaseResult,
+    files: ReleaseAssetFile[],
+): Promise<UploadedAsset[]> {
+    const uploaded: UploadedAsset[] = [];
+    const checksums = new Map<string, string>();
+    const upload = (name: string, label: string, contentType: string, data: Buffer) =>
+        context.releaseProvider.uploadAsset(release, { name, label, contentType, data });
+
+    for (const file of files) {
+        const data = context.fileService.readFileBuffer(file.filePath);
+        checksums.set(file.name, sha256(data));
+
+        core.info(`📎 Uploading ${file.filePath} (${data.length} bytes)`);
+        // Uploaded one at a time to keep the order of the assets
+        // oxlint-disable-next-line no-await-in-loop
+        uploaded.push(await upload(file.name, file.label, file.contentType, data));
+    }
+
+    core.info(`🔐 Uploading ${CHECKSUMS_FILE_NAME}`);
+    uploaded.push(await upload(CHECKSUMS_FILE_NAME, '', 'text/plain', Buffer.from(renderChecksums(checksums), 'utf8')));
+
+    return uploaded;
+}
+
+/**
+ * Combine the release body template with the optional header and footer template files
+ * @param fileService - File service instance
+ * @param config - Action configuration
+ * @returns Validated template for the whole release body
+ * @throws Error if a header or footer file is missing or uses unknown placeholders
+ */
+export function loadReleaseBodyTemplate(fileService: FileService, config: ReleaseConfig): string {
+    const readTemplateFile = (input: string, filePath: string): string => {
+        if (!filePath) {
+            return '';
+        }
+        if (!fileService.fileExists(filePath)) {
+            throw new Error(`${input} not found: ${filePath}`);
+        }
+
+        const template = fileService.readFile(filePath).trim();
+        validateTemplate(template, `${input} ${filePath}`);
+        return template;
     };
+
+    return [
+        readTemplateFile('release-body-header-file', config.releaseBodyHeaderFile),
+        config.releaseBodyTemplate,
+        readTemplateFile('release-body-footer-file', config.releaseBodyFooterFile),
+    ]
+        .filter((part) => part.length > 0)
+        .join('\n\n');
 }
 
-export async function run(): Promise<void> {
-    try {
-        // Get inputs
-        const config = parseInputs();
+/**
+ * Map each non-empty changelog section to its rendered list items (pure function)
+ * @param entry - Changelog entry (or null)
+ * @returns Object keyed by section slug (e.g., "added", "breaking-changes")
+ */
+export function getChangelogSectionOutputs(entry: ChangelogEntry | null): Record<string, string> {
+    const outputs: Record<string, string> = {};
 
-        core.info('🚀 Starting Auto Release Action...');
-        core.info(`📦 Package.json path: ${config.packageJsonPath}`);
-        core.info(`📝 Changelog path: ${config.changelogPath}`);
-        core.info(`🏷️  Tag prefix: ${config.tagPrefix}`);
+    for (const section of entry?.sections ?? []) {
+        if (section.items.length > 0) {
+            outputs[toSectionKey(section.title)] = renderChangelogItems(section);
+        }
+    }
 
-        // Get GitHub context
-        const context = github.context;
-        const octokit = github.getOctokit(config.githubToken);
+    return outputs;
+}
 
-        // Initialize services
-        const gitService = new GitService();
-        const fileService = new FileService();
+/**
+ * Services and repository information shared by every package released in a run
+ */
+export interface ReleaseContext {
+    config: ReleaseConfig;
+    gitService: IGitService;
+    fileService: FileService;
+    octokit: ReturnType<typeof github.getOctokit>;
+    /** Forge the releases are created on */
+    releaseProvider: IReleaseProvider;
+    owner: string;
+    repo: string;
+    /** Commit that triggered the workflow */
+    sha: string;
+    /** Commit the branch pointed at before the push; null for other events and new branches */
+    previousSha: string | null;
+}
 
-        // Get current version from package.json
-        const currentVersion = getCurrentVersion(fileService, config.packageJsonPath);
-        core.info(`📌 Current version: ${currentVersion}`);
+/**
+ * Repository and commits of a run: the workflow context in the action, the checkout in the CLI
+ */
+export interface ReleaseRepository {
+    owner: string;
+    repo: string;
+    /** GitHub server URL, for links to GitHub releases */
+    serverUrl: string;
+    /** Commit the tag points at */
+    sha: string;
+    /** Branch changelog commits are pushed to (e.g., "refs/heads/main") */
+    ref: string;
+    /** Commit the branch pointed at before the push; null for other events and new branches */
+    previousSha: string | null;
+}
 
-        // Get the latest version tag
-        const tags = await gitService.getTags(config.tagPrefix);
-        const latestTag = tags.length > 0 ? tags[0] : null;
+/**
+ * Side effects of a release attempt that are undone when a later step fails
+ */
+export interface ReleaseRollback {
+    tagName: string;
+    /** Whether the tag was created by this run (recovered and updated releases reuse an existing tag) */
+    tagCreated: boolean;
+    /** Release created by this run; deleting it also deletes its uploaded assets */
+    release: CreateReleaseResult | null;
+}
 
-        // Check if the new tag already exists
-        const newTagName = buildTagName(config.tagPrefix, currentVersion);
-        const tagAlreadyExists = await gitService.tagExists(newTagName);
+/**
+ * Undo the release and tag created by a failed release attempt
+ *
+ * Every step is attempted even if an earlier one fails, so as little as possible is left behind.
+ * @param context - Shared services and repository information
+ * @param rollback - What was created before the failure
+ * @param error - The error that caused the rollback
+ * @returns Error with the original message and the outcome of the rollback
+ */
+export async function rollBackRelease(
+    context: ReleaseContext,
+    rollback: ReleaseRollback,
+    error: unknown,
+): Promise<Error> {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+    const steps: string[] = [];
 
-        // Determine if we should create a release (pure business logic)
-        const decision = determineReleaseDecision(currentVersion, latestTag, config.tagPrefix, tagAlreadyExists);
+    if (rollback.release) {
+        core.info(`↩️  Deleting release ${rollback.release.id}`);
+        try {
+            await context.releaseProvider.deleteRelease(rollback.release);
+            steps.push(`deleted release ${rollback.release.id}`);
+        } catch (deleteError) {
+            const deleteMessage = deleteError instanceof Error ? deleteError.message : String(deleteError);
+            steps.push(`failed to delete release ${rollback.release.id}: ${deleteMessage}`);
+        }
+    }
 
-        // Log decision details
-        if (isBlank(latestTag)) {
-            core.info('🎉 No previous tags found, this will be the first release!');
+    if (rollback.tagCreated) {
+        if (context.config.keepTagOnFailure) {
+            steps.push(`kept tag ${rollback.tagName} (keep-tag-on-failure)`);
         } else {
-            // Always true in practice, but guard against edge cases
-            const latestVersionDisplay = decision.latestVersion || latestTag;
+            core.info(`↩️  Deleting tag ${rollback.tagName}`);
+            try {
+                await context.gitService.deleteTag(rollback.tagName);
+                steps.push(`deleted tag ${rollback.tagName}`);
+            } catch (deleteError) {
+                const deleteMessage = deleteError instanceof Error ? deleteError.message : String(deleteError);
+                steps.push(`failed to delete tag ${rollback.tagName}: ${deleteMessage}`);
+            }
+
+            // GitLab and Gitea can hold a copy of the tag, e.g. when they mirror the repository
+            const label = context.releaseProvider.label;
+            try {
+                if (await context.releaseProvider.deleteTag(rollback.tagName)) {
+                    steps.push(`deleted ${label} tag ${rollback.tagName}`);
+                }
+            } catch (deleteError) {
+                const deleteMessage = deleteError instanceof Error ? deleteError.message : String(deleteError);
+                steps.push(`failed to delete ${label} tag ${rollback.tagName}: ${deleteMessage}`);
+            }
+        }
+    }
+
+    if (steps.length === 0) {
+        return error instanceof Error ? error : new Error(message);
+    }
+
+    return new Error(`${message} (rollback: ${steps.join(', ')})`, { cause: error });
+}
+
+/**
+ * Outcome of the release flow for a single package
+ */
+export interface PackageReleaseResult {
+    name: string;
+    directory: string;
+    version: string;
+    /** Latest released version; empty for the first release */
+    previousVersion: string;
+    tagName: string;
+    versionChanged: boolean;
+    /** Empty when the package failed before the version could be compared */
+    bumpType: BumpType | '';
+    releaseAction: ReleaseAction | '';
+    /** Explanation of the release decision */
+    decision: string;
+    draft: boolean;
+    prerelease: boolean;
+    releaseCreated: boolean;
+    changelogSource?: ChangelogSource;
+    /** Release body (set when a release was created) */
+    body?: string;
+    /** Release id; the tag name on GitLab */
+    releaseId?: number | string;
+    releaseUrl?: string;
+    /** Rendered list items per changelog section, keyed by section slug */
+    changelogSections?: Record<string, string>;
+    assets?: UploadedAsset[];
+    /** Floating tags moved to the release (e.g., ["v1", "v1.2"]) */
+    floatingTags?: string[];
+    error?: string;
+}
+
+/**
+ * Run the version check, tag and release flow for one package
+ * @param target - Package to release
+ * @param context - Shared services and repository information
+ * @returns Result describing what happened
+ */
+export async function releasePackage(target: PackageTarget, context: ReleaseContext): Promise<PackageReleaseResult> {
+    const { config, gitService, fileService } = context;
+
+    // Get current version from the version file
+    const currentVersion = getCurrentVersion(
+        fileService,
+        target.versionFilePath,
+        config.versionSource,
+        config.versionPattern,
+    );
+    core.info(`📌 Current version: ${currentVersion}`);
+
+    if (config.validateChangelog) {
+        validateChangelogFile(fileService, target.changelogPath, currentVersion, config.promoteUnreleased);
+    }
+
+    // Get the latest version tag
+    const tags = await gitService.getTags(target.tagPrefix);
+    const latestTag = tags.length > 0 ? tags[0] : null;
+
+    // In file mode the version file is compared with its content before the push, or at the latest tag
+    const baselineRef = config.versionDetection === 'file' ? (context.previousSha ?? latestTag) : null;
+    const previousVersion = baselineRef
+        ? await getVersionAtRef(
+              gitService,
+              baselineRef,
+              target.versionFilePath,
+              config.versionSource,
+              config.versionPattern,
+          )
+        : null;
+    if (previousVersion !== null) {
+        core.info(`🔎 Version in ${target.versionFilePath} at ${baselineRef}: ${previousVersion}`);
+    } else if (baselineRef) {
+        core.info('ℹ️  Comparing with the latest tag instead');
+    }
+
+    // Check if the new tag already exists
+    const newTagName = buildTagName(target.tagPrefix, currentVersion);
+    const tagAlreadyExists = await gitService.tagExists(newTagName);
+    const existingRelease = tagAlreadyExists ? await context.releaseProvider.findRelease(newTagName) : null;
+
+    // Determine if we should create a release (pure business logic)
+    const decision = determineReleaseDecision(
+        currentVersion,
+        latestTag,
+        target.tagPrefix,
+        tagAlreadyExists,
+        config.downgradePolicy,
+        existingRelease !== null,
+        config.updateExistingRelease,
+        previousVersion,
+    );
+
+    // Log decision details
+    if (isBlank(latestTag) && previousVersion === null) {
+        core.info('🎉 No previous tags found, this will be the first release!');
+    } else {
+        // Always true in practice, but guard against edge cases
+        const latestVersionDisplay = decision.latestVersion || latestTag;
+        if (previousVersion === null) {
             core.info(`🔖 Latest tagged version: ${latestVersionDisplay}`);
+        }
 
-            if (decision.versionChanged) {
-                core.info(`✨ Version changed from ${latestVersionDisplay} to ${currentVersion}`);
+        if (decision.versionChanged) {
+            core.info(`✨ Version changed from ${latestVersionDisplay} to ${currentVersion} (${decision.bumpType})`);
 
-                if (tagAlreadyExists) {
-                    core.warning(`⚠️  Tag ${newTagName} already exists. Skipping release.`);
-                }
-            } else {
-                core.info('ℹ️  Version unchanged, no release needed.');
+            if (decision.bumpType === 'downgrade') {
+                const action = config.downgradePolicy === 'skip' ? 'Skipping release' : 'Releasing anyway';
+                core.warning(
+                    `⚠️  ${currentVersion} is lower than ${latestVersionDisplay}. ${action} (downgrade-policy: ${config.downgradePolicy}).`,
+                );
+            }
+
+            if (tagAlreadyExists && decision.releaseAction === 'none') {
+                core.warning(`⚠️  Tag ${newTagName} already exists. Skipping release.`);
             }
+        } else if (decision.releaseAction === 'none') {
+            core.info('ℹ️  Version unchanged, no release needed.');
         }
+    }
 
-        // Set version-changed output
-        core.setOutput('version-changed', decision.versionChanged.toString());
-        core.setOutput('version', currentVersion);
+    if (decision.releaseAction === 'recover') {
+        core.warning(
+            `⚠️  Tag ${newTagName} exists without a ${context.releaseProvider.label} release. Creating the missing release.`,
+        );
+    } else if (decision.releaseAction === 'update') {
+        core.info(`♻️  Tag ${newTagName} already has a release. Updating it.`);
+    }
 
-        if (!decision.shouldCreateRelease) {
-            core.setOutput('release-created', 'false');
-            core.info('✅ Action completed (no release created)');
-            return;
+    const prerelease = resolvePrerelease(config, currentVersion);
+    if (config.autoPrerelease) {
+        core.info(`🧪 Prerelease (detected from version): ${prerelease ? 'yes' : 'no'}`);
+    }
+
+    const result: PackageReleaseResult = {
+        name: target.name,
+        directory: target.directory,
+        version: currentVersion,
+        previousVersion: decision.latestVersion ?? '',
+        tagName: decision.newTagName,
+        versionChanged: decision.versionChanged,
+        bumpType: decision.bumpType,
+        releaseAction: decision.releaseAction,
+        decision: describeReleaseDecision(decision, tagAlreadyExists),
+        draft: config.createDraft,
+        prerelease,
+        releaseCreated: false,
+    };
+
+    if (!decision.shouldCreateRelease) {
+        return result;
+    }
+
+    // Header and footer files are read before the changelog is promoted, so a missing file changes nothing
+    const releaseBodyTemplate = loadReleaseBodyTemplate(fileService, config);
+
+    // Finalize the changelog first so the tag points at the commit that contains it
+    // The tag of a recovered or updated release already points at its commit
+    const promoted =
+        config.promoteUnreleased &&
+        decision.releaseAction === 'create' &&
+        (await promoteUnreleasedChangelog(
+            fileService,
+            gitService,
+            target.changelogPath,
+            currentVersion,
+            decision.newTagName,
+        ));
+
+    // Extract changelog for this version
+    core.info(`📖 Extracting changelog for version ${currentVersion}...`);
+
+    const changelogEntry =
+        config.changelogParser === 'structured'
+            ? extractChangelogEntry(fileService, target.changelogPath, currentVersion)
+            : null;
+
+    // Entries without "### " sections don't follow Keep a Changelog, so their text is used as-is
+    let rawChangelogContent =
+        changelogEntry && changelogEntry.sections.length > 0
+            ? renderChangelogEntry(changelogEntry, { sectionOrder: config.changelogSectionOrder })
+            : extractChangelog(fileService, target.changelogPath, currentVersion);
+    let changelogSource: ChangelogSource = promoted ? 'promoted' : 'changelog';
+
+    // Floating tags (e.g., "v1") are not releases
+    const previousTag =
+        tags.find(
+            (tag) => tag !== decision.newTagName && parseSemver(extractVersionFromTag(tag, target.tagPrefix)) !== null,
+        ) ?? null;
+
+    if (isBlank(rawChangelogContent)) {
+        changelogSource = 'default';
+
+        if (config.failOnMissingChangelog) {
+            throw new Error(`No changelog entry for version ${currentVersion} in ${target.changelogPath}`);
         }
 
-        // Extract changelog for this version
-        core.info(`📖 Extracting changelog for version ${currentVersion}...`);
+        if (fileService.fileExists(target.changelogPath)) {
+            const versionClean = currentVersion.replace(/^v/, '');
+            core.warning(`Version ${versionClean} not found in ${target.changelogPath}`);
+        } else {
+            core.warning(`CHANGELOG.md not found at ${target.changelogPath}`);
+        }
 
-        const rawChangelogContent = extractChangelog(fileService, config.changelogPath, currentVersion);
+        if (config.changelogFallback === 'commits') {
+            core.warning('No changelog content found, generating release notes from commits');
+            rawChangelogContent = await generateCommitNotes(gitService, config, previousTag, target.directory);
+            changelogSource = isBlank(rawChangelogContent) ? 'default' : 'commits';
+        }
 
         if (isBlank(rawChangelogContent)) {
-            if (fileService.fileExists(config.changelogPath)) {
-                const versionClean = currentVersion.replace(/^v/, '');
-                core.warning(`Version ${versionClean} not found in ${config.changelogPath}`);
-            } else {
-                core.warning(`CHANGELOG.md not found at ${config.changelogPath}`);
-            }
             core.warning('No changelog content found, using default message');
         }
+    } else {
+        // Link reference definitions live at the end of the changelog, outside the version entry
+        rawChangelogContent = appendLinkReferences(
+            rawChangelogContent,
+            parseLinkReferences(fileService.readFile(target.changelogPath)),
+        );
+    }
+
+    const templateValues: TemplateValues = {
+        version: currentVersion,
+        tag: decision.newTagName,
+        name: target.name,
+        previousVersion: previousTag ? extractVersionFromTag(previousTag, target.tagPrefix) : '',
+        date: new Date().toISOString().slice(0, 10),
+        changelog: getChangelogWithFallback(rawChangelogContent, currentVersion),
+        repo: context.releaseProvider.repository,
+        sha: context.sha,
+        compareUrl: context.releaseProvider.getCompareUrl(previousTag, decision.newTagName),
+    };
+    const releaseName = renderTemplate(config.releaseNameTemplate, templateValues);
+    let releaseBody = renderTemplate(releaseBodyTemplate, templateValues);
+    if (config.contributors) {
+        // Credits are optional, so a failed lookup (e.g., a rate limit) does not block the release
+        try {
+            const credits = await generateReleaseCredits(context, previousTag, target.directory);
+            if (credits) {
+                releaseBody += `\n\n${credits}`;
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            core.warning(`Could not credit contributors: ${message}. The release is created without credits`);
+        }
+    }
+    // The first release has nothing to compare with
+    if (config.fullChangelogLink && templateValues.compareUrl) {
+        releaseBody += `\n\n**Full Changelog**: ${templateValues.compareUrl}`;
+    }
+
+    // Assets are only uploaded to new releases, where their names cannot clash with existing ones.
+    // They are resolved before tagging so a broken pattern does not leave a half-finished release.
+    const uploadAssets = config.assets.length > 0 && decision.releaseAction !== 'update';
+    const assetFiles = uploadAssets ? await resolveReleaseAssets(fileService, config.assets, target.directory) : [];
+
+    // Tagging, the release and its assets are undone if one of them fails, so no half-finished release is left
+    const rollback: ReleaseRollback = { tagName: decision.newTagName, tagCreated: false, release: null };
+
+    let releaseResult: CreateReleaseResult;
+    let assets: UploadedAsset[];
+    const releaseCreated = decision.releaseAction !== 'update';
 
-        const changelogContent = getChangelogWithFallback(rawChangelogContent, currentVersion);
+    try {
+        if (decision.releaseAction === 'create') {
+            core.info(`🏷️  Creating tag: ${decision.newTagName}`);
+            await gitService.createTag(decision.newTagName, renderTemplate(config.tagMessageTemplate, templateValues));
+            rollback.tagCreated = true;
+        }
 
-        // Create git tag
-        core.info(`🏷️  Creating tag: ${decision.newTagName}`);
-        await gitService.createTag(decision.newTagName, `Release ${decision.newTagName}`);
+        if (config.dryRun) {
+            core.info(
+                `🧪 Dry run: would ${releaseCreated ? 'create' : 'update'} ${context.releaseProvider.label} release ${decision.newTagName}`,
+            );
+            core.info(`   Name: ${releaseName}`);
+            core.info(`   Draft: ${config.createDraft ? 'yes' : 'no'}`);
+            core.info(`   Prerelease: ${prerelease ? 'yes' : 'no'}`);
+            if (assetFiles.length > 0) {
+                core.info(`   Assets: ${[...assetFiles.map((file) => file.filePath), CHECKSUMS_FILE_NAME].join(', ')}`);
+            }
+            core.info(`   Body:\n${releaseBody}`);
+            if (releaseCreated && !config.createDraft && config.notifiers.length > 0) {
+                core.info(`   Notify: ${config.notifiers.map((notifier) => notifier.kind).join(', ')}`);
+            }
+            if (releaseCreated && !config.createDraft) {
+                await updateReleasedIssues(
+                    context,
+                    decision.newTagName,
+                    currentVersion,
+                    '',
+                    templateValues.changelog,
+                    previousTag,
+                    target.directory,
+                );
+            }
 
-        // Create GitHub release
-        core.info('🎊 Creating GitHub release...');
-        const releaseResult = await createGitHubRelease({
-            octokit,
-            owner: context.repo.owner,
-            repo: context.repo.repo,
-            tagName: decision.newTagName,
-            body: changelogContent,
-            draft: config.createDraft,
-            prerelease: config.createPrerelease,
-        });
+            return {
+                ...result,
+                releaseCreated,
+                changelogSource,
+                body: releaseBody,
+                changelogSections: getChangelogSectionOutputs(changelogEntry),
+                assets: [],
+                floatingTags: await moveFloatingTags(
+                    gitService,
+                    config.floatingTags,
+                    target.tagPrefix,
+                    decision.newTagName,
+                    currentVersion,
+                    tags,
+                    prerelease,
+                ),
+            };
+        }
 
-        core.info(`✅ Release created successfully!`);
+        if (existingRelease && decision.releaseAction === 'update') {
+            core.info(`🎊 Updating ${context.releaseProvider.label} release...`);
+            releaseResult = await context.releaseProvider.updateRelease(existingRelease, {
+                name: releaseName,
+                body: releaseBody,
+                prerelease,
+            });
+            core.info(`✅ Release updated successfully!`);
+        } else {
+            core.info(`🎊 Creating ${context.releaseProvider.label} release...`);
+            releaseResult = await context.releaseProvider.createRelease({
+                tagName: decision.newTagName,
+                name: releaseName,
+                body: releaseBody,
+                draft: config.createDraft,
+                prerelease,
+            });
+            rollback.release = releaseResult;
+            core.info(`✅ Release created successfully!`);
+        }
         core.info(`🔗 Release URL: ${releaseResult.htmlUrl}`);
 
-        // Set outputs
-        core.setOutput('release-created', 'true');
-        core.setOutput('release-id', releaseResult.id.toString());
-        core.setOutput('release-url', releaseResult.htmlUrl);
-        core.setOutput('tag-name', decision.newTagName);
+        assets = assetFiles.length > 0 ? await uploadReleaseAssets(context, releaseResult, assetFiles) : [];
+    } catch (error) {
+        throw await rollBackRelease(context, rollback, error);
+    }
+
+    // The release is complete: the steps below only warn on failure, so they never roll it back.
+    // Floating tags follow the release; drafts are not published yet, so nobody is notified about them.
+    const floatingTags = await moveFloatingTags(
+        gitService,
+        config.floatingTags,
+        target.tagPrefix,
+        decision.newTagName,
+        currentVersion,
+        tags,
+        prerelease,
+    );
+
+    if (releaseCreated && !config.createDraft && config.notifiers.length > 0) {
+        await sendNotifications(
+            config.notifiers,
+            {
+                repo: context.releaseProvider.repository,
+                name: target.name,
+                version: currentVersion,
+                tagName: decision.newTagName,
+                releaseName,
+                releaseUrl: releaseResult.htmlUrl,
+                prerelease,
+                changelog: templateValues.changelog,
+            },
+            { retries: config.notificationRetries, retryDelayMs: NOTIFICATION_RETRY_DELAY_MS },
+        );
+    }
+    if (releaseCreated && !config.createDraft) {
+        await updateReleasedIssues(
+            context,
+            decision.newTagName,
+            currentVersion,
+            releaseResult.htmlUrl,
+            templateValues.changelog,
+            previousTag,
+            target.directory,
+        );
+    }
+
+    return {
+        ...result,
+        releaseCreated,
+        releaseId: releaseResult.id,
+        releaseUrl: releaseResult.htmlUrl,
+        changelogSource,
+        body: releaseBody,
+        changelogSections: getChangelogSectionOutputs(changelogEntry),
+        assets,
+        floatingTags,
+    };
+}
+
+/**
+ * Set one "changelog-<section>" output per changelog section
+ * @param sections - Rendered list items keyed by section slug
+ * @param prefix - Output name prefix (used for per-package outputs in monorepo mode)
+ */
+function setChangelogSectionOutputs(sections: Record<string, string> = {}, prefix = ''): void {
+    for (const [key, items] of Object.entries(sections)) {
+        core.setOutput(`${prefix}changelog-${key}`, items);
+    }
+}
+
+/**
+ * Label for the changelog source in reports (pure function)
+ */
+function describeChangelogSource(source: ChangelogSource | undefined): string {
+    switch (source) {
+        case 'changelog':
+            return 'Changelog entry';
+        case 'promoted':
+            return 'Promoted Unreleased section';
+        case 'commits':
+            return 'Generated from commits';
+        case 'default':
+            return 'Default message';
+        default:
+            return '—';
+    }
+}
+
+/**
+ * Describe what happened to a package, e.g. "✅ Released" (pure function)
+ * @param result - Package result
+ * @param dryRun - Whether nothing was really released
+ * @returns Status with an emoji
+ */
+export function describeReleaseStatus(result: PackageReleaseResult, dryRun: boolean): string {
+    if (result.error) {
+        return '❌ Failed';
+    }
+    if (result.releaseAction === 'update') {
+        return dryRun ? '🧪 Would update' : '✅ Updated';
+    }
+    if (result.releaseCreated) {
+        return dryRun ? '🧪 Would release' : '✅ Released';
+    }
+
+    return 'ℹ️ No release';
+}
+
+/**
+ * Write the Markdown job summary for the run
+ * @param results - Results of the packages that were processed
+ * @param dryRun - Whether this was a dry run
+ * @param error - Error message if the run failed
+ */
+export async function writeJobSummary(results: PackageReleaseResult[], dryRun: boolean, error?: string): Promise<void> {
+    const summary = core.summary.addHeading(dryRun ? '🧪 Auto Release (dry run)' : '🚀 Auto Release', 2);
+
+    if (error) {
+        summary.addRaw(`<p>❌ <strong>Failed:</strong> ${escapeHtml(error)}</p>`, true);
+    }
+
+    for (const result of results) {
+        if (result.name) {
+            summary.addHeading(escapeHtml(result.name), 3);
+        }
+
+        const release = result.releaseUrl
+            ? `<a href="${escapeHtml(result.releaseUrl)}">${escapeHtml(result.releaseUrl)}</a>`
+            : '—';
+        const rows = [
+            ['Status', describeReleaseStatus(result, dryRun)],
+            ['Current version', escapeHtml(result.version) || '—'],
+            ['Previous version', escapeHtml(result.previousVersion) || '—'],
+            ['Decision', escapeHtml(result.error ?? result.decision) || '—'],
+            ['Tag', result.tagName ? `<code>${escapeHtml(result.tagName)}</code>` : '—'],
+            [
+                'Floating tags',
+                result.floatingTags?.length
+                    ? result.floatingTags.map((tag) => `<code>${escapeHtml(tag)}</code>`).join(', ')
+                    : '—',
+            ],
+            ['Release', release],
+            ['Draft', result.draft ? 'yes' : 'no'],
+            ['Prerelease', result.prerelease ? 'yes' : 'no'],
+            ['Changelog source', describeChangelogSource(result.changelogSource)],
+        ];
+
+        summary.addTable([
+            [
+                { data: 'Field', header: true },
+                { data: 'Value', header: true },
+            ],
+            ...rows,
+        ]);
+
+        if (result.body) {
+            // Blank lines around the body let GitHub render it as Markdown inside the details element
+            summary.addDetails('Release body', `\n\n${result.body}\n\n`);
+        }
+    }
+
+    try {
+        await summary.write();
+    } catch (summaryError) {
+        // The summary is informative only and must never fail the release
+        summary.emptyBuffer();
+        core.warning(
+            `Failed to write job summary: ${summaryError instanceof Error ? summaryError.message : String(summaryError)}`,
+        );
+    }
+}
+
+/**
+ * Result of a package whose release failed, reported in the job summary (pure function)
+ * @param target - Package that failed
+ * @param message - Error message
+ */
+function createFailedResult(target: PackageTarget, message: string): PackageReleaseResult {
+    return {
+        name: target.name,
+        directory: target.directory,
+        version: '',
+        previousVersion: '',
+        tagName: '',
+        versionChanged: false,
+        bumpType: '',
+        releaseAction: '',
+        decision: '',
+        draft: false,
+        prerelease: false,
+        releaseCreated: false,
+        error: message,
+    };
+}
+
+/**
+ * Release every package in monorepo mode
+ * @param context - Shared services and repository information
+ * @param results - Array the result of every package is added to
+ * @throws Error if any package failed (after all packages were processed)
+ */
+export async function runMonorepo(context: ReleaseContext, results: PackageReleaseResult[]): Promise<void> {
+    const { config, fileService } = context;
+    core.info(`🗂️  Monorepo mode, tag scheme: ${config.tagScheme}`);
+
+    const targets = await resolvePackageTargets(fileService, {
+        packages: config.packages,
+        versionFileName: path.basename(config.versionFilePath),
+        versionSource: config.versionSource,
+        versionPattern: config.versionPattern,
+        changelogPath: config.changelogPath,
+        tagPrefix: config.tagPrefix,
+        tagScheme: config.tagScheme,
+    });
+    core.info(`📦 Found ${targets.length} package(s): ${targets.map((target) => target.name).join(', ')}`);
+
+    for (const target of targets) {
+        // Packages are released one after another so git operations never interleave
+        // oxlint-disable-next-line no-await-in-loop
+        const result = await core.group(
+            `📦 ${target.name} (${target.directory})`,
+            async (): Promise<PackageReleaseResult> => {
+                try {
+                    return await releasePackage(target, context);
+                } catch (error) {
+                    // Keep going so one broken package does not block the others
+                    const message = error instanceof Error ? error.message : 'An unknown error occurred';
+                    core.error(`${target.name}: ${message}`);
+                    return createFailedResult(target, message);
+                }
+            },
+        );
+        results.push(result);
+    }
+
+    const failed = results.filter((result) => result.error);
+    if (failed.length > 0) {
+        throw new Error(`Release failed for: ${failed.map((result) => result.name).join(', ')}`);
+    }
+}
+
+/**
+ * Set the per-package and aggregated outputs of monorepo mode
+ * @param results - Result of every package
+ */
+function setMonorepoOutputs(results: PackageReleaseResult[]): void {
+    for (const result of results) {
+        const id = toOutputId(result.name);
+        core.setOutput(`${id}-version`, result.version);
+        core.setOutput(`${id}-version-changed`, result.versionChanged.toString());
+        core.setOutput(`${id}-bump-type`, result.bumpType);
+        core.setOutput(`${id}-prerelease`, result.prerelease.toString());
+        core.setOutput(`${id}-release-created`, result.releaseCreated.toString());
+        core.setOutput(`${id}-tag-name`, result.tagName);
+        core.setOutput(`${id}-release-action`, result.releaseAction);
+        if (result.releaseAction && result.releaseAction !== 'none') {
+            // No release id or URL in dry-run mode
+            core.setOutput(`${id}-release-id`, result.releaseId !== undefined ? String(result.releaseId) : '');
+            core.setOutput(`${id}-release-url`, result.releaseUrl ?? '');
+            core.setOutput(`${id}-assets`, JSON.stringify(result.assets ?? []));
+            core.setOutput(`${id}-floating-tags`, (result.floatingTags ?? []).join(','));
+            setChangelogSectionOutputs(result.changelogSections, `${id}-`);
+        }
+    }
+
+    core.setOutput('releases', JSON.stringify(results));
+    core.setOutput('version-changed', results.some((result) => result.versionChanged).toString());
+    core.setOutput('release-created', results.some((result) => result.releaseCreated).toString());
+}
+
+/**
+ * Get the commit the branch pointed at before a push (pure function)
+ * @param context - GitHub Actions context
+ * @returns Commit SHA, or null for other events and for pushes that created the branch
+ */
+export function getPreviousSha(context: Pick<typeof github.context, 'eventName' | 'payload'>): string | null {
+    const before: unknown = context.payload?.before;
+    if (context.eventName !== 'push' || typeof before !== 'string' || /^0*$/.test(before)) {
+        return null;
+    }
+
+    return before;
+}
+
+/**
+ * Create the GitHub API client
+ * @param token - GitHub token; empty for releases on GitLab or Gitea that do not use the GitHub API
+ * @param options - Client options (e.g., the API URL)
+ * @returns Client; unauthenticated without a token, which getOctokit does not accept
+ */
+export function createGitHubClient(
+    token: string,
+    options?: Parameters<typeof github.getOctokit>[1],
+): ReturnType<typeof github.getOctokit> {
+    return token ? github.getOctokit(token, options) : new GitHub(options);
+}
+
+/**
+ * Create the release provider selected by the release-provider input
+ * @param config - Action configuration
+ * @param octokit - GitHub API client
+ * @param owner - Owner of the workflow's repository
+ * @param repo - Name of the workflow's repository
+ * @param serverUrl - GitHub server URL, for links to GitHub releases
+ * @returns Release provider
+ * @throws Error if the provider URL or repository is invalid, or the provider does not support the configuration
+ */
+export function createReleaseProvider(
+    config: ReleaseConfig,
+    octokit: ReturnType<typeof github.getOctokit>,
+    owner: string,
+    repo: string,
+    serverUrl: string,
+): IReleaseProvider {
+    if (config.releaseProvider === 'github') {
+        return new GitHubReleaseProvider({ octokit, owner, repo, serverUrl });
+    }
+
+    const baseUrl = config.providerUrl || (config.releaseProvider === 'gitlab' ? DEFAULT_GITLAB_URL : '');
+    if (!baseUrl) {
+        throw new Error(`provider-url is required for release-provider: ${config.releaseProvider}`);
+    }
+    if (!URL.canParse(baseUrl) || !/^https?:$/.test(new URL(baseUrl).protocol)) {
+        throw new Error(`Invalid provider-url: ${baseUrl}. Expected an http(s) URL`);
+    }
+
+    const repository = config.providerRepository || `${owner}/${repo}`;
+    // GitLab projects can be nested in subgroups
+    const repositoryPattern = config.releaseProvider === 'gitlab' ? /^[\w.-]+(\/[\w.-]+)+$/ : /^[\w.-]+\/[\w.-]+$/;
+    if (!repositoryPattern.test(repository)) {
+        throw new Error(`Invalid provider-repository: ${repository}. Expected "owner/repo"`);
+    }
+
+    const token = config.providerToken || config.githubToken;
+    if (!token) {
+        throw new Error(`provider-token is required for release-provider: ${config.releaseProvider}`);
+    }
+    if (config.releaseProvider === 'gitlab') {
+        if (config.createDraft) {
+            throw new Error('create-draft is not supported by release-provider: gitlab, which has no draft releases');
+        }
+        if (config.createPrerelease) {
+            throw new Error('create-prerelease is not supported by release-provider: gitlab, which has no prereleases');
+        }
+        if (config.autoPrerelease) {
+            core.warning(
+                'GitLab has no prereleases: create-prerelease: auto only sets the prerelease output and keeps floating tags from moving',
+            );
+        }
+        return new GitLabReleaseProvider({ baseUrl, token, project: repository });
+    }
+
+    const [providerOwner, providerRepo] = repository.split('/');
+    return new GiteaReleaseProvider({ baseUrl, token, owner: providerOwner, repo: providerRepo });
+}
+
+/**
+ * Import the signing key; the key is only imported when tags are really created
+ * @param config - Action configuration
+ * @returns Signer to clean up after the run, or null without a signing key or in dry-run mode
+ * @throws Error if tags are created through the GitHub API, which cannot sign them
+ */
+export async function setUpTagSigner(config: ReleaseConfig): Promise<TagSigner | null> {
+    if (config.signingKey && config.tagBackend === 'api') {
+        throw new Error('Signed tags require tag-backend: git; tags created through the GitHub API cannot be signed');
+    }
+    if (!config.signingKey) {
+        return null;
+    }
+    if (config.dryRun) {
+        core.info(`🧪 Dry run: tags would be signed with the ${config.signingFormat} key`);
+        return null;
+    }
+
+    const signer = new TagSigner({
+        format: config.signingFormat,
+        key: config.signingKey,
+        passphrase: config.signingKeyPassphrase,
+        email: config.gitUserEmail || DEFAULT_GIT_USER_EMAIL,
+    });
+    await signer.setUp();
+    return signer;
+}
+
+/**
+ * Create the release provider and the services of a run; the dry-run variants only log mutating operations
+ * @param config - Action configuration
+ * @param repository - Repository and commits of the run
+ * @param octokit - GitHub API client
+ * @param signer - Signer for the git tags, if any
+ * @returns Shared services and repository information
+ * @throws Error if the release provider cannot be created
+ */
+export function createReleaseContext(
+    config: ReleaseConfig,
+    repository: ReleaseRepository,
+    octokit: ReturnType<typeof github.getOctokit>,
+    signer: TagSigner | null,
+): ReleaseContext {
+    const releaseProvider = createReleaseProvider(
+        config,
+        octokit,
+        repository.owner,
+        repository.repo,
+        repository.serverUrl,
+    );
+    if (config.releaseProvider !== 'github') {
+        core.info(`🏠 Releases are created on ${releaseProvider.label}`);
+    }
+
+    const tagBackend: IGitService =
+        config.tagBackend === 'api'
+            ? new GitHubApiGitService({
+                  octokit,
+                  owner: repository.owner,
+                  repo: repository.repo,
+                  sha: repository.sha,
+                  ref: repository.ref,
+                  userName: config.gitUserName,
+                  userEmail: config.gitUserEmail,
+              })
+            : new GitService({
+                  userName: config.gitUserName,
+                  userEmail: config.gitUserEmail,
+                  signer,
+                  fetchTags: !config.dryRun,
+              });
+
+    return {
+        config,
+        gitService: config.dryRun ? new DryRunGitService(tagBackend) : tagBackend,
+        fileService: config.dryRun ? new DryRunFileService() : new FileService(),
+        octokit,
+        releaseProvider,
+        owner: repository.owner,
+        repo: repository.repo,
+        sha: repository.sha,
+        previousSha: repository.previousSha,
+    };
+}
+
+/**
+ * The package released outside of monorepo mode: the version file and changelog of the inputs (pure function)
+ * @param config - Action configuration
+ * @returns Package target
+ */
+export function createPackageTarget(config: ReleaseConfig): PackageTarget {
+    return {
+        name: '',
+        directory: '.',
+        versionFilePath: config.versionFilePath,
+        changelogPath: config.changelogPath,
+        tagPrefix: config.tagPrefix,
+    };
+}
+
+export async function run(): Promise<void> {
+    // Kept outside the try block so the job summary can report failures too
+    const results: PackageReleaseResult[] = [];
+    let dryRun = false;
+    let failure: string | undefined;
+    let signer: TagSigner | null = null;
+
+    try {
+        // Get inputs
+        const config = parseInputs();
+        dryRun = config.dryRun;
+        // Webhook URLs carry their own credentials
+        for (const notifier of config.notifiers) {
+            core.setSecret(notifier.url);
+        }
+        if (config.providerToken) {
+            core.setSecret(config.providerToken);
+        }
+
+        core.info('🚀 Starting Auto Release Action...');
+        core.info(`📦 Version file: ${config.versionFilePath} (source: ${config.versionSource})`);
+        core.info(`📝 Changelog path: ${config.changelogPath}`);
+        core.info(`🏷️  Tag prefix: ${config.tagPrefix}`);
+        if (config.tagBackend === 'api') {
+            core.info('🌐 Tags are read and created through the GitHub API');
+        }
+        if (config.dryRun) {
+            core.info('🧪 Dry run: no tags, commits or releases will be created');
+        }
+        core.setOutput('dry-run', config.dryRun.toString());
+
+        // Get GitHub context
+        const context = github.context;
+        signer = await setUpTagSigner(config);
+        const releaseContext = createReleaseContext(
+            config,
+            {
+                owner: context.repo.owner,
+                repo: context.repo.repo,
+                serverUrl: context.serverUrl,
+                sha: context.sha,
+                ref: context.ref,
+                previousSha: getPreviousSha(context),
+            },
+            createGitHubClient(config.githubToken),
+            signer,
+        );
+
+        if (config.packages.length > 0) {
+            try {
+                await runMonorepo(releaseContext, results);
+            } finally {
+                // Failed packages get outputs too
+                setMonorepoOutputs(results);
+            }
+            core.info('🎉 Action completed successfully!');
+            return;
+        }
+
+        const target = createPackageTarget(config);
+        let result: PackageReleaseResult;
+        try {
+            result = await releasePackage(target, releaseContext);
+        } catch (error) {
+            // The job summary still gets a table for the failed package
+            results.push(
+                createFailedResult(target, error instanceof Error ? error.message : 'An unknown error occurred'),
+            );
+            throw error;
+        }
+        results.push(result);
+
+        // Set version-changed output
+        core.setOutput('version-changed', result.versionChanged.toString());
+        core.setOutput('version', result.version);
+        core.setOutput('bump-type', result.bumpType);
+        core.setOutput('prerelease', result.prerelease.toString());
+        core.setOutput('release-action', result.releaseAction);
+
+        if (result.releaseAction === 'none') {
+            core.setOutput('release-created', 'false');
+            core.info('✅ Action completed (no release created)');
+            return;
+        }
+
+        // Set outputs; an updated release was not created by this run
+        core.setOutput('release-created', result.releaseCreated.toString());
+        // No release id or URL in dry-run mode
+        core.setOutput('release-id', result.releaseId !== undefined ? String(result.releaseId) : '');
+        core.setOutput('release-url', result.releaseUrl ?? '');
+        core.setOutput('tag-name', result.tagName);
+        core.setOutput('assets', JSON.stringify(result.assets ?? []));
+        core.setOutput('floating-tags', (result.floatingTags ?? []).join(','));
+        setChangelogSectionOutputs(result.changelogSections);
 
         core.info('🎉 Action completed successfully!');
     } catch (error) {
         // Handle errors
-        if (error instanceof Error) {
-            core.setFailed(error.message);
-        } else {
-            core.setFailed('An unknown error occurred');
-        }
+        failure = error instanceof Error ? error.message : 'An unknown error occurred';
+        core.setFailed(failure);
+    } finally {
+        await signer?.cleanUp();
+        await writeJobSummary(results, dryRun, failure);
     }
 }
-
-run();
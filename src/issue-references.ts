@@ -0,0 +1,154 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { parseListInput } from './utils';
+
+/**
+ * Issue or pull request referenced as "#123" or "owner/repo#123"
+ */
+export interface IssueReference {
+    owner: string;
+    repo: string;
+    number: number;
+}
+
+/**
+ * Parameters for labeling and commenting on referenced issues
+ */
+export interface UpdateReferencedIssuesParams {
+    octokit: ReturnType<typeof github.getOctokit>;
+    references: IssueReference[];
+    /** Label added to each issue; empty to only comment */
+    label: string;
+    /** Comment posted on each issue (e.g., "Released in [v1.4.0](https://...)") */
+    comment: string;
+}
+
+// "#123" or "owner/repo#123", but not HTML entities ("&#123;"), URL fragments ("page#123") or "#123abc"
+const ISSUE_REFERENCE_REGEX = /(?<![\w&#/.-])(?:([\w.-]+)\/([\w.-]+))?#(\d+)(?!\w)/g;
+const REPOSITORY_REGEX = /^[\w.-]+\/[\w.-]+$/;
+
+/**
+ * Parse the repositories whose references may be updated besides the current one (pure function)
+ * @param value - One "owner/repo" per line or comma-separated
+ * @returns Repositories as lowercase "owner/repo"
+ * @throws Error if an entry is not "owner/repo"
+ */
+export function parseIssueRepositories(value: string): string[] {
+    const repositories = parseListInput(value.replace(/,/g, '\n'));
+
+    for (const repository of repositories) {
+        if (!REPOSITORY_REGEX.test(repository)) {
+            throw new Error(`Invalid issue-repositories entry: ${repository}. Expected "owner/repo"`);
+        }
+    }
+
+    return repositories.map((repository) => repository.toLowerCase());
+}
+
+/**
+ * Find the issue and pull request references in a text (pure function)
+ * @param text - Changelog entry or commit messages
+ * @param owner - Owner of the current repository
+ * @param repo - Name of the current repository
+ * @param allowedRepositories - Other repositories as lowercase "owner/repo" whose references are kept
+ * @returns References in order of appearance, each once; references to other repositories are left out
+ */
+export function findIssueReferences(
+    text: string,
+    owner: string,
+    repo: string,
+    allowedRepositories: string[],
+): IssueReference[] {
+    const references = new Map<string, IssueReference>();
+
+    for (const match of text.matchAll(ISSUE_REFERENCE_REGEX)) {
+        const reference = { owner: match[1] ?? owner, repo: match[2] ?? repo, number: Number(match[3]) };
+        const repository = `${reference.owner}/${reference.repo}`.toLowerCase();
+        const current = repository === `${owner}/${repo}`.toLowerCase();
+
+        if (reference.number > 0 && (current || allowedRepositories.includes(repository))) {
+            references.set(`${repository}#${reference.number}`, current ? { ...reference, owner, repo } : reference);
+        }
+    }
+
+    return [...references.values()];
+}
+
+/**
+ * Format a reference for logs (pure function)
+ */
+export function formatIssueReference(reference: IssueReference): string {
+    return `${reference.owner}/${reference.repo}#${reference.number}`;
+}
+
+/**
+ * Label and comment on every referenced issue or pull request
+ *
+ * A reference that cannot be updated (e.g., a deleted issue or a repository the token cannot write to)
+ * only produces a warning, so the release is never failed by it.
+ * @param params - References, label and comment
+ * @returns References that were updated
+ */
+export async function updateReferencedIssues(params: UpdateReferencedIssuesParams): Promise<IssueReference[]> {
+    const { octokit } = params;
+
+    const update = async (reference: IssueReference): Promise<boolean> => {
+        const issue = { owner: reference.owner, repo: reference.repo, issue_number: reference.number };
+
+        try {
+            if (params.label) {
+                await octokit.rest.issues.addLabels({ ...issue, labels: [params.label] });
+            }
+            await octokit.rest.issues.createComment({ ...issue, body: params.comment });
+            return true;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            core.warning(`Could not update ${formatIssueReference(reference)}: ${message}`);
+            return false;
+        }
+    };
+
+    const outcomes = await Promise.all(params.references.map(update));
+    return params.references.filter((_reference, index) => outcomes[index]);
+}
+
+/**
+ * Close the open milestone named after the release
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param titles - Accepted milestone titles (e.g., ["v1.4.0", "1.4.0"])
+ * @returns Title of the closed milestone, or null if no open milestone matched or it could not be closed
+ */
+export async function closeMilestone(
+    octokit: ReturnType<typeof github.getOctokit>,
+    owner: string,
+    repo: string,
+    titles: string[],
+): Promise<string | null> {
+    try {
+        const milestones = await octokit.paginate(octokit.rest.issues.listMilestones, {
+            owner,
+            repo,
+            state: 'open',
+            per_page: 100,
+        });
+        const milestone = milestones.find((candidate) => titles.includes(candidate.title.trim()));
+        if (!milestone) {
+            core.info(`ℹ️  No open milestone named ${titles.join(' or ')}`);
+            return null;
+        }
+
+        await octokit.rest.issues.updateMilestone({
+            owner,
+            repo,
+            milestone_number: milestone.number,
+            state: 'closed',
+        });
+        return milestone.title;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Could not close the milestone ${titles.join(' or ')}: ${message}`);
+        return null;
+    }
+}
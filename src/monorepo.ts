@@ -0,0 +1,144 @@
+import * as path from 'path';
+import { resolveVersionSource } from './parsers/version-source';
+import { FileService } from './services/file.service';
+
+export const DEFAULT_TAG_SCHEME = '{{name}}@{{version}}';
+
+const TAG_SCHEME_PLACEHOLDERS = new Set(['name', 'dir', 'prefix', 'version']);
+
+/**
+ * A single package to release in monorepo mode
+ */
+export interface PackageTarget {
+    /** Package name from the version file, or the directory name */
+    name: string;
+    /** Package directory relative to the repository root */
+    directory: string;
+    versionFilePath: string;
+    changelogPath: string;
+    /** Tag prefix rendered from the tag scheme (everything before the version) */
+    tagPrefix: string;
+}
+
+/**
+ * Values available to the tag scheme
+ */
+export interface TagSchemeValues {
+    name: string;
+    dir: string;
+    prefix: string;
+}
+
+/**
+ * Validate a tag scheme (pure function)
+ * @param scheme - Tag scheme (e.g., "{{name}}@{{version}}" or "{{dir}}-v{{version}}")
+ * @throws Error if the scheme uses unknown placeholders or does not end with {{version}}
+ */
+export function validateTagScheme(scheme: string): void {
+    const placeholders = [...scheme.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map((match) => match[1]);
+    const unknown = placeholders.filter((placeholder) => !TAG_SCHEME_PLACEHOLDERS.has(placeholder));
+
+    if (unknown.length > 0) {
+        throw new Error(`Unknown placeholder(s) in tag scheme "${scheme}": ${unknown.join(', ')}`);
+    }
+
+    // Tags are listed by prefix, so the version has to come last
+    if (!/\{\{\s*version\s*\}\}$/.test(scheme)) {
+        throw new Error(`Tag scheme "${scheme}" must end with {{version}}`);
+    }
+}
+
+/**
+ * Render the tag prefix for a package from a tag scheme (pure function)
+ * @param scheme - Validated tag scheme
+ * @param values - Package values to substitute
+ * @returns Tag prefix (e.g., "@scope/pkg@")
+ */
+export function renderTagPrefix(scheme: string, values: TagSchemeValues): string {
+    return scheme
+        .replace(/\{\{\s*version\s*\}\}$/, '')
+        .replace(/\{\{\s*(name|dir|prefix)\s*\}\}/g, (_match, key: keyof TagSchemeValues) => values[key]);
+}
+
+/**
+ * Convert a package name into a string usable in output names (pure function)
+ * @param name - Package name (e.g., "@scope/pkg")
+ * @returns Output id (e.g., "scope-pkg")
+ */
+export function toOutputId(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9_]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Pick the changelog for a package: its own file if present, the root changelog otherwise
+ * @param fileService - File service instance
+ * @param directory - Package directory
+ * @param rootChangelogPath - Repository-level changelog path
+ * @returns Changelog path to use for the package
+ */
+export function resolvePackageChangelogPath(
+    fileService: FileService,
+    directory: string,
+    rootChangelogPath: string,
+): string {
+    const packageChangelogPath = path.join(directory, path.basename(rootChangelogPath));
+    return fileService.fileExists(packageChangelogPath) ? packageChangelogPath : rootChangelogPath;
+}
+
+/**
+ * Options for resolving monorepo packages
+ */
+export interface ResolvePackageTargetsOptions {
+    packages: string[];
+    versionFileName: string;
+    versionSource: string;
+    versionPattern: string;
+    changelogPath: string;
+    tagPrefix: string;
+    tagScheme: string;
+}
+
+/**
+ * Expand package directory patterns into release targets
+ * @param fileService - File service instance
+ * @param options - Package patterns and per-package defaults
+ * @returns One target per matched directory that contains the version file
+ * @throws Error if the tag scheme is invalid or no package matches
+ */
+export async function resolvePackageTargets(
+    fileService: FileService,
+    options: ResolvePackageTargetsOptions,
+): Promise<PackageTarget[]> {
+    validateTagScheme(options.tagScheme);
+
+    const directories = await fileService.findDirectories(options.packages);
+    const targets: PackageTarget[] = [];
+
+    for (const directory of directories) {
+        const versionFilePath = path.join(directory, options.versionFileName);
+        if (!fileService.fileExists(versionFilePath)) {
+            continue;
+        }
+
+        const source = resolveVersionSource(versionFilePath, options.versionSource, options.versionPattern);
+        const dir = path.basename(path.resolve(directory));
+        const name = (source.parseName && source.parseName(fileService.readFile(versionFilePath))) || dir;
+
+        targets.push({
+            name,
+            directory,
+            versionFilePath,
+            changelogPath: resolvePackageChangelogPath(fileService, directory, options.changelogPath),
+            tagPrefix: renderTagPrefix(options.tagScheme, { name, dir, prefix: options.tagPrefix }),
+        });
+    }
+
+    if (targets.length === 0) {
+        throw new Error(`No packages with ${options.versionFileName} found for: ${options.packages.join(', ')}`);
+    }
+
+    return targets;
+}
@@ -0,0 +1,363 @@
+import * as core from '@actions/core';
+
+/**
+ * Service notified about new releases: Slack, Discord and Microsoft Teams incoming webhooks,
+ * or any endpoint that accepts the generic JSON payload
+ */
+export type NotifierKind = 'slack' | 'discord' | 'teams' | 'webhook';
+
+export const NOTIFIER_KINDS: NotifierKind[] = ['slack', 'discord', 'teams', 'webhook'];
+
+/**
+ * Webhook a notification is posted to
+ */
+export interface Notifier {
+    kind: NotifierKind;
+    /** Incoming webhook URL; contains its credentials, so it is masked in the logs */
+    url: string;
+}
+
+/**
+ * What the notifications say about a release
+ */
+export interface ReleaseNotification {
+    /** Repository as "owner/repo" */
+    repo: string;
+    /** Package name in monorepo mode; empty otherwise */
+    name: string;
+    version: string;
+    tagName: string;
+    /** Rendered release name */
+    releaseName: string;
+    releaseUrl: string;
+    prerelease: boolean;
+    /** Release notes from the changelog, generated from commits or the default message */
+    changelog: string;
+}
+
+/**
+ * Payload of the generic webhook (version 1)
+ */
+export interface WebhookPayload {
+    event: 'release';
+    version: 1;
+    repository: string;
+    /** Package name in monorepo mode; empty otherwise */
+    package: string;
+    release: {
+        name: string;
+        tag: string;
+        version: string;
+        url: string;
+        prerelease: boolean;
+        changelog: string;
+        /** Whether the changelog was cut to fit the payload */
+        changelogTruncated: boolean;
+    };
+}
+
+/**
+ * Options for sending notifications
+ */
+export interface SendNotificationsOptions {
+    /** Additional attempts after a failed one; only network errors, HTTP 429 and 5xx responses are retried */
+    retries: number;
+    /** Delay before the first retry; doubled for every further retry */
+    retryDelayMs: number;
+}
+
+/**
+ * Outcome of one notification
+ */
+export interface NotificationResult {
+    kind: NotifierKind;
+    delivered: boolean;
+    attempts: number;
+    error?: string;
+}
+
+export const DEFAULT_NOTIFICATION_RETRIES = 2;
+export const NOTIFICATION_RETRY_DELAY_MS = 1000;
+
+const NOTIFIER_LABELS: Record<NotifierKind, string> = {
+    slack: 'Slack',
+    discord: 'Discord',
+    teams: 'Microsoft Teams',
+    webhook: 'Webhook',
+};
+
+// Limits of the message formats (Slack section text, Discord embed description), with room for the ellipsis
+const SLACK_TEXT_LIMIT = 2900;
+const DISCORD_DESCRIPTION_LIMIT = 4000;
+const TEAMS_TEXT_LIMIT = 10000;
+const WEBHOOK_CHANGELOG_LIMIT = 10000;
+
+const NOTIFICATION_TIMEOUT_MS = 10000;
+
+/**
+ * Parse the notification retries input (pure function)
+ * @param value - Non-negative integer; empty string for the default
+ * @returns Number of retries after a failed attempt
+ * @throws Error if the value is not a non-negative integer
+ */
+export function parseNotificationRetries(value: string): number {
+    if (value === '') {
+        return DEFAULT_NOTIFICATION_RETRIES;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid notification-retries: ${value}. Expected a non-negative integer`);
+    }
+
+    return Number(value);
+}
+
+/**
+ * Shorten text to a maximum length, preferably at a line break (pure function)
+ * @param text - Text to shorten
+ * @param maxLength - Maximum length including the ellipsis
+ * @returns Text unchanged if it fits, otherwise cut and followed by "…"
+ */
+export function trimText(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+        return text;
+    }
+
+    const cut = text.slice(0, maxLength - 1);
+    const lineBreak = cut.lastIndexOf('\n');
+    // Cutting at a line break keeps list items whole, unless that throws away most of the text
+    return `${lineBreak > maxLength / 2 ? cut.slice(0, lineBreak) : cut}…`;
+}
+
+/**
+ * Convert Markdown to Slack mrkdwn: headings and bold text, links and bullets (pure function)
+ * @param markdown - Markdown text (e.g., a changelog entry)
+ * @returns Text in Slack's mrkdwn format
+ */
+export function toSlackMrkdwn(markdown: string): string {
+    return markdown
+        .split('\n')
+        .map((line) =>
+            line
+                .replace(/^#{1,6}\s+(.+?)\s*$/, '*$1*')
+                .replace(/^(\s*)[-*+]\s+/, '$1• ')
+                .replace(/\*\*(.+?)\*\*/g, '*$1*')
+                .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>'),
+        )
+        .join('\n');
+}
+
+/**
+ * Title of a release notification (pure function)
+ */
+function describeRelease(notification: ReleaseNotification): string {
+    const subject = notification.name || notification.repo;
+    return `${subject} ${notification.version}${notification.prerelease ? ' (prerelease)' : ''} released`;
+}
+
+/**
+ * Build the Slack incoming webhook payload with blocks (pure function)
+ * @param notification - Release to announce
+ * @returns Payload with a plain-text fallback, a header, the changelog and a link to the release
+ */
+export function buildSlackPayload(notification: ReleaseNotification): Record<string, unknown> {
+    const title = describeRelease(notification);
+
+    return {
+        text: `${title}: ${notification.releaseUrl}`,
+        blocks: [
+            { type: 'header', text: { type: 'plain_text', text: title } },
+            {
+                type: 'section',
+                text: { type: 'mrkdwn', text: trimText(toSlackMrkdwn(notification.changelog), SLACK_TEXT_LIMIT) },
+            },
+            {
+                type: 'context',
+                elements: [
+                    {
+                        type: 'mrkdwn',
+                        text: `<${notification.releaseUrl}|${notification.releaseName}> in ${notification.repo}`,
+                    },
+                ],
+            },
+        ],
+    };
+}
+
+/**
+ * Build the Discord webhook payload with an embed (pure function)
+ * @param notification - Release to announce
+ * @returns Payload with one embed linking to the release
+ */
+export function buildDiscordPayload(notification: ReleaseNotification): Record<string, unknown> {
+    return {
+        embeds: [
+            {
+                title: describeRelease(notification),
+                url: notification.releaseUrl,
+                description: trimText(notification.changelog, DISCORD_DESCRIPTION_LIMIT),
+                // Orange for prereleases, green for stable releases
+                color: notification.prerelease ? 0xf0ad4e : 0x2ea043,
+                footer: { text: `${notification.repo} · ${notification.tagName}` },
+            },
+        ],
+    };
+}
+
+/**
+ * Build the Microsoft Teams webhook payload with an Adaptive Card (pure function)
+ * @param notification - Release to announce
+ * @returns Message with one Adaptive Card and a button to open the release
+ */
+export function buildTeamsPayload(notification: ReleaseNotification): Record<string, unknown> {
+    return {
+        type: 'message',
+        attachments: [
+            {
+                contentType: 'application/vnd.microsoft.card.adaptive',
+                content: {
+                    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                    type: 'AdaptiveCard',
+                    version: '1.4',
+                    body: [
+                        {
+                            type: 'TextBlock',
+                            text: describeRelease(notification),
+                            weight: 'Bolder',
+                            size: 'Medium',
+                            wrap: true,
+                        },
+                        { type: 'TextBlock', text: trimText(notification.changelog, TEAMS_TEXT_LIMIT), wrap: true },
+                    ],
+                    actions: [{ type: 'Action.OpenUrl', title: 'View release', url: notification.releaseUrl }],
+                },
+            },
+        ],
+    };
+}
+
+/**
+ * Build the payload of the generic webhook (pure function)
+ * @param notification - Release to announce
+ * @returns Versioned JSON payload documented in the README
+ */
+export function buildWebhookPayload(notification: ReleaseNotification): WebhookPayload {
+    const changelog = trimText(notification.changelog, WEBHOOK_CHANGELOG_LIMIT);
+
+    return {
+        event: 'release',
+        version: 1,
+        repository: notification.repo,
+        package: notification.name,
+        release: {
+            name: notification.releaseName,
+            tag: notification.tagName,
+            version: notification.version,
+            url: notification.releaseUrl,
+            prerelease: notification.prerelease,
+            changelog,
+            changelogTruncated: changelog !== notification.changelog,
+        },
+    };
+}
+
+const PAYLOAD_BUILDERS: Record<NotifierKind, (notification: ReleaseNotification) => unknown> = {
+    slack: buildSlackPayload,
+    discord: buildDiscordPayload,
+    teams: buildTeamsPayload,
+    webhook: buildWebhookPayload,
+};
+
+/**
+ * POST a JSON payload to a webhook
+ * @throws Error with the HTTP status if the response is not successful, or the network error
+ */
+async function postJson(url: string, payload: unknown): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(NOTIFICATION_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        const details = (await response.text().catch(() => '')).trim().slice(0, 200);
+        throw Object.assign(new Error(`HTTP ${response.status}${details ? `: ${details}` : ''}`), {
+            status: response.status,
+        });
+    }
+}
+
+/**
+ * Whether a failed request may succeed when it is sent again (pure function)
+ */
+function isRetryable(error: unknown): boolean {
+    const status = (error as { status?: number }).status;
+    return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Post the release to every notifier
+ *
+ * Notifiers are posted in parallel and retried on their own; a notifier that keeps failing only produces a warning,
+ * so a notification never fails the release.
+ * @param notifiers - Webhooks to notify
+ * @param notification - Release to announce
+ * @param options - Retry options
+ * @returns One result per notifier, in the given order
+ */
+export async function sendNotifications(
+    notifiers: Notifier[],
+    notification: ReleaseNotification,
+    options: SendNotificationsOptions,
+): Promise<NotificationResult[]> {
+    return Promise.all(notifiers.map((notifier) => sendNotification(notifier, notification, options)));
+}
+
+/**
+ * Post the release to one notifier, retrying with exponential backoff
+ * @param notifier - Webhook to notify
+ * @param notification - Release to announce
+ * @param options - Retry options
+ * @returns Delivery result
+ */
+async function sendNotification(
+    notifier: Notifier,
+    notification: ReleaseNotification,
+    options: SendNotificationsOptions,
+): Promise<NotificationResult> {
+    const label = NOTIFIER_LABELS[notifier.kind];
+    const payload = PAYLOAD_BUILDERS[notifier.kind](notification);
+    const result: NotificationResult = { kind: notifier.kind, delivered: false, attempts: 0 };
+    let lastError = '';
+
+    while (!result.delivered) {
+        result.attempts++;
+        try {
+            // Each attempt is only sent after the previous one failed
+            // oxlint-disable-next-line no-await-in-loop
+            await postJson(notifier.url, payload);
+            result.delivered = true;
+        } catch (error) {
+            lastError = error instanceof Error ? error.message : String(error);
+            if (result.attempts > options.retries || !isRetryable(error)) {
+                break;
+            }
+
+            const delay = options.retryDelayMs * 2 ** (result.attempts - 1);
+            core.info(`🔁 ${label} notification failed (${lastError}), retrying in ${delay} ms`);
+            // oxlint-disable-next-line no-await-in-loop
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+
+    if (result.delivered) {
+        core.info(`📣 ${label} notified`);
+    } else {
+        result.error = lastError;
+        core.warning(
+            `${label} notification failed after ${result.attempts} attempt(s): ${lastError}. The release is not affected`,
+        );
+    }
+
+    return result;
+}
@@ -0,0 +1,22 @@
+import { getTomlString } from './toml.parser';
+
+/**
+ * Parse Cargo.toml content to extract version (pure function)
+ *
+ * Reads the `[package]` table first and falls back to `[workspace.package]`
+ * for workspace roots that share a single version.
+ * @param content - The Cargo.toml file content as string
+ * @returns The version string, or empty string if not found
+ */
+export function parseCargoToml(content: string): string {
+    return getTomlString(content, 'package', 'version') || getTomlString(content, 'workspace.package', 'version');
+}
+
+/**
+ * Parse Cargo.toml content to extract the crate name (pure function)
+ * @param content - The Cargo.toml file content as string
+ * @returns The crate name, or empty string if not found
+ */
+export function parseCargoName(content: string): string {
+    return getTomlString(content, 'package', 'name');
+}
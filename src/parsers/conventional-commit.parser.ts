@@ -0,0 +1,58 @@
+/**
+ * A commit message parsed as a Conventional Commit (https://www.conventionalcommits.org)
+ */
+export interface ConventionalCommit {
+    /** Lowercase commit type (e.g., "feat", "fix") */
+    type: string;
+    scope: string;
+    description: string;
+    breaking: boolean;
+    /** Text of the "BREAKING CHANGE:" footer, or empty string if there is none */
+    breakingNote: string;
+}
+
+const HEADER_REGEX = /^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/;
+const BREAKING_FOOTER_REGEX = /^BREAKING[ -]CHANGE:\s*(.*)$/;
+
+/**
+ * Read the "BREAKING CHANGE:" footer, including its continuation lines (pure function)
+ */
+function parseBreakingNote(bodyLines: string[]): string {
+    const start = bodyLines.findIndex((line) => BREAKING_FOOTER_REGEX.test(line));
+    if (start === -1) {
+        return '';
+    }
+
+    const noteLines = [BREAKING_FOOTER_REGEX.exec(bodyLines[start])?.[1] ?? ''];
+    for (const line of bodyLines.slice(start + 1)) {
+        if (line.trim().length === 0) {
+            break;
+        }
+        noteLines.push(line.trim());
+    }
+
+    return noteLines.join(' ').trim();
+}
+
+/**
+ * Parse a commit message as a Conventional Commit (pure function)
+ * @param message - Full commit message (subject and body)
+ * @returns Parsed commit, or null if the subject does not follow the "type(scope)!: description" format
+ */
+export function parseConventionalCommit(message: string): ConventionalCommit | null {
+    const [subject, ...bodyLines] = message.replace(/\r/g, '').split('\n');
+    const match = HEADER_REGEX.exec(subject.trim());
+    if (!match) {
+        return null;
+    }
+
+    const breakingNote = parseBreakingNote(bodyLines);
+
+    return {
+        type: match[1].toLowerCase(),
+        scope: match[2]?.trim() ?? '',
+        description: match[4].trim(),
+        breaking: Boolean(match[3]) || breakingNote.length > 0,
+        breakingNote,
+    };
+}
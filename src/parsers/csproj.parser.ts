@@ -0,0 +1,34 @@
+/**
+ * Read the text of the first matching MSBuild property (pure function)
+ * @param content - The project file content
+ * @param property - Property element name (e.g., "Version")
+ * @returns The property value, or empty string if not found
+ */
+function getMsBuildProperty(content: string, property: string): string {
+    const match = new RegExp(`<${property}(\\s[^>]*)?>\\s*([^<]*?)\\s*</${property}>`).exec(content);
+    return match ? match[2] : '';
+}
+
+/**
+ * Parse a .csproj (or other MSBuild project) file to extract version (pure function)
+ *
+ * Reads `<Version>` first and falls back to `<VersionPrefix>` combined with an optional `<VersionSuffix>`.
+ * @param content - The project file content as string
+ * @returns The version string, or empty string if not found
+ */
+export function parseCsproj(content: string): string {
+    const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+
+    const version = getMsBuildProperty(withoutComments, 'Version');
+    if (version) {
+        return version;
+    }
+
+    const prefix = getMsBuildProperty(withoutComments, 'VersionPrefix');
+    if (!prefix) {
+        return '';
+    }
+
+    const suffix = getMsBuildProperty(withoutComments, 'VersionSuffix');
+    return suffix ? `${prefix}-${suffix}` : prefix;
+}
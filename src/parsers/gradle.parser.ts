@@ -0,0 +1,17 @@
+/**
+ * Parse Gradle build script or properties content to extract version (pure function)
+ *
+ * Supports `version = '1.2.3'` / `version = "1.2.3"` in build.gradle and build.gradle.kts,
+ * and `version=1.2.3` in gradle.properties.
+ * @param content - The build.gradle, build.gradle.kts or gradle.properties content as string
+ * @returns The version string, or empty string if not found
+ */
+export function parseGradle(content: string): string {
+    const quotedMatch = /^\s*(?:project\.)?version\s*=?\s*(["'])([^"']+)\1/m.exec(content);
+    if (quotedMatch) {
+        return quotedMatch[2];
+    }
+
+    const propertiesMatch = /^\s*version\s*[=:]\s*([^\s"'#]+)\s*$/m.exec(content);
+    return propertiesMatch ? propertiesMatch[1] : '';
+}
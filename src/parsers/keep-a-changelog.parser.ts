@@ -0,0 +1,264 @@
+import { replaceTabs, trimEmptyEdges } from '../utils';
+
+/**
+ * Change types defined by Keep a Changelog (https://keepachangelog.com)
+ */
+export const STANDARD_CHANGE_TYPES = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'];
+
+/**
+ * A "### Heading" section inside a version entry
+ */
+export interface ChangelogSection {
+    /** Heading text (e.g., "Added" or a custom heading like "Performance") */
+    title: string;
+    /** Whether the heading is one of the standard Keep a Changelog change types */
+    standard: boolean;
+    /** Text before the first list item */
+    notes: string;
+    /** List items without the bullet marker; continuation lines and nested lists are kept */
+    items: string[];
+}
+
+/**
+ * A "## [version]" entry of a changelog
+ */
+export interface ChangelogEntry {
+    /** Version without brackets (or "Unreleased") */
+    version: string;
+    date?: string;
+    yanked: boolean;
+    /** Target of the matching link reference definition (e.g., "[1.0.0]: https://...") */
+    link?: string;
+    /** 1-based line number of the entry header */
+    line: number;
+    /** Text between the entry header and the first section */
+    description: string;
+    sections: ChangelogSection[];
+}
+
+/**
+ * Options for rendering a changelog entry
+ */
+export interface RenderChangelogOptions {
+    /** Section titles to render first, in this order; other sections follow in file order */
+    sectionOrder?: string[];
+}
+
+const ENTRY_HEADER_REGEX = /^##\s+\[?([^\]\s]+)\]?(?:\s+[-–—]\s+(\S+))?(\s+\[YANKED\])?\s*$/i;
+const SECTION_HEADER_REGEX = /^###\s+(.+?)\s*$/;
+const LINK_REFERENCE_REGEX = /^\[([^\]]+)\]:\s*(\S+)\s*$/;
+const LIST_ITEM_REGEX = /^[-*+]\s+(.*)$/;
+// "[label]", "[text][label]" or "[text][]", but not inline links "[text](url)" or definitions "[label]: url"
+const REFERENCE_LINK_REGEX = /\[([^[\]]+)\](?:\[([^[\]]*)\])?(?![(:])/g;
+
+/**
+ * Split section body lines into notes and list items (pure function)
+ */
+function parseSectionBody(lines: string[]): Pick<ChangelogSection, 'notes' | 'items'> {
+    const notes: string[] = [];
+    const items: string[][] = [];
+
+    for (const line of lines) {
+        const itemMatch = LIST_ITEM_REGEX.exec(line);
+        if (itemMatch) {
+            items.push([itemMatch[1]]);
+        } else if (items.length > 0) {
+            items[items.length - 1].push(line);
+        } else {
+            notes.push(line);
+        }
+    }
+
+    return {
+        notes: trimEmptyEdges(notes).join('\n'),
+        items: items.map((item) => trimEmptyEdges(item).join('\n')),
+    };
+}
+
+/**
+ * Parse a Keep a Changelog file into typed entries (pure function)
+ * @param content - The full changelog file content
+ * @returns Entries in file order; headers that are not "## " version headers are ignored
+ */
+export function parseChangelogEntries(content: string): ChangelogEntry[] {
+    const lines = content.split('\n').map((line) => replaceTabs(line.replace(/\r$/, ''), 4));
+    const links = new Map<string, string>();
+    const entries: ChangelogEntry[] = [];
+
+    let entry: ChangelogEntry | null = null;
+    let sectionTitle: string | null = null;
+    let bodyLines: string[] = [];
+
+    const flush = () => {
+        if (!entry) {
+            return;
+        }
+        if (sectionTitle === null) {
+            entry.description = trimEmptyEdges(bodyLines).join('\n');
+        } else {
+            entry.sections.push({
+                title: sectionTitle,
+                standard: STANDARD_CHANGE_TYPES.includes(sectionTitle),
+                ...parseSectionBody(bodyLines),
+            });
+        }
+        bodyLines = [];
+    };
+
+    lines.forEach((line, index) => {
+        const linkMatch = LINK_REFERENCE_REGEX.exec(line);
+        if (linkMatch) {
+            links.set(linkMatch[1].toLowerCase(), linkMatch[2]);
+            return;
+        }
+
+        if (line.startsWith('## ')) {
+            flush();
+            const headerMatch = ENTRY_HEADER_REGEX.exec(line);
+            entry = headerMatch
+                ? {
+                      version: headerMatch[1],
+                      date: headerMatch[2],
+                      yanked: Boolean(headerMatch[3]),
+                      line: index + 1,
+                      description: '',
+                      sections: [],
+                  }
+                : null;
+            if (entry) {
+                entries.push(entry);
+            }
+            sectionTitle = null;
+            return;
+        }
+
+        const sectionMatch = SECTION_HEADER_REGEX.exec(line);
+        if (entry && sectionMatch) {
+            flush();
+            sectionTitle = sectionMatch[1];
+            return;
+        }
+
+        bodyLines.push(line);
+    });
+    flush();
+
+    for (const parsed of entries) {
+        parsed.link = links.get(parsed.version.toLowerCase());
+    }
+
+    return entries;
+}
+
+/**
+ * Collect the link reference definitions of a changelog (pure function)
+ * @param content - Changelog content
+ * @returns Link targets keyed by lowercase label (e.g., "1.0.0" → "https://...")
+ */
+export function parseLinkReferences(content: string): Map<string, string> {
+    const links = new Map<string, string>();
+
+    for (const line of content.split('\n')) {
+        const linkMatch = LINK_REFERENCE_REGEX.exec(line.replace(/\r$/, ''));
+        if (linkMatch) {
+            links.set(linkMatch[1].toLowerCase(), linkMatch[2]);
+        }
+    }
+
+    return links;
+}
+
+/**
+ * Append the definitions of the reference links a text uses, so they still resolve outside the changelog
+ * (pure function)
+ * @param text - Markdown text extracted from the changelog (e.g., a release body)
+ * @param links - Link reference definitions of the whole changelog
+ * @returns Text followed by the definitions it uses and does not define itself
+ */
+export function appendLinkReferences(text: string, links: Map<string, string>): string {
+    const defined = parseLinkReferences(text);
+    const used = new Set<string>();
+
+    for (const match of text.matchAll(REFERENCE_LINK_REGEX)) {
+        const label = (match[2] || match[1]).toLowerCase();
+        if (links.has(label) && !defined.has(label)) {
+            used.add(label);
+        }
+    }
+
+    if (used.size === 0) {
+        return text;
+    }
+
+    const definitions = [...used].map((label) => `[${label}]: ${links.get(label)}`);
+    return `${text}\n\n${definitions.join('\n')}`;
+}
+
+/**
+ * Find the entry for a version (pure function)
+ * @param entries - Parsed changelog entries
+ * @param version - Version to look up (e.g., "1.0.0" or "v1.0.0")
+ * @returns The matching entry, or null if not found
+ */
+export function findChangelogEntry(entries: ChangelogEntry[], version: string): ChangelogEntry | null {
+    const versionClean = version.replace(/^v/, '');
+    return entries.find((entry) => entry.version.replace(/^v/, '') === versionClean) ?? null;
+}
+
+/**
+ * Render the list items of a section as Markdown (pure function)
+ * @param section - Changelog section
+ * @returns Markdown list, one "- " item per entry
+ */
+export function renderChangelogItems(section: ChangelogSection): string {
+    return section.items.map((item) => `- ${item}`).join('\n');
+}
+
+/**
+ * Render an entry back to Markdown without its version header (pure function)
+ *
+ * Sections without notes or items are dropped.
+ * @param entry - Changelog entry
+ * @param options - Rendering options
+ * @returns Markdown body suitable for a release
+ */
+export function renderChangelogEntry(entry: ChangelogEntry, options: RenderChangelogOptions = {}): string {
+    const order = (options.sectionOrder ?? []).map((title) => title.toLowerCase());
+    const nonEmpty = entry.sections.filter((section) => section.notes.length > 0 || section.items.length > 0);
+
+    // Listed sections first, in the configured order; the rest keep their file order
+    const sections = [
+        ...order.flatMap((title) => nonEmpty.filter((section) => section.title.toLowerCase() === title)),
+        ...nonEmpty.filter((section) => !order.includes(section.title.toLowerCase())),
+    ];
+
+    const blocks: string[] = [];
+    if (entry.description) {
+        blocks.push(entry.description);
+    }
+
+    for (const section of sections) {
+        const parts = [`### ${section.title}`];
+        if (section.notes) {
+            parts.push(section.notes);
+        }
+        if (section.items.length > 0) {
+            parts.push(renderChangelogItems(section));
+        }
+        blocks.push(parts.join('\n\n'));
+    }
+
+    return blocks.join('\n\n');
+}
+
+/**
+ * Convert a section title into a string usable in output names (pure function)
+ * @param title - Section title (e.g., "Breaking Changes")
+ * @returns Lowercase slug (e.g., "breaking-changes")
+ */
+export function toSectionKey(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
@@ -9,6 +9,17 @@ export function parsePackageJson(content: string): string {
     return packageJson.version || '';
 }
 
+/**
+ * Parse package.json content to extract the package name (pure function)
+ * @param content - The package.json file content as string
+ * @returns The package name (e.g., "@scope/pkg"), or empty string if not found
+ * @throws Error if JSON is invalid
+ */
+export function parsePackageJsonName(content: string): string {
+    const packageJson = JSON.parse(content);
+    return packageJson.name || '';
+}
+
 /**
  * Extract version from tag name by removing prefix (pure function)
  * @param tag - Tag name (e.g., "v1.2.3")
@@ -0,0 +1,31 @@
+/**
+ * Elements whose nested <version> tags do not describe the project itself
+ */
+const NESTED_VERSION_ELEMENTS = [
+    'parent',
+    'dependencies',
+    'dependencyManagement',
+    'build',
+    'plugins',
+    'pluginManagement',
+    'profiles',
+    'reporting',
+    'extensions',
+];
+
+/**
+ * Parse pom.xml content to extract the project version (pure function)
+ * @param content - The pom.xml file content as string
+ * @returns The version string, or empty string if not found
+ */
+export function parsePomXml(content: string): string {
+    let projectContent = content.replace(/<!--[\s\S]*?-->/g, '');
+
+    for (const element of NESTED_VERSION_ELEMENTS) {
+        const blockRegex = new RegExp(`<${element}(\\s[^>]*)?>[\\s\\S]*?</${element}>`, 'g');
+        projectContent = projectContent.replace(blockRegex, '');
+    }
+
+    const match = /<version>\s*([^<]+?)\s*<\/version>/.exec(projectContent);
+    return match ? match[1] : '';
+}
@@ -0,0 +1,21 @@
+import { getTomlString } from './toml.parser';
+
+/**
+ * Parse pyproject.toml content to extract version (pure function)
+ *
+ * Reads the PEP 621 `[project]` table first and falls back to Poetry's `[tool.poetry]` table.
+ * @param content - The pyproject.toml file content as string
+ * @returns The version string, or empty string if not found
+ */
+export function parsePyprojectToml(content: string): string {
+    return getTomlString(content, 'project', 'version') || getTomlString(content, 'tool.poetry', 'version');
+}
+
+/**
+ * Parse pyproject.toml content to extract the project name (pure function)
+ * @param content - The pyproject.toml file content as string
+ * @returns The project name, or empty string if not found
+ */
+export function parsePyprojectName(content: string): string {
+    return getTomlString(content, 'project', 'name') || getTomlString(content, 'tool.poetry', 'name');
+}
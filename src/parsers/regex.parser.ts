@@ -0,0 +1,26 @@
+/**
+ * Extract a version from arbitrary content using a user-supplied regular expression (pure function)
+ *
+ * The pattern is evaluated in multiline mode. The version is taken from the named group
+ * `version` if present, otherwise from the first capture group, otherwise from the whole match.
+ * @param content - The file content as string
+ * @param pattern - Regular expression source (e.g., `__version__ = "(.+)"`)
+ * @returns The version string, or empty string if the pattern does not match
+ * @throws Error if the pattern is not a valid regular expression
+ */
+export function parseVersionWithPattern(content: string, pattern: string): string {
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern, 'm');
+    } catch (error: unknown) {
+        throw new Error(`Invalid version pattern: ${pattern}`, { cause: error });
+    }
+
+    const match = regex.exec(content);
+    if (!match) {
+        return '';
+    }
+
+    const version = match.groups?.version ?? match[1] ?? match[0];
+    return version.trim();
+}
@@ -0,0 +1,40 @@
+/**
+ * Read a string value from a TOML table (pure function)
+ *
+ * This is intentionally not a full TOML parser: it understands `[table]` headers,
+ * `key = "value"` / `key = 'value'` assignments and inline comments, which is all
+ * that is needed to read version fields from manifests like pyproject.toml or Cargo.toml.
+ * @param content - The TOML file content
+ * @param table - Dotted table name (e.g., "tool.poetry"), or empty string for the root table
+ * @param key - Key to read within the table
+ * @returns The string value, or empty string if not found
+ */
+export function getTomlString(content: string, table: string, key: string): string {
+    const lines = content.split('\n');
+    const keyEscaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const assignmentRegex = new RegExp(`^\\s*["']?${keyEscaped}["']?\\s*=\\s*(["'])(.*?)\\1\\s*(#.*)?$`);
+
+    let currentTable = '';
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+
+        // Table headers: [table] or [[array.of.tables]]
+        const headerMatch = /^\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/.exec(trimmed);
+        if (headerMatch) {
+            currentTable = headerMatch[1].replace(/\s*\.\s*/g, '.').replace(/["']/g, '');
+            continue;
+        }
+
+        if (currentTable !== table) {
+            continue;
+        }
+
+        const valueMatch = assignmentRegex.exec(line);
+        if (valueMatch) {
+            return valueMatch[2];
+        }
+    }
+
+    return '';
+}
@@ -0,0 +1,9 @@
+/**
+ * Parse a plain VERSION file to extract version (pure function)
+ * @param content - The VERSION file content as string
+ * @returns The first non-blank line, trimmed, or empty string if the file is empty
+ */
+export function parseVersionFile(content: string): string {
+    const firstLine = content.split('\n').find((line) => line.trim().length > 0);
+    return firstLine ? firstLine.trim() : '';
+}
@@ -0,0 +1,131 @@
+import * as path from 'path';
+import { parsePackageJson, parsePackageJsonName } from './package-json.parser';
+import { parsePyprojectToml, parsePyprojectName } from './pyproject.parser';
+import { parseCargoToml, parseCargoName } from './cargo-toml.parser';
+import { parsePomXml } from './pom-xml.parser';
+import { parseGradle } from './gradle.parser';
+import { parseCsproj } from './csproj.parser';
+import { parseVersionFile } from './version-file.parser';
+import { parseVersionWithPattern } from './regex.parser';
+
+/**
+ * Supported kinds of version source files
+ */
+export type VersionSourceType =
+    | 'package-json'
+    | 'pyproject'
+    | 'cargo'
+    | 'maven'
+    | 'gradle'
+    | 'csproj'
+    | 'version-file'
+    | 'regex';
+
+export const VERSION_SOURCE_TYPES: VersionSourceType[] = [
+    'package-json',
+    'pyproject',
+    'cargo',
+    'maven',
+    'gradle',
+    'csproj',
+    'version-file',
+    'regex',
+];
+
+/**
+ * A parser that knows how to read a version from one kind of file
+ */
+export interface VersionSource {
+    type: VersionSourceType;
+    /** Human-readable file name used in log and error messages */
+    label: string;
+    parse(content: string): string;
+    /** Reads the package name, for formats that declare one */
+    parseName?(content: string): string;
+}
+
+/**
+ * Detect the version source type from a file path (pure function)
+ * @param filePath - Path to the version file
+ * @returns The detected type, or null if the file name is not recognized
+ */
+export function detectVersionSourceType(filePath: string): VersionSourceType | null {
+    const fileName = path.basename(filePath);
+    const lowerName = fileName.toLowerCase();
+
+    if (lowerName === 'package.json') return 'package-json';
+    if (lowerName === 'pyproject.toml') return 'pyproject';
+    if (lowerName === 'cargo.toml') return 'cargo';
+    if (lowerName === 'pom.xml') return 'maven';
+    if (lowerName.endsWith('.gradle') || lowerName.endsWith('.gradle.kts') || lowerName === 'gradle.properties') {
+        return 'gradle';
+    }
+    if (/\.(cs|fs|vb)proj$/.test(lowerName) || lowerName.endsWith('.props')) return 'csproj';
+    if (lowerName === 'version' || lowerName === 'version.txt') return 'version-file';
+
+    return null;
+}
+
+/**
+ * Resolve which version source to use for a file
+ * @param filePath - Path to the version file
+ * @param sourceType - Explicit source type, or "auto" to detect it from the file name
+ * @param pattern - Regular expression for the "regex" source (optional)
+ * @returns Version source able to parse the file
+ * @throws Error if the type is unknown, cannot be detected, or "regex" is used without a pattern
+ */
+export function resolveVersionSource(filePath: string, sourceType: string, pattern = ''): VersionSource {
+    let type: VersionSourceType | null;
+
+    if (!sourceType || sourceType === 'auto') {
+        // An explicit pattern always wins over file name detection
+        type = pattern ? 'regex' : detectVersionSourceType(filePath);
+        if (!type) {
+            throw new Error(
+                `Could not detect version source for ${filePath}. Set version-source to one of: ${VERSION_SOURCE_TYPES.join(', ')}`,
+            );
+        }
+    } else if ((VERSION_SOURCE_TYPES as string[]).includes(sourceType)) {
+        type = sourceType as VersionSourceType;
+    } else {
+        throw new Error(
+            `Unknown version source: ${sourceType}. Expected one of: auto, ${VERSION_SOURCE_TYPES.join(', ')}`,
+        );
+    }
+
+    return createVersionSource(type, filePath, pattern);
+}
+
+/**
+ * Create a version source for a given type
+ * @param type - Version source type
+ * @param filePath - Path to the version file (used for the label)
+ * @param pattern - Regular expression for the "regex" source
+ * @returns Version source instance
+ * @throws Error if "regex" is requested without a pattern
+ */
+function createVersionSource(type: VersionSourceType, filePath: string, pattern: string): VersionSource {
+    const label = path.basename(filePath);
+
+    switch (type) {
+        case 'package-json':
+            return { type, label, parse: parsePackageJson, parseName: parsePackageJsonName };
+        case 'pyproject':
+            return { type, label, parse: parsePyprojectToml, parseName: parsePyprojectName };
+        case 'cargo':
+            return { type, label, parse: parseCargoToml, parseName: parseCargoName };
+        case 'maven':
+            return { type, label, parse: parsePomXml };
+        case 'gradle':
+            return { type, label, parse: parseGradle };
+        case 'csproj':
+            return { type, label, parse: parseCsproj };
+        case 'version-file':
+            return { type, label, parse: parseVersionFile };
+        case 'regex':
+            if (!pattern) {
+                throw new Error('version-pattern is required when version-source is "regex"');
+            }
+            return { type, label, parse: (content: string) => parseVersionWithPattern(content, pattern) };
+    }
+}
@@ -0,0 +1,201 @@
+import { UploadedAsset } from '../assets';
+import { buildCompareUrl } from '../templates';
+import { fetchJson, isNotFound } from './http-client';
+import {
+    CreateReleaseResult,
+    IReleaseProvider,
+    NewRelease,
+    ReleaseAssetUpload,
+    ReleaseUpdate,
+} from './release-provider';
+
+/**
+ * Repository the Gitea release provider works on
+ */
+export interface GiteaReleaseProviderOptions {
+    /** Instance URL (e.g., "https://gitea.example.com" or "https://codeberg.org") */
+    baseUrl: string;
+    /** Access token with the repository write scope */
+    token: string;
+    owner: string;
+    repo: string;
+}
+
+/**
+ * Release returned by the Gitea API (only the fields in use)
+ */
+interface GiteaRelease {
+    id: number;
+    tag_name: string;
+    html_url: string;
+}
+
+/**
+ * Attachment returned by the Gitea API (only the fields in use)
+ */
+interface GiteaAttachment {
+    id: number;
+    name: string;
+    browser_download_url: string;
+}
+
+/**
+ * Map a Gitea release to the release information used by the action (pure function)
+ */
+function toResult(release: GiteaRelease): CreateReleaseResult {
+    return { id: release.id, htmlUrl: release.html_url, uploadUrl: '' };
+}
+
+/**
+ * Release provider for Gitea and Forgejo (including Codeberg), through the REST API (v1)
+ */
+export class GiteaReleaseProvider implements IReleaseProvider {
+    readonly label = 'Gitea';
+    readonly repository: string;
+    private readonly baseUrl: string;
+    private readonly repositoryUrl: string;
+
+    constructor(private readonly options: GiteaReleaseProviderOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.repository = `${options.owner}/${options.repo}`;
+        this.repositoryUrl = `${this.baseUrl}/api/v1/repos/${encodeURIComponent(options.owner)}/${encodeURIComponent(options.repo)}`;
+    }
+
+    /**
+     * URL comparing two tags in the web interface
+     * @param previousTag - Previous tag, or null for the first release
+     * @param tag - New tag
+     * @returns Compare URL, or empty string without a previous tag
+     */
+    getCompareUrl(previousTag: string | null, tag: string): string {
+        return buildCompareUrl(this.baseUrl, this.repository, previousTag, tag);
+    }
+
+    /**
+     * Find the release of a tag, including draft releases
+     * @param tagName - Tag name
+     * @returns Release information, or null if the tag has no release
+     * @throws Error if an API call fails for another reason than a missing release
+     */
+    async findRelease(tagName: string): Promise<CreateReleaseResult | null> {
+        try {
+            return toResult(await this.request<GiteaRelease>('GET', `/releases/tags/${encodeURIComponent(tagName)}`));
+        } catch (error) {
+            if (!isNotFound(error)) {
+                throw error;
+            }
+        }
+
+        // Draft releases are not found by tag, so look through the most recent releases
+        const releases = await this.request<GiteaRelease[]>('GET', '/releases?limit=50');
+        const draft = releases.find((release) => release.tag_name === tagName);
+
+        return draft ? toResult(draft) : null;
+    }
+
+    /**
+     * Create a release from a tag the repository already has
+     * @param release - Release to create
+     * @returns Release information
+     * @throws Error if the repository does not have the tag, or an API call fails
+     */
+    async createRelease(release: NewRelease): Promise<CreateReleaseResult> {
+        // Gitea would create a missing tag on the default branch instead of the released commit
+        try {
+            await this.request('GET', `/tags/${encodeURIComponent(release.tagName)}`);
+        } catch (error) {
+            if (isNotFound(error)) {
+                throw new Error(
+                    `Tag ${release.tagName} not found in Gitea repository ${this.repository}. Push the tag to the repository before releasing`,
+                    { cause: error },
+                );
+            }
+            throw error;
+        }
+
+        const created = await this.request<GiteaRelease>('POST', '/releases', {
+            tag_name: release.tagName,
+            name: release.name || release.tagName,
+            body: release.body,
+            draft: release.draft,
+            prerelease: release.prerelease,
+        });
+
+        return toResult(created);
+    }
+
+    /**
+     * Update the title, body and prerelease flag of an existing release
+     * @param release - Release to update
+     * @param update - New title, body and prerelease flag
+     * @returns Release information
+     * @throws Error if the API call fails
+     */
+    async updateRelease(release: CreateReleaseResult, update: ReleaseUpdate): Promise<CreateReleaseResult> {
+        const updated = await this.request<GiteaRelease>('PATCH', `/releases/${release.id}`, {
+            name: update.name || undefined,
+            body: update.body,
+            prerelease: update.prerelease,
+        });
+
+        return toResult(updated);
+    }
+
+    /**
+     * Delete a release and its attachments; the tag is kept
+     * @param release - Release to delete
+     * @throws Error if the API call fails
+     */
+    async deleteRelease(release: CreateReleaseResult): Promise<void> {
+        await this.request('DELETE', `/releases/${release.id}`);
+    }
+
+    /**
+     * Delete a tag from the repository
+     * @param tagName - Tag name
+     * @returns Whether the repository had the tag
+     * @throws Error if the API call fails for another reason than a missing tag
+     */
+    async deleteTag(tagName: string): Promise<boolean> {
+        try {
+            await this.request('DELETE', `/tags/${encodeURIComponent(tagName)}`);
+            return true;
+        } catch (error) {
+            if (isNotFound(error)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Upload a file as a release attachment; Gitea has no labels, so the label is not used
+     * @param release - Release the asset belongs to
+     * @param asset - File to upload
+     * @returns Attachment with its download URL
+     * @throws Error if the API call fails
+     */
+    async uploadAsset(release: CreateReleaseResult, asset: ReleaseAssetUpload): Promise<UploadedAsset> {
+        const form = new FormData();
+        form.append('attachment', new Blob([new Uint8Array(asset.data)], { type: asset.contentType }), asset.name);
+
+        // The multipart boundary is set by fetch, so no content type is given here
+        const attachment = await fetchJson<GiteaAttachment>(
+            `${this.repositoryUrl}/releases/${release.id}/assets?name=${encodeURIComponent(asset.name)}`,
+            { method: 'POST', headers: { Authorization: `token ${this.options.token}` }, body: form },
+        );
+
+        return { id: attachment.id, name: attachment.name, url: attachment.browser_download_url };
+    }
+
+    /**
+     * Call the repository API with a JSON body
+     */
+    private request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        return fetchJson<T>(`${this.repositoryUrl}${path}`, {
+            method,
+            headers: { Authorization: `token ${this.options.token}`, 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+    }
+}
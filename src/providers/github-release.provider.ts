@@ -0,0 +1,248 @@
+import * as github from '@actions/github';
+import { UploadedAsset } from '../assets';
+import { buildCompareUrl } from '../templates';
+import {
+    CreateReleaseResult,
+    IReleaseProvider,
+    NewRelease,
+    ReleaseAssetUpload,
+    ReleaseUpdate,
+} from './release-provider';
+
+/**
+ * Parameters for creating a GitHub release
+ */
+export interface CreateReleaseParams {
+    octokit: ReturnType<typeof github.getOctokit>;
+    owner: string;
+    repo: string;
+    tagName: string;
+    /** Release title; the tag name if empty */
+    name?: string;
+    body: string;
+    draft: boolean;
+    prerelease: boolean;
+}
+
+/**
+ * Create a GitHub release
+ * @param params - Release parameters
+ * @returns Release result with id and URL
+ */
+export async function createGitHubRelease(params: CreateReleaseParams): Promise<CreateReleaseResult> {
+    const release = await params.octokit.rest.repos.createRelease({
+        owner: params.owner,
+        repo: params.repo,
+        tag_name: params.tagName,
+        name: params.name || params.tagName,
+        body: params.body,
+        draft: params.draft,
+        prerelease: params.prerelease,
+    });
+
+    return {
+        id: release.data.id,
+        htmlUrl: release.data.html_url,
+        uploadUrl: release.data.upload_url,
+    };
+}
+
+/**
+ * Parameters for looking up a release
+ */
+export interface FindReleaseParams {
+    octokit: ReturnType<typeof github.getOctokit>;
+    owner: string;
+    repo: string;
+    tagName: string;
+}
+
+/**
+ * Find the GitHub release of a tag, including draft releases
+ * @param params - Lookup parameters
+ * @returns Release information, or null if the tag has no release
+ * @throws Error if GitHub API call fails for another reason than a missing release
+ */
+export async function findReleaseByTag(params: FindReleaseParams): Promise<CreateReleaseResult | null> {
+    try {
+        const release = await params.octokit.rest.repos.getReleaseByTag({
+            owner: params.owner,
+            repo: params.repo,
+            tag: params.tagName,
+        });
+
+        return {
+            id: release.data.id,
+            htmlUrl: release.data.html_url,
+            uploadUrl: release.data.upload_url,
+        };
+    } catch (error) {
+        if ((error as { status?: number }).status !== 404) {
+            throw error;
+        }
+    }
+
+    // Draft releases are not found by tag, so look through the most recent releases
+    const releases = await params.octokit.rest.repos.listReleases({
+        owner: params.owner,
+        repo: params.repo,
+        per_page: 100,
+    });
+    const draft = releases.data.find((release) => release.tag_name === params.tagName);
+
+    return draft ? { id: draft.id, htmlUrl: draft.html_url, uploadUrl: draft.upload_url } : null;
+}
+
+/**
+ * Parameters for updating a release
+ */
+export interface UpdateReleaseParams {
+    octokit: ReturnType<typeof github.getOctokit>;
+    owner: string;
+    repo: string;
+    releaseId: number;
+    /** Release title; left unchanged if empty */
+    name?: string;
+    body: string;
+    prerelease: boolean;
+}
+
+/**
+ * Update the title, body and prerelease flag of an existing release
+ * @param params - Update parameters
+ * @returns Release information
+ * @throws Error if GitHub API call fails
+ */
+export async function updateGitHubRelease(params: UpdateReleaseParams): Promise<CreateReleaseResult> {
+    const release = await params.octokit.rest.repos.updateRelease({
+        owner: params.owner,
+        repo: params.repo,
+        release_id: params.releaseId,
+        name: params.name || undefined,
+        body: params.body,
+        prerelease: params.prerelease,
+    });
+
+    return {
+        id: release.data.id,
+        htmlUrl: release.data.html_url,
+        uploadUrl: release.data.upload_url,
+    };
+}
+
+/**
+ * Parameters for uploading a release asset
+ */
+export interface UploadReleaseAssetParams {
+    octokit: ReturnType<typeof github.getOctokit>;
+    /** Upload URL template returned when the release was created */
+    uploadUrl: string;
+    name: string;
+    label: string;
+    contentType: string;
+    data: Buffer;
+}
+
+/**
+ * Asset returned by the upload endpoint
+ */
+type ReleaseAssetData = Awaited<
+    ReturnType<ReturnType<typeof github.getOctokit>['rest']['repos']['uploadReleaseAsset']>
+>['data'];
+
+/**
+ * Upload a single asset to a release
+ * @param params - Upload parameters
+ * @returns Uploaded asset with its download URL
+ * @throws Error if GitHub API call fails
+ */
+export async function uploadReleaseAsset(params: UploadReleaseAssetParams): Promise<UploadedAsset> {
+    // The typed repos.uploadReleaseAsset only accepts string data, so the raw buffer goes through the request directly
+    const asset = await params.octokit.request<ReleaseAssetData>({
+        method: 'POST',
+        // The upload URL of the release also points at the right host on GitHub Enterprise and test servers
+        url: params.uploadUrl,
+        name: params.name,
+        label: params.label || undefined,
+        data: params.data,
+        headers: {
+            'content-type': params.contentType,
+            'content-length': params.data.length,
+        },
+    });
+
+    return {
+        id: asset.data.id,
+        name: asset.data.name,
+        url: asset.data.browser_download_url,
+    };
+}
+
+/**
+ * Repository the GitHub release provider works on
+ */
+export interface GitHubReleaseProviderOptions {
+    octokit: ReturnType<typeof github.getOctokit>;
+    owner: string;
+    repo: string;
+    /** Server URL for web links (e.g., "https://github.com") */
+    serverUrl: string;
+}
+
+/**
+ * Release provider for GitHub and GitHub Enterprise Server, through Octokit
+ *
+ * Tags are pushed before the release is created, so the target commit of new releases is not used.
+ */
+export class GitHubReleaseProvider implements IReleaseProvider {
+    readonly label = 'GitHub';
+    readonly repository: string;
+
+    constructor(private readonly options: GitHubReleaseProviderOptions) {
+        this.repository = `${options.owner}/${options.repo}`;
+    }
+
+    getCompareUrl(previousTag: string | null, tag: string): string {
+        return buildCompareUrl(this.options.serverUrl, this.repository, previousTag, tag);
+    }
+
+    findRelease(tagName: string): Promise<CreateReleaseResult | null> {
+        return findReleaseByTag({ ...this.options, tagName });
+    }
+
+    createRelease(release: NewRelease): Promise<CreateReleaseResult> {
+        return createGitHubRelease({
+            ...this.options,
+            tagName: release.tagName,
+            name: release.name,
+            body: release.body,
+            draft: release.draft,
+            prerelease: release.prerelease,
+        });
+    }
+
+    updateRelease(release: CreateReleaseResult, update: ReleaseUpdate): Promise<CreateReleaseResult> {
+        return updateGitHubRelease({ ...this.options, releaseId: Number(release.id), ...update });
+    }
+
+    async deleteRelease(release: CreateReleaseResult): Promise<void> {
+        await this.options.octokit.rest.repos.deleteRelease({
+            owner: this.options.owner,
+            repo: this.options.repo,
+            release_id: Number(release.id),
+        });
+    }
+
+    // The tag lives in the repository the tag backend pushes to, which deletes it there
+    async deleteTag(): Promise<boolean> {
+        return false;
+    }
+
+    uploadAsset(release: CreateReleaseResult, asset: ReleaseAssetUpload): Promise<UploadedAsset> {
+        return uploadReleaseAsset({
+            ...this.options,
+            uploadUrl: release.uploadUrl,
+            ...asset,
+        });
+    }
+}
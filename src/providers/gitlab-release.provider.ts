@@ -0,0 +1,257 @@
+import { UploadedAsset } from '../assets';
+import { buildCompareUrl } from '../templates';
+import { fetchJson, isNotFound } from './http-client';
+import {
+    CreateReleaseResult,
+    IReleaseProvider,
+    NewRelease,
+    ReleaseAssetUpload,
+    ReleaseUpdate,
+} from './release-provider';
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+// Generic package the release assets are stored in, with one package version per tag
+const ASSET_PACKAGE_NAME = 'release-assets';
+
+/**
+ * Project the GitLab release provider works on
+ */
+export interface GitLabReleaseProviderOptions {
+    /** Instance URL (e.g., "https://gitlab.example.com") */
+    baseUrl: string;
+    /** Personal, project or group access token with the api scope */
+    token: string;
+    /** Project path (e.g., "group/project") */
+    project: string;
+}
+
+/**
+ * Release returned by the GitLab API (only the fields in use)
+ */
+interface GitLabRelease {
+    tag_name: string;
+    _links: { self: string };
+}
+
+/**
+ * Release link returned by the GitLab API (only the fields in use)
+ */
+interface GitLabReleaseLink {
+    id: number;
+    url: string;
+    direct_asset_url?: string;
+}
+
+/**
+ * Package returned by the GitLab API (only the fields in use)
+ */
+interface GitLabPackage {
+    id: number;
+    name: string;
+    version: string;
+}
+
+/**
+ * Turn a tag into a generic package version, which only allows letters, digits, ".", "_", "+" and "-" (pure function)
+ * @param tagName - Tag name (e.g., "pkg-a@1.2.0")
+ * @returns Package version (e.g., "pkg-a-1.2.0")
+ */
+export function toGitLabPackageVersion(tagName: string): string {
+    return tagName.replace(/[^\w.+-]/g, '-');
+}
+
+/**
+ * Path of a release in the project API (pure function)
+ */
+function releasePath(tagName: string): string {
+    return `/releases/${encodeURIComponent(tagName)}`;
+}
+
+/**
+ * Path of a tag in the project API (pure function)
+ */
+function tagPath(tagName: string): string {
+    return `/repository/tags/${encodeURIComponent(tagName)}`;
+}
+
+/**
+ * Map a GitLab release to the release information used by the action (pure function)
+ */
+function toResult(release: GitLabRelease): CreateReleaseResult {
+    return { id: release.tag_name, htmlUrl: release._links.self, uploadUrl: '' };
+}
+
+/**
+ * Release provider for GitLab.com and self-managed GitLab, through the REST API (v4)
+ *
+ * GitLab identifies releases by their tag and has no draft or prerelease flag. Assets are uploaded to the
+ * project's generic package registry and attached to the release as links.
+ */
+export class GitLabReleaseProvider implements IReleaseProvider {
+    readonly label = 'GitLab';
+    readonly repository: string;
+    private readonly baseUrl: string;
+    private readonly projectUrl: string;
+
+    constructor(private readonly options: GitLabReleaseProviderOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.repository = options.project;
+        this.projectUrl = `${this.baseUrl}/api/v4/projects/${encodeURIComponent(options.project)}`;
+    }
+
+    /**
+     * URL comparing two tags in the web interface
+     * @param previousTag - Previous tag, or null for the first release
+     * @param tag - New tag
+     * @returns Compare URL, or empty string without a previous tag
+     */
+    getCompareUrl(previousTag: string | null, tag: string): string {
+        // Project pages live below "/-/" on GitLab
+        return buildCompareUrl(this.baseUrl, `${this.repository}/-`, previousTag, tag);
+    }
+
+    /**
+     * Find the release of a tag
+     * @param tagName - Tag name
+     * @returns Release information, or null if the tag has no release
+     * @throws Error if the API call fails for another reason than a missing release
+     */
+    async findRelease(tagName: string): Promise<CreateReleaseResult | null> {
+        try {
+            return toResult(await this.request<GitLabRelease>('GET', releasePath(tagName)));
+        } catch (error) {
+            if (isNotFound(error)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Create a release from a tag the project already has
+     * @param release - Release to create; the draft and prerelease flags are not supported by GitLab
+     * @returns Release information
+     * @throws Error if the project does not have the tag, or an API call fails
+     */
+    async createRelease(release: NewRelease): Promise<CreateReleaseResult> {
+        // Only the pushed tag points at the released commit, so GitLab must not create one of its own
+        try {
+            await this.request('GET', tagPath(release.tagName));
+        } catch (error) {
+            if (isNotFound(error)) {
+                throw new Error(
+                    `Tag ${release.tagName} not found in GitLab project ${this.repository}. Push the tag to the project before releasing`,
+                    { cause: error },
+                );
+            }
+            throw error;
+        }
+
+        const created = await this.request<GitLabRelease>('POST', '/releases', {
+            tag_name: release.tagName,
+            name: release.name || release.tagName,
+            description: release.body,
+        });
+
+        return toResult(created);
+    }
+
+    /**
+     * Update the title and description of an existing release
+     * @param release - Release to update
+     * @param update - New title and body; the prerelease flag is not supported by GitLab
+     * @returns Release information
+     * @throws Error if the API call fails
+     */
+    async updateRelease(release: CreateReleaseResult, update: ReleaseUpdate): Promise<CreateReleaseResult> {
+        const updated = await this.request<GitLabRelease>('PUT', releasePath(String(release.id)), {
+            name: update.name || undefined,
+            description: update.body,
+        });
+
+        return toResult(updated);
+    }
+
+    /**
+     * Delete a release and the package version holding its assets; the tag is kept
+     * @param release - Release to delete
+     * @throws Error if an API call fails
+     */
+    async deleteRelease(release: CreateReleaseResult): Promise<void> {
+        const tagName = String(release.id);
+        await this.request('DELETE', releasePath(tagName));
+
+        // Uploaded assets live in the package registry and outlive the release otherwise
+        const version = toGitLabPackageVersion(tagName);
+        const query = new URLSearchParams({
+            package_type: 'generic',
+            package_name: ASSET_PACKAGE_NAME,
+            package_version: version,
+        });
+        const packages = await this.request<GitLabPackage[]>('GET', `/packages?${query}`);
+        // The package name filter also matches partial names
+        await Promise.all(
+            packages
+                .filter((assetPackage) => assetPackage.name === ASSET_PACKAGE_NAME && assetPackage.version === version)
+                .map((assetPackage) => this.request('DELETE', `/packages/${assetPackage.id}`)),
+        );
+    }
+
+    /**
+     * Delete a tag from the project
+     * @param tagName - Tag name
+     * @returns Whether the project had the tag
+     * @throws Error if the API call fails for another reason than a missing tag
+     */
+    async deleteTag(tagName: string): Promise<boolean> {
+        try {
+            await this.request('DELETE', tagPath(tagName));
+            return true;
+        } catch (error) {
+            if (isNotFound(error)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Upload a file to the generic package registry and link it from the release
+     * @param release - Release the asset belongs to
+     * @param asset - File to upload
+     * @returns Release link with the download URL of the file
+     * @throws Error if an API call fails
+     */
+    async uploadAsset(release: CreateReleaseResult, asset: ReleaseAssetUpload): Promise<UploadedAsset> {
+        const tagName = String(release.id);
+        const packagePath = `/packages/generic/${ASSET_PACKAGE_NAME}/${toGitLabPackageVersion(tagName)}/${encodeURIComponent(asset.name)}`;
+
+        await this.request('PUT', packagePath, asset.data, asset.contentType);
+        const link = await this.request<GitLabReleaseLink>('POST', `${releasePath(tagName)}/assets/links`, {
+            name: asset.label || asset.name,
+            url: `${this.projectUrl}${packagePath}`,
+            direct_asset_path: `/${asset.name}`,
+            link_type: 'package',
+        });
+
+        return { id: link.id, name: asset.name, url: link.direct_asset_url ?? link.url };
+    }
+
+    /**
+     * Call the project API
+     * @param body - JSON body, or file content sent with the given content type
+     */
+    private request<T>(method: string, path: string, body?: unknown, contentType = 'application/json'): Promise<T> {
+        const headers = { 'PRIVATE-TOKEN': this.options.token, 'Content-Type': contentType };
+        if (body instanceof Buffer) {
+            return fetchJson<T>(`${this.projectUrl}${path}`, { method, headers, body: new Uint8Array(body) });
+        }
+
+        return fetchJson<T>(`${this.projectUrl}${path}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+    }
+}
@@ -0,0 +1,34 @@
+// Long enough for large asset uploads
+const REQUEST_TIMEOUT_MS = 300000;
+
+/**
+ * Send a request to a forge API and parse the JSON response
+ * @param url - Endpoint URL
+ * @param init - Method, headers and body
+ * @returns Parsed response body; undefined for empty responses (e.g., HTTP 204)
+ * @throws Error with the HTTP status if the response is not successful, or the network error
+ */
+export async function fetchJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+        const details = (await response.text().catch(() => '')).trim().slice(0, 200);
+        const method = init.method ?? 'GET';
+        throw Object.assign(
+            new Error(
+                `${method} ${new URL(url).pathname} failed with HTTP ${response.status}${details ? `: ${details}` : ''}`,
+            ),
+            { status: response.status },
+        );
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * Whether a request failed because the resource does not exist (pure function)
+ */
+export function isNotFound(error: unknown): boolean {
+    return (error as { status?: number }).status === 404;
+}
@@ -0,0 +1,89 @@
+import { UploadedAsset } from '../assets';
+
+/**
+ * Forge the releases are published to
+ */
+export type ReleaseProviderKind = 'github' | 'gitlab' | 'gitea';
+
+export const RELEASE_PROVIDER_KINDS: ReleaseProviderKind[] = ['github', 'gitlab', 'gitea'];
+
+/**
+ * A release on the forge
+ */
+export interface CreateReleaseResult {
+    /** Numeric id on GitHub and Gitea; the tag name on GitLab, which identifies releases by tag */
+    id: number | string;
+    htmlUrl: string;
+    /** URL template for asset uploads on GitHub (e.g., "https://uploads.github.com/.../assets{?name,label}"); empty elsewhere */
+    uploadUrl: string;
+}
+
+/**
+ * Release to create
+ */
+export interface NewRelease {
+    tagName: string;
+    /** Release title; the tag name if empty */
+    name?: string;
+    body: string;
+    draft: boolean;
+    prerelease: boolean;
+}
+
+/**
+ * New title, body and prerelease flag of an existing release
+ */
+export interface ReleaseUpdate {
+    /** Release title; left unchanged if empty */
+    name?: string;
+    body: string;
+    prerelease: boolean;
+}
+
+/**
+ * File attached to a release
+ */
+export interface ReleaseAssetUpload {
+    name: string;
+    /** Shown instead of the file name where the forge supports it; empty for none */
+    label: string;
+    contentType: string;
+    data: Buffer;
+}
+
+/**
+ * Interface for creating, looking up and updating releases on a forge
+ */
+export interface IReleaseProvider {
+    /** Forge name used in logs (e.g., "GitHub") */
+    readonly label: string;
+    /** Repository the releases are published to, as "owner/repo" (a project path with subgroups on GitLab) */
+    readonly repository: string;
+    /** URL comparing two tags on the forge; empty string without a previous tag */
+    getCompareUrl(previousTag: string | null, tag: string): string;
+    findRelease(tagName: string): Promise<CreateReleaseResult | null>;
+    createRelease(release: NewRelease): Promise<CreateReleaseResult>;
+    updateRelease(release: CreateReleaseResult, update: ReleaseUpdate): Promise<CreateReleaseResult>;
+    deleteRelease(release: CreateReleaseResult): Promise<void>;
+    /** Delete the copy of a tag on the forge (e.g., a mirror); resolves to whether the forge had the tag */
+    deleteTag(tagName: string): Promise<boolean>;
+    uploadAsset(release: CreateReleaseResult, asset: ReleaseAssetUpload): Promise<UploadedAsset>;
+}
+
+/**
+ * Parse the release provider input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Release provider
+ * @throws Error if the value is not a known provider
+ */
+export function parseReleaseProvider(value: string): ReleaseProviderKind {
+    if (!value) {
+        return 'github';
+    }
+
+    if (!(RELEASE_PROVIDER_KINDS as string[]).includes(value)) {
+        throw new Error(`Invalid release-provider: ${value}. Expected one of: ${RELEASE_PROVIDER_KINDS.join(', ')}`);
+    }
+
+    return value as ReleaseProviderKind;
+}
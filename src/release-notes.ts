@@ -0,0 +1,105 @@
+import { parseConventionalCommit } from './parsers/conventional-commit.parser';
+import { GitCommit } from './services/git.service';
+
+/**
+ * A section of the generated release notes
+ */
+export interface CommitGroup {
+    title: string;
+    /** Commit types in this group; "breaking" matches breaking changes, "*" matches everything else */
+    types: string[];
+}
+
+/**
+ * Options for rendering release notes from commits
+ */
+export interface RenderCommitNotesOptions {
+    /** Groups in the order they are rendered */
+    groups: CommitGroup[];
+    /** Append the commit author to each line */
+    includeAuthors: boolean;
+}
+
+export const BREAKING_GROUP_TYPE = 'breaking';
+export const OTHER_GROUP_TYPE = '*';
+
+export const DEFAULT_COMMIT_GROUPS: CommitGroup[] = [
+    { title: 'Breaking Changes', types: [BREAKING_GROUP_TYPE] },
+    { title: 'Features', types: ['feat'] },
+    { title: 'Bug Fixes', types: ['fix'] },
+    { title: 'Performance Improvements', types: ['perf'] },
+    { title: 'Reverts', types: ['revert'] },
+];
+
+const COMMIT_GROUP_REGEX = /^([^:]+):\s*(.+)$/;
+
+/**
+ * Parse the commit groups input (pure function)
+ * @param value - One "type[, type]: Title" group per line (e.g., "feat: Features"); empty for the defaults
+ * @returns Commit groups in input order
+ * @throws Error if a line does not follow the expected format
+ */
+export function parseCommitGroups(value: string): CommitGroup[] {
+    const lines = value
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+
+    if (lines.length === 0) {
+        return DEFAULT_COMMIT_GROUPS;
+    }
+
+    return lines.map((line) => {
+        const match = COMMIT_GROUP_REGEX.exec(line);
+        const types = match?.[1]
+            .split(',')
+            .map((type) => type.trim().toLowerCase())
+            .filter((type) => type.length > 0);
+
+        if (!match || !types || types.length === 0) {
+            throw new Error(`Invalid commit-groups line: "${line}". Expected "type[, type]: Title"`);
+        }
+
+        return { title: match[2].trim(), types };
+    });
+}
+
+/**
+ * Render release notes from commits, grouped by Conventional Commit type (pure function)
+ *
+ * Breaking changes go to the "breaking" group if there is one, otherwise to the group of their type.
+ * Commits that match no group are left out.
+ * @param commits - Commits since the previous release, newest first
+ * @param options - Grouping and rendering options
+ * @returns Markdown with one "### Title" section per non-empty group, or empty string if no commit matched
+ */
+export function renderCommitNotes(commits: GitCommit[], options: RenderCommitNotesOptions): string {
+    const hasBreakingGroup = options.groups.some((group) => group.types.includes(BREAKING_GROUP_TYPE));
+    const lines = options.groups.map((): string[] => []);
+
+    for (const commit of commits) {
+        const parsed = parseConventionalCommit(commit.message);
+        const breaking = Boolean(parsed?.breaking) && hasBreakingGroup;
+        const type = breaking ? BREAKING_GROUP_TYPE : parsed?.type;
+
+        let index = options.groups.findIndex((group) => type !== undefined && group.types.includes(type));
+        if (index === -1) {
+            index = options.groups.findIndex((group) => group.types.includes(OTHER_GROUP_TYPE));
+        }
+        if (index === -1) {
+            continue;
+        }
+
+        const subject = commit.message.split('\n')[0].trim();
+        const description = parsed ? (breaking && parsed.breakingNote) || parsed.description : subject;
+        const scope = parsed?.scope ? `**${parsed.scope}:** ` : '';
+        const author = options.includeAuthors && commit.author ? ` by ${commit.author}` : '';
+
+        lines[index].push(`- ${scope}${description} (${commit.sha.slice(0, 7)})${author}`);
+    }
+
+    return options.groups
+        .map((group, index) => (lines[index].length > 0 ? `### ${group.title}\n\n${lines[index].join('\n')}` : ''))
+        .filter((block) => block.length > 0)
+        .join('\n\n');
+}
@@ -0,0 +1,185 @@
+/**
+ * A parsed semantic version (https://semver.org)
+ */
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+    build: string[];
+}
+
+/**
+ * Kind of change between the previous and the current version
+ */
+export type BumpType = 'initial' | 'major' | 'minor' | 'patch' | 'prerelease' | 'build' | 'none' | 'downgrade';
+
+/**
+ * What to do when the current version is lower than the latest released one
+ */
+export type DowngradePolicy = 'error' | 'skip' | 'warn';
+
+export const DOWNGRADE_POLICIES: DowngradePolicy[] = ['error', 'skip', 'warn'];
+
+const SEMVER_REGEX =
+    /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parse a semantic version string (pure function)
+ * @param version - Version string (e.g., "1.2.3-beta.1+build.5"); a leading "v" is ignored
+ * @returns Parsed version, or null if the string is not valid semver
+ */
+export function parseSemver(version: string): SemVer | null {
+    const match = SEMVER_REGEX.exec(version.trim().replace(/^v/, ''));
+    if (!match) {
+        return null;
+    }
+
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split('.') : [],
+        build: match[5] ? match[5].split('.') : [],
+    };
+}
+
+/**
+ * Compare two prerelease identifiers following semver precedence rules (pure function)
+ */
+function compareIdentifiers(a: string, b: string): number {
+    const aNumeric = /^\d+$/.test(a);
+    const bNumeric = /^\d+$/.test(b);
+
+    if (aNumeric && bNumeric) {
+        return Math.sign(Number(a) - Number(b));
+    }
+    if (aNumeric) return -1;
+    if (bNumeric) return 1;
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
+}
+
+/**
+ * Compare two versions by semver precedence; build metadata is ignored (pure function)
+ * @param a - First version
+ * @param b - Second version
+ * @returns -1 if a < b, 0 if equal precedence, 1 if a > b
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+    for (const key of ['major', 'minor', 'patch'] as const) {
+        if (a[key] !== b[key]) {
+            return a[key] > b[key] ? 1 : -1;
+        }
+    }
+
+    // A version without prerelease identifiers has higher precedence
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return Math.sign(b.prerelease.length - a.prerelease.length);
+    }
+
+    const length = Math.max(a.prerelease.length, b.prerelease.length);
+    for (let i = 0; i < length; i++) {
+        if (a.prerelease[i] === undefined) return -1;
+        if (b.prerelease[i] === undefined) return 1;
+
+        const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+        if (result !== 0) {
+            return result;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * Sort tags by the version after the prefix, highest first; tags that are not semver come last (pure function)
+ * @param tags - Tag names starting with the prefix
+ * @param tagPrefix - Prefix before the version (e.g., "v")
+ * @returns Sorted copy of the tags
+ */
+export function sortTagsByVersion(tags: string[], tagPrefix: string): string[] {
+    const versions = new Map(tags.map((tag) => [tag, parseSemver(tag.slice(tagPrefix.length))]));
+
+    return tags.toSorted((a, b) => {
+        const versionA = versions.get(a);
+        const versionB = versions.get(b);
+        if (versionA && versionB) {
+            return compareSemver(versionB, versionA);
+        }
+        if (versionA || versionB) {
+            return versionA ? -1 : 1;
+        }
+        return b.localeCompare(a);
+    });
+}
+
+/**
+ * Classify the change from the previous to the current version (pure function)
+ * @param previous - Latest released version
+ * @param current - Current version
+ * @returns Bump type; prerelease versions are always classified as "prerelease"
+ */
+export function classifyBump(previous: SemVer, current: SemVer): BumpType {
+    const comparison = compareSemver(current, previous);
+
+    if (comparison < 0) {
+        return 'downgrade';
+    }
+
+    if (comparison === 0) {
+        return current.build.join('.') === previous.build.join('.') ? 'none' : 'build';
+    }
+
+    if (current.prerelease.length > 0) {
+        return 'prerelease';
+    }
+
+    if (current.major !== previous.major) return 'major';
+    if (current.minor !== previous.minor) return 'minor';
+    if (current.patch !== previous.patch) return 'patch';
+
+    // Stable release of a prerelease (e.g., 2.0.0-rc.1 -> 2.0.0): classify by the version it leads up to
+    if (previous.patch !== 0) return 'patch';
+    if (previous.minor !== 0) return 'minor';
+    return 'major';
+}
+
+/**
+ * Decide whether a version should be published as a prerelease (pure function)
+ * @param version - Parsed version
+ * @param identifiers - Prerelease identifiers that count (e.g., ["alpha", "beta", "rc"]); empty means any
+ * @param includeZeroMajor - Whether 0.x versions count as prereleases
+ * @returns True if the version is a prerelease
+ */
+export function isPrereleaseVersion(version: SemVer, identifiers: string[], includeZeroMajor: boolean): boolean {
+    if (includeZeroMajor && version.major === 0) {
+        return true;
+    }
+
+    if (identifiers.length === 0) {
+        return version.prerelease.length > 0;
+    }
+
+    // Compare without trailing numbers so "rc1" matches "rc"
+    const wanted = new Set(identifiers.map((identifier) => identifier.toLowerCase()));
+    return version.prerelease.some((identifier) => wanted.has(identifier.toLowerCase().replace(/\d+$/, '')));
+}
+
+/**
+ * Parse the downgrade policy input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Downgrade policy
+ * @throws Error if the value is not a known policy
+ */
+export function parseDowngradePolicy(value: string): DowngradePolicy {
+    if (!value) {
+        return 'error';
+    }
+
+    if (!(DOWNGRADE_POLICIES as string[]).includes(value)) {
+        throw new Error(`Invalid downgrade-policy: ${value}. Expected one of: ${DOWNGRADE_POLICIES.join(', ')}`);
+    }
+
+    return value as DowngradePolicy;
+}
@@ -1,12 +1,18 @@
 import * as fs from 'fs';
+import * as path from 'path';
 import * as core from '@actions/core';
+import * as glob from '@actions/glob';
 
 /**
  * Interface for file operations
  */
 export interface IFileService {
     readFile(filePath: string): string;
+    readFileBuffer(filePath: string): Buffer;
+    writeFile(filePath: string, content: string): void;
     fileExists(filePath: string): boolean;
+    findDirectories(patterns: string[]): Promise<string[]>;
+    findFiles(patterns: string[]): Promise<string[]>;
 }
 
 /**
@@ -27,6 +33,34 @@ export class FileService implements IFileService {
         }
     }
 
+    /**
+     * Read binary file content
+     * @param filePath - Path to the file
+     * @returns File content as buffer
+     * @throws Error if file cannot be read
+     */
+    readFileBuffer(filePath: string): Buffer {
+        try {
+            return fs.readFileSync(filePath);
+        } catch (error: unknown) {
+            throw new Error(`Failed to read file ${filePath}: ${String(error)}`, { cause: error });
+        }
+    }
+
+    /**
+     * Write file content, replacing the file if it exists
+     * @param filePath - Path to the file
+     * @param content - New file content
+     * @throws Error if file cannot be written
+     */
+    writeFile(filePath: string, content: string): void {
+        try {
+            fs.writeFileSync(filePath, content, 'utf8');
+        } catch (error: unknown) {
+            throw new Error(`Failed to write file ${filePath}: ${String(error)}`, { cause: error });
+        }
+    }
+
     /**
      * Check if a file exists
      * @param filePath - Path to the file
@@ -40,4 +74,66 @@ export class FileService implements IFileService {
             return false;
         }
     }
+
+    /**
+     * Find directories matching glob patterns
+     * @param patterns - Glob patterns (e.g., "packages/*"); patterns starting with "!" exclude matches
+     * @returns Matching directory paths relative to the working directory
+     */
+    async findDirectories(patterns: string[]): Promise<string[]> {
+        const globber = await glob.create(patterns.join('\n'), { implicitDescendants: false });
+        const matches = await globber.glob();
+
+        return matches
+            .filter((match) => fs.statSync(match).isDirectory())
+            .map((match) => path.relative(process.cwd(), match) || '.');
+    }
+
+    /**
+     * Find files matching glob patterns
+     * @param patterns - Glob patterns (e.g., "dist/*.zip"); patterns starting with "!" exclude matches
+     * @returns Matching file paths relative to the working directory
+     */
+    async findFiles(patterns: string[]): Promise<string[]> {
+        const globber = await glob.create(patterns.join('\n'), { matchDirectories: false });
+        const matches = await globber.glob();
+
+        return matches.map((match) => path.relative(process.cwd(), match));
+    }
+}
+
+/**
+ * File service for dry runs: writes are kept in memory and only logged
+ */
+export class DryRunFileService extends FileService {
+    private readonly written = new Map<string, string>();
+
+    /**
+     * Read file content, including content written during the dry run
+     * @param filePath - Path to the file
+     * @returns File content as string
+     * @throws Error if file cannot be read
+     */
+    readFile(filePath: string): string {
+        return this.written.get(filePath) ?? super.readFile(filePath);
+    }
+
+    /**
+     * Keep file content in memory instead of writing it
+     * @param filePath - Path to the file
+     * @param content - New file content
+     */
+    writeFile(filePath: string, content: string): void {
+        this.written.set(filePath, content);
+        core.info(`🧪 Dry run: would write ${filePath}`);
+    }
+
+    /**
+     * Check if a file exists or was written during the dry run
+     * @param filePath - Path to the file
+     * @returns True if file exists, false otherwise
+     */
+    fileExists(filePath: string): boolean {
+        return this.written.has(filePath) || super.fileExists(filePath);
+    }
 }
@@ -1,5 +1,20 @@
 import * as core from '@actions/core';
 import { exec } from '@actions/exec';
+import { sortTagsByVersion } from '../semver';
+import { TagSigner } from './tag-signer';
+
+export const DEFAULT_GIT_USER_NAME = 'github-actions[bot]';
+export const DEFAULT_GIT_USER_EMAIL = 'github-actions[bot]@users.noreply.github.com';
+
+/**
+ * A commit read from the git log
+ */
+export interface GitCommit {
+    sha: string;
+    author: string;
+    /** Full commit message (subject and body) */
+    message: string;
+}
 
 /**
  * Interface for git operations
@@ -8,19 +23,64 @@ export interface IGitService {
     getTags(tagPrefix: string): Promise<string[]>;
     tagExists(tagName: string): Promise<boolean>;
     createTag(tagName: string, message: string): Promise<void>;
+    deleteTag(tagName: string): Promise<void>;
+    moveTag(tagName: string, targetTag: string): Promise<void>;
+    commitAndPush(filePaths: string[], message: string): Promise<void>;
     getFileFromTag(tagName: string, filePath: string): Promise<string>;
+    getCommits(fromRef: string | null, paths?: string[]): Promise<GitCommit[]>;
+}
+
+/**
+ * Identity and signing used for tags and commits
+ */
+export interface GitServiceOptions {
+    userName?: string;
+    userEmail?: string;
+    /** Sign tags with this key; tags are unsigned without it */
+    signer?: TagSigner | null;
+    /** Fetch tags missing from the checkout; without it (dry runs) tags are read from the origin listing instead */
+    fetchTags?: boolean;
+}
+
+/**
+ * Output of a git command run without echoing it
+ */
+interface GitOutput {
+    exitCode: number;
+    output: string;
+    error: string;
 }
 
 /**
  * Service for handling git operations
+ *
+ * Tags are reconciled with origin before they are first read: tags missing locally (e.g., in a shallow
+ * clone from actions/checkout) are fetched, and tags that only exist locally are ignored.
  */
 export class GitService implements IGitService {
+    /** Tags on origin by name, null if origin could not be listed, undefined before the first read */
+    private remoteTags: Map<string, string> | null | undefined;
+    /** Local tags that were never pushed to origin */
+    private localOnlyTags = new Set<string>();
+    /** Whether tags on origin differ from the checkout and were not fetched */
+    private unfetchedTags = false;
+
+    constructor(private readonly options: GitServiceOptions = {}) {}
+
     /**
      * Get all tags matching a prefix, sorted by version (descending)
      * @param tagPrefix - Prefix to filter tags (e.g., "v")
      * @returns Array of tag names, sorted by version
      */
     async getTags(tagPrefix: string): Promise<string[]> {
+        await this.syncTags();
+        if (this.unfetchedTags && this.remoteTags) {
+            return sortTagsByVersion(
+                [...this.remoteTags.keys()].filter((tag) => tag.startsWith(tagPrefix)),
+                tagPrefix,
+            );
+        }
+
         let output = '';
         let error = '';
 
@@ -42,15 +102,24 @@ export class GitService implements IGitService {
             return [];
         }
 
-        return this.parseGitTags(output);
+        // git sorts prereleases (e.g., "v1.1.0-rc.1") above the release they lead up to
+        return sortTagsByVersion(
+            this.parseGitTags(output).filter((tag) => !this.localOnlyTags.has(tag)),
+            tagPrefix,
+        );
     }
 
     /**
-     * Check if a specific tag exists
+     * Check if a specific tag exists on origin, or locally if origin cannot be listed
      * @param tagName - Tag name to check
      * @returns True if tag exists, false otherwise
      */
     async tagExists(tagName: string): Promise<boolean> {
+        await this.syncTags();
+        if (this.remoteTags) {
+            return this.remoteTags.has(tagName);
+        }
+
         const exitCode = await exec('git', ['rev-parse', tagName], {
             listeners: {
                 stdout: () => {}, // Ignore output
@@ -64,26 +133,83 @@ export class GitService implements IGitService {
 
     /**
      * Create an annotated git tag and push it to origin
+     *
+     * With a signer the tag is signed and its signature verified before it is pushed.
      * @param tagName - Name of the tag to create
      * @param message - Tag annotation message
+     * @throws Error if the signature of a signed tag cannot be verified
      */
     async createTag(tagName: string, message: string): Promise<void> {
-        // Configure git user
-        await exec('git', ['config', 'user.name', 'github-actions[bot]']);
-        await exec('git', ['config', 'user.email', 'github-actions[bot]@users.noreply.github.com']);
+        await this.configureUser();
+
+        if (this.localOnlyTags.has(tagName)) {
+            core.info(`Replacing local tag ${tagName} that was never pushed`);
+            await exec('git', ['tag', '-d', tagName]);
+            this.localOnlyTags.delete(tagName);
+        }
+
+        if (this.options.signer) {
+            const signingArgs = this.options.signer.getConfigArgs();
 
-        // Create annotated tag
-        await exec('git', ['tag', '-a', tagName, '-m', message]);
+            // Create signed tag
+            await exec('git', [...signingArgs, 'tag', '-s', tagName, '-m', message]);
+            await this.verifyTag(tagName, signingArgs);
+        } else {
+            // Create annotated tag
+            await exec('git', ['tag', '-a', tagName, '-m', message]);
+        }
 
         // Push tag
         await exec('git', ['push', 'origin', tagName]);
+        this.remoteTags?.set(tagName, '');
+
+        core.info(`Created and pushed ${this.options.signer ? 'signed ' : ''}tag: ${tagName}`);
+    }
+
+    /**
+     * Delete a tag from origin and from the local repository
+     * @param tagName - Name of the tag to delete
+     */
+    async deleteTag(tagName: string): Promise<void> {
+        await exec('git', ['push', 'origin', '--delete', `refs/tags/${tagName}`]);
+        await exec('git', ['tag', '-d', tagName]);
+        this.remoteTags?.delete(tagName);
+
+        core.info(`Deleted tag: ${tagName}`);
+    }
+
+    /**
+     * Point a lightweight tag at the commit of another tag and force-push it to origin
+     * @param tagName - Name of the tag to create or move (e.g., "v1")
+     * @param targetTag - Tag whose commit it should point at
+     */
+    async moveTag(tagName: string, targetTag: string): Promise<void> {
+        await exec('git', ['tag', '-f', tagName, `${targetTag}^{commit}`]);
+        await exec('git', ['push', '--force', 'origin', `refs/tags/${tagName}`]);
+        this.remoteTags?.set(tagName, '');
+        this.localOnlyTags.delete(tagName);
 
-        core.info(`Created and pushed tag: ${tagName}`);
+        core.info(`Moved tag ${tagName} to ${targetTag}`);
     }
 
     /**
-     * Get file content from a specific tag
-     * @param tagName - Tag name to retrieve file from
+     * Commit files and push the commit to the current branch on origin
+     * @param filePaths - Paths of the files to commit
+     * @param message - Commit message
+     */
+    async commitAndPush(filePaths: string[], message: string): Promise<void> {
+        await this.configureUser();
+
+        await exec('git', ['add', '--', ...filePaths]);
+        await exec('git', ['commit', '-m', message]);
+        await exec('git', ['push', 'origin', 'HEAD']);
+
+        core.info(`Committed and pushed: ${filePaths.join(', ')}`);
+    }
+
+    /**
+     * Get file content from a specific tag or commit
+     * @param tagName - Tag name or commit SHA to retrieve file from
      * @param filePath - Path to file in the repository
      * @returns File content as string
      * @throws Error if file cannot be retrieved
@@ -112,6 +238,155 @@ export class GitService implements IGitService {
         return output;
     }
 
+    /**
+     * Get the commits between a ref and HEAD, excluding merge commits
+     * @param fromRef - Ref to start after (e.g., the previous tag), or null for the whole history
+     * @param paths - Only include commits touching these paths
+     * @returns Commits, newest first, or empty array if git log fails
+     */
+    async getCommits(fromRef: string | null, paths: string[] = []): Promise<GitCommit[]> {
+        let output = '';
+        let error = '';
+
+        const range = fromRef ? `${fromRef}..HEAD` : 'HEAD';
+        const args = ['log', '--no-merges', '--format=%H%x1f%an%x1f%B%x1e', range];
+        if (paths.length > 0) {
+            args.push('--', ...paths);
+        }
+
+        const exitCode = await exec('git', args, {
+            listeners: {
+                stdout: (data: Buffer) => {
+                    output += data.toString();
+                },
+                stderr: (data: Buffer) => {
+                    error += data.toString();
+                },
+            },
+            ignoreReturnCode: true,
+            silent: true,
+        });
+
+        if (exitCode !== 0) {
+            core.warning(`git log command failed: ${error}`);
+            return [];
+        }
+
+        return this.parseGitLog(output);
+    }
+
+    /**
+     * Compare local tags with origin once, fetching tags that are missing or differ locally
+     *
+     * Without fetchTags the checkout is left untouched and the tags listed on origin are used as they are.
+     * @throws Error if the tags cannot be fetched
+     */
+    private async syncTags(): Promise<void> {
+        if (this.remoteTags !== undefined) {
+            return;
+        }
+
+        const remote = await this.runGit(['ls-remote', '--tags', '--refs', 'origin']);
+        if (remote.exitCode !== 0) {
+            core.warning(`Could not list tags on origin, using local tags only: ${remote.error.trim()}`);
+            this.remoteTags = null;
+            return;
+        }
+        this.remoteTags = this.parseTagRefs(remote.output);
+
+        const local = this.parseTagRefs(
+            (await this.runGit(['for-each-ref', '--format=%(objectname)%09%(refname)', 'refs/tags'])).output,
+        );
+
+        const missing = [...this.remoteTags].filter(([tag, sha]) => local.get(tag) !== sha).map(([tag]) => tag);
+        if (missing.length > 0 && this.options.fetchTags === false) {
+            core.warning(
+                `${missing.length} tag(s) on origin are missing or differ locally and are not fetched in a dry run, using the tags on origin: ${this.summarizeTags(missing)}`,
+            );
+            this.unfetchedTags = true;
+        } else if (missing.length > 0) {
+            const shallow = (await this.runGit(['rev-parse', '--is-shallow-repository'])).output.trim() === 'true';
+            core.warning(
+                shallow
+                    ? `Shallow clone: fetching ${missing.length} tag(s) from origin. Set fetch-depth: 0 on actions/checkout to fetch the history and tags up front`
+                    : `${missing.length} tag(s) on origin are missing or differ locally, fetching them: ${this.summarizeTags(missing)}`,
+            );
+
+            const fetched = await this.runGit(['fetch', '--force', '--tags', 'origin']);
+            if (fetched.exitCode !== 0) {
+                throw new Error(`Failed to fetch tags from origin: ${fetched.error.trim()}`);
+            }
+        }
+
+        this.localOnlyTags = new Set([...local.keys()].filter((tag) => !this.remoteTags?.has(tag)));
+        if (this.localOnlyTags.size > 0) {
+            core.warning(
+                `${this.localOnlyTags.size} local tag(s) do not exist on origin and are ignored: ${this.summarizeTags([...this.localOnlyTags])}`,
+            );
+        }
+    }
+
+    /**
+     * Run a git command without echoing it
+     * @param args - Arguments to git
+     * @returns Exit code and output; a failing command does not throw
+     */
+    private async runGit(args: string[]): Promise<GitOutput> {
+        let output = '';
+        let error = '';
+
+        const exitCode = await exec('git', args, {
+            listeners: {
+                stdout: (data: Buffer) => {
+                    output += data.toString();
+                },
+                stderr: (data: Buffer) => {
+                    error += data.toString();
+                },
+            },
+            ignoreReturnCode: true,
+            silent: true,
+        });
+
+        return { exitCode, output, error };
+    }
+
+    /**
+     * Configure the git user used for tags and commits
+     */
+    private async configureUser(): Promise<void> {
+        await exec('git', ['config', 'user.name', this.options.userName || DEFAULT_GIT_USER_NAME]);
+        await exec('git', ['config', 'user.email', this.options.userEmail || DEFAULT_GIT_USER_EMAIL]);
+    }
+
+    /**
+     * Verify the signature of a local tag, deleting the tag if it is not valid
+     * @param tagName - Name of the signed tag
+     * @param signingArgs - git options that configure the signing key
+     * @throws Error if the signature cannot be verified
+     */
+    private async verifyTag(tagName: string, signingArgs: string[]): Promise<void> {
+        let error = '';
+
+        const exitCode = await exec('git', [...signingArgs, 'tag', '-v', tagName], {
+            listeners: {
+                stderr: (data: Buffer) => {
+                    error += data.toString();
+                },
+            },
+            ignoreReturnCode: true,
+            silent: true,
+        });
+
+        if (exitCode !== 0) {
+            // Never push a tag with a broken signature
+            await exec('git', ['tag', '-d', tagName]);
+            throw new Error(`Signature verification failed for tag ${tagName}: ${error.trim()}`);
+        }
+
+        core.info(`🔏 Verified the signature of tag ${tagName}`);
+    }
+
     /**
      * Parse git tag output to extract tags (pure function)
      * @param output - Raw output from git tag command
@@ -124,4 +399,118 @@ export class GitService implements IGitService {
             .map((tag) => tag.trim())
             .filter((tag) => tag.length > 0);
     }
+
+    /**
+     * Parse "<object>\t<ref>" lines from git ls-remote or for-each-ref (pure function)
+     * @param output - Raw output listing refs under refs/tags/
+     * @returns Object names keyed by tag name
+     */
+    private parseTagRefs(output: string): Map<string, string> {
+        const tags = new Map<string, string>();
+
+        for (const line of output.split('\n')) {
+            const [sha, ref] = line.trim().split('\t');
+            if (sha && ref?.startsWith('refs/tags/')) {
+                tags.set(ref.slice('refs/tags/'.length), sha);
+            }
+        }
+
+        return tags;
+    }
+
+    /**
+     * List a few tag names for log messages (pure function)
+     */
+    private summarizeTags(tags: string[]): string {
+        return tags.length > 5 ? `${tags.slice(0, 5).join(', ')} and ${tags.length - 5} more` : tags.join(', ');
+    }
+
+    /**
+     * Parse git log output written with the "%H%x1f%an%x1f%B%x1e" format (pure function)
+     * @param output - Raw output from git log command
+     * @returns Array of commits, or empty array if none found
+     */
+    private parseGitLog(output: string): GitCommit[] {
+        return output
+            .split('\x1e')
+            .map((record) => record.trim())
+            .filter((record) => record.length > 0)
+            .map((record) => {
+                const [sha, author, message] = record.split('\x1f');
+                return { sha, author, message: (message ?? '').trim() };
+            });
+    }
+}
+
+/**
+ * Git service for dry runs: read operations are passed to the wrapped service, tags and commits are only logged
+ */
+export class DryRunGitService implements IGitService {
+    /**
+     * @param gitService - Service used for read operations
+     */
+    constructor(private readonly gitService: IGitService = new GitService()) {}
+
+    /**
+     * Get tags through the wrapped service
+     */
+    getTags(tagPrefix: string): Promise<string[]> {
+        return this.gitService.getTags(tagPrefix);
+    }
+
+    /**
+     * Check a tag through the wrapped service
+     */
+    tagExists(tagName: string): Promise<boolean> {
+        return this.gitService.tagExists(tagName);
+    }
+
+    /**
+     * Read a file from a tag through the wrapped service
+     */
+    getFileFromTag(tagName: string, filePath: string): Promise<string> {
+        return this.gitService.getFileFromTag(tagName, filePath);
+    }
+
+    /**
+     * Get commits through the wrapped service
+     */
+    getCommits(fromRef: string | null, paths: string[] = []): Promise<GitCommit[]> {
+        return this.gitService.getCommits(fromRef, paths);
+    }
+
+    /**
+     * Log the tag that would be created and pushed
+     * @param tagName - Name of the tag
+     * @param message - Tag annotation message
+     */
+    async createTag(tagName: string, message: string): Promise<void> {
+        core.info(`🧪 Dry run: would create and push tag ${tagName} ("${message}")`);
+    }
+
+    /**
+     * Log the tag that would be deleted
+     * @param tagName - Name of the tag
+     */
+    async deleteTag(tagName: string): Promise<void> {
+        core.info(`🧪 Dry run: would delete tag ${tagName}`);
+    }
+
+    /**
+     * Log the tag that would be moved
+     * @param tagName - Name of the tag to move
+     * @param targetTag - Tag whose commit it would point at
+     */
+    async moveTag(tagName: string, targetTag: string): Promise<void> {
+        core.info(`🧪 Dry run: would move tag ${tagName} to ${targetTag}`);
+    }
+
+    /**
+     * Log the commit that would be created and pushed
+     * @param filePaths - Paths of the files to commit
+     * @param message - Commit message
+     */
+    async commitAndPush(filePaths: string[], message: string): Promise<void> {
+        core.info(`🧪 Dry run: would commit and push ${filePaths.join(', ')} ("${message}")`);
+    }
 }
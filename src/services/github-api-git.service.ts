@@ -0,0 +1,292 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import * as fs from 'fs';
+import * as path from 'path';
+import { sortTagsByVersion } from '../semver';
+import { DEFAULT_GIT_USER_EMAIL, DEFAULT_GIT_USER_NAME, GitCommit, IGitService } from './git.service';
+
+/**
+ * Repository and commit the GitHub API git service works on
+ */
+export interface GitHubApiGitServiceOptions {
+    octokit: ReturnType<typeof github.getOctokit>;
+    owner: string;
+    repo: string;
+    /** Commit new tags point at (the commit that triggered the workflow) */
+    sha: string;
+    /** Ref that triggered the workflow (e.g., "refs/heads/main"); commits are pushed to it */
+    ref: string;
+    /** Tagger identity; the token's user (e.g., github-actions[bot]) if both are empty */
+    userName?: string;
+    userEmail?: string;
+}
+
+/**
+ * Git service that works through the GitHub REST API instead of a local checkout
+ *
+ * Tags are created as annotated tag objects through the Git Data API, so no clone, fetch history
+ * or push credentials are needed.
+ */
+export class GitHubApiGitService implements IGitService {
+    private readonly octokit: GitHubApiGitServiceOptions['octokit'];
+    private readonly owner: string;
+    private readonly repo: string;
+    private readonly ref: string;
+    private readonly tagger?: { name: string; email: string };
+    /** Moves forward when a commit is pushed, so a following tag points at it */
+    private headSha: string;
+
+    constructor(options: GitHubApiGitServiceOptions) {
+        this.octokit = options.octokit;
+        this.owner = options.owner;
+        this.repo = options.repo;
+        this.ref = options.ref;
+        this.headSha = options.sha;
+        if (options.userName || options.userEmail) {
+            this.tagger = {
+                name: options.userName || DEFAULT_GIT_USER_NAME,
+                email: options.userEmail || DEFAULT_GIT_USER_EMAIL,
+            };
+        }
+    }
+
+    /**
+     * Get all tags matching a prefix, sorted by version (descending)
+     * @param tagPrefix - Prefix to filter tags (e.g., "v")
+     * @returns Array of tag names, sorted by version
+     */
+    async getTags(tagPrefix: string): Promise<string[]> {
+        const refs = await this.octokit.paginate(this.octokit.rest.git.listMatchingRefs, {
+            owner: this.owner,
+            repo: this.repo,
+            ref: `tags/${tagPrefix}`,
+            per_page: 100,
+        });
+
+        return sortTagsByVersion(
+            refs.map((ref) => ref.ref.replace(/^refs\/tags\//, '')),
+            tagPrefix,
+        );
+    }
+
+    /**
+     * Check if a specific tag exists
+     * @param tagName - Tag name to check
+     * @returns True if tag exists, false otherwise
+     * @throws Error if the GitHub API call fails for another reason than a missing tag
+     */
+    async tagExists(tagName: string): Promise<boolean> {
+        try {
+            await this.octokit.rest.git.getRef({ owner: this.owner, repo: this.repo, ref: `tags/${tagName}` });
+            return true;
+        } catch (error) {
+            if ((error as { status?: number }).status === 404) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Create an annotated tag object and its ref
+     * @param tagName - Name of the tag to create
+     * @param message - Tag annotation message
+     */
+    async createTag(tagName: string, message: string): Promise<void> {
+        const tag = await this.octokit.rest.git.createTag({
+            owner: this.owner,
+            repo: this.repo,
+            tag: tagName,
+            message,
+            object: this.headSha,
+            type: 'commit',
+            tagger: this.tagger,
+        });
+
+        await this.octokit.rest.git.createRef({
+            owner: this.owner,
+            repo: this.repo,
+            ref: `refs/tags/${tagName}`,
+            sha: tag.data.sha,
+        });
+
+        core.info(`Created tag through the GitHub API: ${tagName}`);
+    }
+
+    /**
+     * Delete a tag ref
+     * @param tagName - Name of the tag to delete
+     */
+    async deleteTag(tagName: string): Promise<void> {
+        await this.octokit.rest.git.deleteRef({ owner: this.owner, repo: this.repo, ref: `tags/${tagName}` });
+
+        core.info(`Deleted tag through the GitHub API: ${tagName}`);
+    }
+
+    /**
+     * Point a lightweight tag ref at the commit of another tag, creating the ref if needed
+     * @param tagName - Name of the tag to create or move (e.g., "v1")
+     * @param targetTag - Tag whose commit it should point at
+     */
+    async moveTag(tagName: string, targetTag: string): Promise<void> {
+        const target = await this.octokit.rest.git.getRef({
+            owner: this.owner,
+            repo: this.repo,
+            ref: `tags/${targetTag}`,
+        });
+
+        // Annotated tags point at a tag object, which points at the commit
+        let sha = target.data.object.sha;
+        if (target.data.object.type === 'tag') {
+            const tag = await this.octokit.rest.git.getTag({ owner: this.owner, repo: this.repo, tag_sha: sha });
+            sha = tag.data.object.sha;
+        }
+
+        if (await this.tagExists(tagName)) {
+            await this.octokit.rest.git.updateRef({
+                owner: this.owner,
+                repo: this.repo,
+                ref: `tags/${tagName}`,
+                sha,
+                force: true,
+            });
+        } else {
+            await this.octokit.rest.git.createRef({
+                owner: this.owner,
+                repo: this.repo,
+                ref: `refs/tags/${tagName}`,
+                sha,
+            });
+        }
+
+        core.info(`Moved tag ${tagName} to ${targetTag} through the GitHub API`);
+    }
+
+    /**
+     * Commit the local content of files on top of the current commit and move the branch to it
+     * @param filePaths - Paths of the files to commit, relative to the repository root
+     * @param message - Commit message
+     * @throws Error if the workflow was not triggered from a branch
+     */
+    async commitAndPush(filePaths: string[], message: string): Promise<void> {
+        if (!this.ref.startsWith('refs/heads/')) {
+            throw new Error(
+                `Cannot push to ${this.ref || 'an unknown ref'}: the workflow was not triggered from a branch`,
+            );
+        }
+
+        const parent = await this.octokit.rest.git.getCommit({
+            owner: this.owner,
+            repo: this.repo,
+            commit_sha: this.headSha,
+        });
+
+        const tree = await this.octokit.rest.git.createTree({
+            owner: this.owner,
+            repo: this.repo,
+            base_tree: parent.data.tree.sha,
+            tree: filePaths.map((filePath) => ({
+                path: path.normalize(filePath).split(path.sep).join('/'),
+                mode: '100644' as const,
+                type: 'blob' as const,
+                content: fs.readFileSync(filePath, 'utf8'),
+            })),
+        });
+
+        const commit = await this.octokit.rest.git.createCommit({
+            owner: this.owner,
+            repo: this.repo,
+            message,
+            tree: tree.data.sha,
+            parents: [this.headSha],
+        });
+
+        await this.octokit.rest.git.updateRef({
+            owner: this.owner,
+            repo: this.repo,
+            ref: this.ref.replace(/^refs\//, ''),
+            sha: commit.data.sha,
+        });
+        this.headSha = commit.data.sha;
+
+        core.info(`Committed and pushed through the GitHub API: ${filePaths.join(', ')}`);
+    }
+
+    /**
+     * Get file content from a specific tag or commit
+     * @param tagName - Tag name or full commit SHA to retrieve file from
+     * @param filePath - Path to file in the repository
+     * @returns File content as string
+     * @throws Error if file cannot be retrieved
+     */
+    async getFileFromTag(tagName: string, filePath: string): Promise<string> {
+        try {
+            const content = await this.octokit.rest.repos.getContent({
+                owner: this.owner,
+                repo: this.repo,
+                path: filePath,
+                ref: /^[0-9a-f]{40}$/.test(tagName) ? tagName : `refs/tags/${tagName}`,
+            });
+
+            if (Array.isArray(content.data) || content.data.type !== 'file') {
+                throw new Error(`${filePath} is not a file`);
+            }
+
+            return Buffer.from(content.data.content, 'base64').toString('utf8');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to get ${filePath} from tag ${tagName}: ${message}`, { cause: error });
+        }
+    }
+
+    /**
+     * Get the commits since a ref, excluding merge commits
+     *
+     * The API cannot list a commit range for a path, so commits are listed back to the date of the
+     * ref's commit. Commits from branches merged after that date but authored before it are missed.
+     * @param fromRef - Ref to start after (e.g., the previous tag), or null for the whole history
+     * @param paths - Only include commits touching these paths
+     * @returns Commits, newest first
+     */
+    async getCommits(fromRef: string | null, paths: string[] = []): Promise<GitCommit[]> {
+        let since: string | undefined;
+        let fromSha: string | undefined;
+        if (fromRef) {
+            const from = await this.octokit.rest.repos.getCommit({ owner: this.owner, repo: this.repo, ref: fromRef });
+            fromSha = from.data.sha;
+            since = from.data.commit.committer?.date;
+        }
+
+        // The repository root is the same as no path filter
+        const filters = paths.filter((filePath) => path.normalize(filePath) !== '.');
+        const commits = new Map<string, GitCommit>();
+
+        // One listing per path; commit lists are paginated and there are only a few paths
+        const listings = await Promise.all(
+            (filters.length > 0 ? filters : [undefined]).map((filter) =>
+                this.octokit.paginate(this.octokit.rest.repos.listCommits, {
+                    owner: this.owner,
+                    repo: this.repo,
+                    sha: this.headSha,
+                    path: filter,
+                    since,
+                    per_page: 100,
+                }),
+            ),
+        );
+
+        for (const listed of listings) {
+            for (const commit of listed) {
+                if (commit.sha !== fromSha && commit.parents.length <= 1 && !commits.has(commit.sha)) {
+                    commits.set(commit.sha, {
+                        sha: commit.sha,
+                        author: commit.commit.author?.name ?? '',
+                        message: commit.commit.message.trim(),
+                    });
+                }
+            }
+        }
+
+        return [...commits.values()];
+    }
+}
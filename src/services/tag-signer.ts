@@ -0,0 +1,254 @@
+import * as core from '@actions/core';
+import { exec } from '@actions/exec';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Kind of key used to sign tags
+ */
+export type SigningFormat = 'gpg' | 'ssh';
+
+export const SIGNING_FORMATS: SigningFormat[] = ['gpg', 'ssh'];
+
+/**
+ * Key material for signing tags
+ */
+export interface TagSignerOptions {
+    format: SigningFormat;
+    /** ASCII-armored GPG private key or OpenSSH private key */
+    key: string;
+    /** Passphrase of the key; empty if the key is not protected */
+    passphrase: string;
+    /** Email of the tagger; SSH signatures are verified against it */
+    email: string;
+}
+
+/**
+ * Parse the signing format input (pure function)
+ * @param value - Raw input value (empty string for the default)
+ * @returns Signing format
+ * @throws Error if the value is not a known format
+ */
+export function parseSigningFormat(value: string): SigningFormat {
+    if (!value) {
+        return 'gpg';
+    }
+
+    if (!(SIGNING_FORMATS as string[]).includes(value)) {
+        throw new Error(`Invalid signing-format: ${value}. Expected one of: ${SIGNING_FORMATS.join(', ')}`);
+    }
+
+    return value as SigningFormat;
+}
+
+/**
+ * Read the fingerprint of the first secret key from "gpg --with-colons" output (pure function)
+ * @param output - Output of "gpg --list-secret-keys --with-colons"
+ * @returns Fingerprint, or null if no secret key is listed
+ */
+export function parseSecretKeyFingerprint(output: string): string | null {
+    const lines = output.split('\n');
+    const secretKeyIndex = lines.findIndex((line) => line.startsWith('sec:'));
+    if (secretKeyIndex === -1) {
+        return null;
+    }
+
+    const fingerprintLine = lines.slice(secretKeyIndex + 1).find((line) => line.startsWith('fpr:'));
+    return fingerprintLine?.split(':')[9] || null;
+}
+
+/**
+ * Quote a value for a POSIX shell script (pure function)
+ */
+function quoteShellArg(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Imports a signing key into a temporary directory and provides the git configuration to sign tags with it
+ *
+ * Nothing is written to the git config or the user's keyring: the configuration is passed with "git -c"
+ * and the temporary directory is removed by cleanUp().
+ */
+export class TagSigner {
+    private directory: string | null = null;
+    private configArgs: string[] = [];
+
+    constructor(private readonly options: TagSignerOptions) {}
+
+    /**
+     * Mask the key and passphrase in the logs of GitHub Actions and import the key
+     * @throws Error if the key cannot be imported
+     */
+    async setUp(): Promise<void> {
+        // Elsewhere (e.g., the auto-release command) the mask command would print the secrets instead of hiding them
+        if (process.env.GITHUB_ACTIONS === 'true') {
+            for (const secret of [this.options.key, this.options.passphrase]) {
+                // Multi-line secrets are masked line by line
+                for (const line of secret.split('\n').map((value) => value.trim())) {
+                    if (line) {
+                        core.setSecret(line);
+                    }
+                }
+            }
+        }
+
+        this.directory = fs.mkdtempSync(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'auto-release-signing-'));
+        fs.chmodSync(this.directory, 0o700);
+
+        try {
+            this.configArgs =
+                this.options.format === 'ssh'
+                    ? await this.setUpSsh(this.directory)
+                    : await this.setUpGpg(this.directory);
+        } catch (error) {
+            await this.cleanUp();
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to import the ${this.options.format} signing key: ${message}`, { cause: error });
+        }
+
+        core.info(`🔏 Tags will be signed with the ${this.options.format} key`);
+    }
+
+    /**
+     * Options to pass to git before the subcommand (e.g., ["-c", "gpg.format=ssh", ...])
+     * @throws Error if setUp() has not been called
+     */
+    getConfigArgs(): string[] {
+        if (this.configArgs.length === 0) {
+            throw new Error('Signing key has not been set up');
+        }
+
+        return this.configArgs;
+    }
+
+    /**
+     * Stop the GPG agent and remove the temporary directory with the key
+     */
+    async cleanUp(): Promise<void> {
+        if (!this.directory) {
+            return;
+        }
+
+        if (this.options.format === 'gpg') {
+            await exec('gpgconf', ['--homedir', path.join(this.directory, 'gnupg'), '--kill', 'gpg-agent'], {
+                ignoreReturnCode: true,
+                silent: true,
+            });
+        }
+
+        fs.rmSync(this.directory, { recursive: true, force: true });
+        this.directory = null;
+        this.configArgs = [];
+    }
+
+    /**
+     * Import a GPG key into a private keyring and create a gpg wrapper that uses it
+     */
+    private async setUpGpg(directory: string): Promise<string[]> {
+        const home = path.join(directory, 'gnupg');
+        fs.mkdirSync(home, { mode: 0o700 });
+
+        const keyFile = path.join(directory, 'signing-key.asc');
+        fs.writeFileSync(keyFile, this.options.key, { mode: 0o600 });
+
+        const gpgArgs = ['--homedir', home, '--batch'];
+        if (this.options.passphrase) {
+            const passphraseFile = path.join(directory, 'passphrase');
+            fs.writeFileSync(passphraseFile, this.options.passphrase, { mode: 0o600 });
+            gpgArgs.push('--pinentry-mode', 'loopback', '--passphrase-file', passphraseFile);
+        }
+
+        await this.run('gpg', [...gpgArgs, '--import', keyFile]);
+        fs.rmSync(keyFile);
+
+        const fingerprint = parseSecretKeyFingerprint(
+            await this.run('gpg', ['--homedir', home, '--batch', '--with-colons', '--list-secret-keys']),
+        );
+        if (!fingerprint) {
+            throw new Error('No secret key found in the GPG key');
+        }
+
+        // git calls gpg.program for signing and verification; the wrapper points it at the private keyring
+        const program = path.join(directory, 'gpg.sh');
+        const quoted = gpgArgs.map(quoteShellArg).join(' ');
+        fs.writeFileSync(program, `#!/bin/sh\nexec gpg ${quoted} "$@"\n`, { mode: 0o700 });
+
+        return ['-c', 'gpg.format=openpgp', '-c', `gpg.program=${program}`, '-c', `user.signingkey=${fingerprint}`];
+    }
+
+    /**
+     * Write an SSH key without passphrase and an allowed signers file for verification
+     */
+    private async setUpSsh(directory: string): Promise<string[]> {
+        const keyFile = path.join(directory, 'signing-key');
+        fs.writeFileSync(keyFile, `${this.options.key.trim()}\n`, { mode: 0o600 });
+
+        if (this.options.passphrase) {
+            // ssh-keygen cannot read the passphrase when signing, so the temporary copy is decrypted.
+            // An askpass helper hands the passphrase over, which keeps it out of the process list
+            const passphraseFile = path.join(directory, 'passphrase');
+            fs.writeFileSync(passphraseFile, this.options.passphrase, { mode: 0o600 });
+            const askpass = path.join(directory, 'askpass.sh');
+            fs.writeFileSync(askpass, `#!/bin/sh\nexec cat ${quoteShellArg(passphraseFile)}\n`, { mode: 0o700 });
+
+            try {
+                await this.run('ssh-keygen', ['-p', '-f', keyFile, '-N', ''], {
+                    ...(process.env as Record<string, string>),
+                    SSH_ASKPASS: askpass,
+                    SSH_ASKPASS_REQUIRE: 'force',
+                    // Older ssh-keygen versions only use the helper with a display
+                    DISPLAY: process.env.DISPLAY || ':0',
+                });
+            } finally {
+                fs.rmSync(passphraseFile, { force: true });
+                fs.rmSync(askpass, { force: true });
+            }
+        }
+
+        const publicKey = (await this.run('ssh-keygen', ['-y', '-f', keyFile])).trim();
+        const allowedSigners = path.join(directory, 'allowed-signers');
+        fs.writeFileSync(allowedSigners, `${this.options.email} namespaces="git" ${publicKey}\n`, { mode: 0o600 });
+
+        return [
+            '-c',
+            'gpg.format=ssh',
+            '-c',
+            `user.signingkey=${keyFile}`,
+            '-c',
+            `gpg.ssh.allowedSignersFile=${allowedSigners}`,
+        ];
+    }
+
+    /**
+     * Run a command without echoing it or its output, so key material never reaches the log
+     * @param env - Environment of the command; inherited by default
+     * @returns Standard output
+     * @throws Error with the standard error output if the command fails
+     */
+    private async run(command: string, args: string[], env?: Record<string, string>): Promise<string> {
+        let output = '';
+        let error = '';
+
+        const exitCode = await exec(command, args, {
+            listeners: {
+                stdout: (data: Buffer) => {
+                    output += data.toString();
+                },
+                stderr: (data: Buffer) => {
+                    error += data.toString();
+                },
+            },
+            env,
+            ignoreReturnCode: true,
+            silent: true,
+        });
+
+        if (exitCode !== 0) {
+            throw new Error(`${command} failed: ${error.trim()}`);
+        }
+
+        return output;
+    }
+}
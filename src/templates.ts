@@ -0,0 +1,93 @@
+/**
+ * Values available to release name, tag message and release body templates
+ */
+export interface TemplateValues {
+    /** Version without tag prefix (e.g., "1.2.3") */
+    version: string;
+    /** Tag name (e.g., "v1.2.3") */
+    tag: string;
+    /** Package name in monorepo mode; empty otherwise */
+    name: string;
+    /** Version of the previous release tag; empty for the first release */
+    previousVersion: string;
+    /** Release date as YYYY-MM-DD (UTC) */
+    date: string;
+    /** Release notes from the changelog, generated from commits or the default message */
+    changelog: string;
+    /** Repository as "owner/repo" */
+    repo: string;
+    /** Commit that triggered the workflow */
+    sha: string;
+    /** URL comparing the previous tag with the new one; empty for the first release */
+    compareUrl: string;
+}
+
+export const DEFAULT_RELEASE_NAME_TEMPLATE = '{{tag}}';
+export const DEFAULT_TAG_MESSAGE_TEMPLATE = 'Release {{tag}}';
+export const DEFAULT_RELEASE_BODY_TEMPLATE = '{{changelog}}';
+
+const TEMPLATE_PLACEHOLDERS = new Set<string>([
+    'version',
+    'tag',
+    'name',
+    'previousVersion',
+    'date',
+    'changelog',
+    'repo',
+    'sha',
+    'compareUrl',
+]);
+
+const PLACEHOLDER_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Validate a template (pure function)
+ * @param template - Template text (e.g., "Release {{tag}}")
+ * @param source - Where the template comes from, for error messages (e.g., "release-name-template")
+ * @throws Error if the template uses unknown placeholders
+ */
+export function validateTemplate(template: string, source: string): void {
+    const placeholders = [...template.matchAll(PLACEHOLDER_REGEX)].map((match) => match[1]);
+    const unknown = [...new Set(placeholders.filter((placeholder) => !TEMPLATE_PLACEHOLDERS.has(placeholder)))];
+
+    if (unknown.length > 0) {
+        throw new Error(
+            `Unknown placeholder(s) in ${source}: ${unknown.join(', ')}. Available: ${[...TEMPLATE_PLACEHOLDERS].join(', ')}`,
+        );
+    }
+}
+
+/**
+ * Replace the placeholders of a validated template (pure function)
+ * @param template - Template text
+ * @param values - Values to substitute
+ * @returns Rendered text; placeholders are replaced in a single pass, so values are never expanded again
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+    return template.replace(PLACEHOLDER_REGEX, (match, key: string) =>
+        TEMPLATE_PLACEHOLDERS.has(key) ? values[key as keyof TemplateValues] : match,
+    );
+}
+
+/**
+ * Encode a ref for a URL path; slashes are kept so scoped monorepo tags (e.g., "@scope/pkg@1.0.0") stay readable
+ */
+function encodeRef(ref: string): string {
+    return encodeURIComponent(ref).replace(/%2F/g, '/');
+}
+
+/**
+ * Build the URL comparing two tags on GitHub or Gitea (pure function)
+ * @param serverUrl - Server URL (e.g., "https://github.com")
+ * @param repo - Repository as "owner/repo"
+ * @param previousTag - Previous tag, or null for the first release
+ * @param tag - New tag
+ * @returns Compare URL, or empty string without a previous tag
+ */
+export function buildCompareUrl(serverUrl: string, repo: string, previousTag: string | null, tag: string): string {
+    if (!previousTag) {
+        return '';
+    }
+
+    return `${serverUrl}/${repo}/compare/${encodeRef(previousTag)}...${encodeRef(tag)}`;
+}
@@ -2,10 +2,21 @@ export function buildTagName(prefix: string, version: string): string {
     return `${prefix}${version}`;
 }
 
+export function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
 export function isBlank(value: string | undefined | null): boolean {
     return !value || value.trim().length === 0;
 }
 
+export function parseListInput(value: string): string[] {
+    return value
+        .split('\n')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+}
+
 export function replaceTabs(line: string, tabSize = 4): string {
     const spaces = ' '.repeat(tabSize);
     return line.replace(/\t/g, spaces);
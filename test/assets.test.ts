@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getContentType, parseAssetPatterns, renderChecksums, sha256 } from '../src/assets';
+
+describe('parseAssetPatterns', () => {
+    it('should parse patterns with optional label and content type', () => {
+        expect(parseAssetPatterns('dist/*.zip | Binaries | application/zip\n\n  dist/*.sig  \ndocs/*.pdf | Manual')).toEqual([
+            { pattern: 'dist/*.zip', label: 'Binaries', contentType: 'application/zip' },
+            { pattern: 'dist/*.sig', label: '', contentType: '' },
+            { pattern: 'docs/*.pdf', label: 'Manual', contentType: '' },
+        ]);
+    });
+
+    it('should return an empty array for empty input', () => {
+        expect(parseAssetPatterns('')).toEqual([]);
+    });
+});
+
+describe('getContentType', () => {
+    it('should derive the content type from the extension', () => {
+        expect(getContentType('dist/app.zip')).toBe('application/zip');
+        expect(getContentType('app-1.0.0.TGZ')).toBe('application/gzip');
+        expect(getContentType('NOTES.md')).toBe('text/markdown');
+    });
+
+    it('should fall back to application/octet-stream', () => {
+        expect(getContentType('app.exe')).toBe('application/octet-stream');
+        expect(getContentType('LICENSE')).toBe('application/octet-stream');
+    });
+});
+
+describe('sha256', () => {
+    it('should return the hex digest', () => {
+        expect(sha256(Buffer.from('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+});
+
+describe('renderChecksums', () => {
+    it('should render one sha256sum line per asset', () => {
+        const checksums = new Map([
+            ['app.zip', 'aaa'],
+            ['app.sig', 'bbb'],
+        ]);
+
+        expect(renderChecksums(checksums)).toBe('aaa  app.zip\nbbb  app.sig\n');
+    });
+});
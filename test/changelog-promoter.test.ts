@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { promoteUnreleased } from '../src/changelog-promoter';
+
+const OPTIONS = { version: '1.1.0', date: '2025-11-10', tagName: 'v1.1.0' };
+
+describe('promoteUnreleased', () => {
+    it('should turn the Unreleased section into the version entry and update compare links', () => {
+        const content = `# Changelog
+
+## [Unreleased]
+
+### Added
+
+- New feature
+
+## [1.0.0] - 2025-11-04
+
+- Initial release
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.0.0...HEAD
+[1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0
+`;
+
+        expect(promoteUnreleased(content, OPTIONS)).toBe(`# Changelog
+
+## [Unreleased]
+
+## [1.1.0] - 2025-11-10
+
+### Added
+
+- New feature
+
+## [1.0.0] - 2025-11-04
+
+- Initial release
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD
+[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0
+[1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0
+`);
+    });
+
+    it('should leave link references alone when there is no compare link', () => {
+        const content = '## Unreleased\n\n- Fix\n\n[Unreleased]: https://example.com/changes\n';
+
+        expect(promoteUnreleased(content, OPTIONS)).toBe(
+            '## [Unreleased]\n\n## [1.1.0] - 2025-11-10\n\n- Fix\n\n[Unreleased]: https://example.com/changes\n',
+        );
+    });
+
+    it('should keep CRLF line endings', () => {
+        const content = '## [Unreleased]\r\n\r\n- Fix\r\n';
+
+        expect(promoteUnreleased(content, OPTIONS)).toBe('## [Unreleased]\r\n\r\n## [1.1.0] - 2025-11-10\r\n\r\n- Fix\r\n');
+    });
+
+    it('should return null when the version already has an entry', () => {
+        const content = '## [Unreleased]\n\n- Next\n\n## [1.1.0] - 2025-11-09\n\n- Fix\n';
+
+        expect(promoteUnreleased(content, OPTIONS)).toBeNull();
+    });
+
+    it('should return null when the Unreleased section is missing or empty', () => {
+        expect(promoteUnreleased('## [1.0.0] - 2025-11-04\n\n- Initial\n', OPTIONS)).toBeNull();
+        expect(promoteUnreleased('## [Unreleased]\n\n### Added\n\n## [1.0.0]\n\n- Initial\n', OPTIONS)).toBeNull();
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { isValidIsoDate, validateChangelog } from '../src/changelog-validator';
+
+const TODAY = '2025-11-10';
+
+describe('isValidIsoDate', () => {
+    it('should accept real dates', () => {
+        expect(isValidIsoDate('2025-11-05')).toBe(true);
+        expect(isValidIsoDate('2024-02-29')).toBe(true);
+    });
+
+    it('should reject impossible dates and other formats', () => {
+        expect(isValidIsoDate('2025-02-30')).toBe(false);
+        expect(isValidIsoDate('2025-13-01')).toBe(false);
+        expect(isValidIsoDate('05.11.2025')).toBe(false);
+        expect(isValidIsoDate('2025-1-5')).toBe(false);
+    });
+});
+
+describe('validateChangelog', () => {
+    it('should return no problems for a valid changelog', () => {
+        const content = `# Changelog
+
+## [Unreleased]
+
+### Added
+
+- Next thing
+
+## [1.1.0] - 2025-11-05
+
+### Fixed
+
+- Bug
+
+## [1.0.0] - 2025-11-04
+
+- Initial release
+`;
+
+        expect(validateChangelog(content, { currentVersion: '1.1.0', today: TODAY })).toEqual([]);
+    });
+
+    it('should report a missing entry for the current version', () => {
+        const content = '## [1.0.0] - 2025-11-04\n\n- Initial release\n';
+
+        expect(validateChangelog(content, { currentVersion: 'v1.1.0', today: TODAY })).toEqual([
+            { line: 1, severity: 'error', message: 'No entry found for version 1.1.0' },
+        ]);
+    });
+
+    it('should accept a non-empty Unreleased section instead of the entry with allowUnreleased', () => {
+        const filled = '## [Unreleased]\n\n- Next\n\n## [1.0.0] - 2025-11-04\n\n- Initial release\n';
+        const empty = '## [Unreleased]\n\n## [1.0.0] - 2025-11-04\n\n- Initial release\n';
+        const options = { currentVersion: '1.1.0', allowUnreleased: true, today: TODAY };
+
+        expect(validateChangelog(filled, options)).toEqual([]);
+        expect(validateChangelog(empty, options)).toEqual([
+            { line: 1, severity: 'error', message: 'No entry found for version 1.1.0' },
+            { line: 1, severity: 'warning', message: 'Unreleased section is empty' },
+        ]);
+    });
+
+    it('should report an empty entry for the current version', () => {
+        const content = '## [1.1.0] - 2025-11-05\n\n### Added\n\n## [1.0.0] - 2025-11-04\n\n- Initial\n';
+
+        expect(validateChangelog(content, { currentVersion: '1.1.0', today: TODAY })).toEqual([
+            { line: 1, severity: 'error', message: 'Entry for 1.1.0 is empty' },
+        ]);
+    });
+
+    it('should report duplicate version headers', () => {
+        const content = '## [1.0.0] - 2025-11-04\n\n- A\n\n## [1.0.0] - 2025-11-04\n\n- B\n';
+
+        expect(validateChangelog(content, { today: TODAY })).toEqual([
+            { line: 5, severity: 'error', message: 'Duplicate entry for 1.0.0 (first defined on line 1)' },
+        ]);
+    });
+
+    it('should report versions out of order', () => {
+        const content = '## [1.0.0] - 2025-11-01\n\n- A\n\n## [1.2.0] - 2025-11-02\n\n- B\n\n## [0.9.0]\n\n- C\n';
+
+        const problems = validateChangelog(content, { today: TODAY });
+
+        expect(problems).toEqual([
+            {
+                line: 5,
+                severity: 'error',
+                message: '1.2.0 is listed after 1.0.0; versions must be in descending order',
+            },
+        ]);
+    });
+
+    it('should report invalid and future dates', () => {
+        const content = '## [1.2.0] - 2025-12-24\n\n- A\n\n## [1.1.0] - 2025-02-30\n\n- B\n\n## [1.0.0] - 05.11.2025\n\n- C\n';
+
+        const problems = validateChangelog(content, { today: TODAY });
+
+        expect(problems).toEqual([
+            { line: 1, severity: 'error', message: 'Date 2025-12-24 for 1.2.0 is in the future' },
+            { line: 5, severity: 'error', message: 'Invalid date "2025-02-30" for 1.1.0. Expected YYYY-MM-DD' },
+            { line: 9, severity: 'error', message: 'Invalid date "05.11.2025" for 1.0.0. Expected YYYY-MM-DD' },
+        ]);
+    });
+
+    it('should report malformed headers and versions that are not semver', () => {
+        const content = '## Release 1.1.0 (November)\n\n- A\n\n## [1.0] - 2025-11-04\n\n- B\n';
+
+        const problems = validateChangelog(content, { today: TODAY });
+
+        expect(problems).toEqual([
+            {
+                line: 1,
+                severity: 'error',
+                message: 'Malformed version header: "## Release 1.1.0 (November)". Expected "## [x.y.z] - YYYY-MM-DD"',
+            },
+            { line: 5, severity: 'error', message: '1.0 is not a valid semantic version' },
+        ]);
+    });
+
+    it('should warn about an empty Unreleased section', () => {
+        const content = '## [Unreleased]\n\n### Added\n\n## [1.0.0] - 2025-11-04\n\n- A\n';
+
+        expect(validateChangelog(content, { today: TODAY })).toEqual([
+            { line: 1, severity: 'warning', message: 'Unreleased section is empty' },
+        ]);
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { collectReleaseCredits, parseBotPattern, renderReleaseCredits } from '../src/contributors';
+
+const commit = (sha: string, author = 'Jane Doe') => ({ sha, author, message: 'feat: change' });
+
+const pullRequest = (number: number, login: string, mergedAt: string | null = '2024-03-01T12:00:00Z') => ({
+    number,
+    title: `Pull request ${number}`,
+    merged_at: mergedAt,
+    user: { login, type: login.endsWith('[bot]') ? 'Bot' : 'User' },
+});
+
+describe('parseBotPattern', () => {
+    it('should default to logins ending in [bot]', () => {
+        const pattern = parseBotPattern('');
+
+        expect(pattern.test('dependabot[bot]')).toBe(true);
+        expect(pattern.test('robot')).toBe(false);
+    });
+
+    it('should match case-insensitively', () => {
+        expect(parseBotPattern('^renovate').test('Renovate-Bot')).toBe(true);
+    });
+
+    it('should throw error for invalid patterns', () => {
+        expect(() => parseBotPattern('[bot')).toThrow('Invalid bot-pattern: [bot');
+    });
+});
+
+describe('collectReleaseCredits', () => {
+    let octokit: any;
+
+    beforeEach(() => {
+        octokit = {
+            rest: {
+                repos: {
+                    compareCommitsWithBasehead: vi.fn(),
+                    listPullRequestsAssociatedWithCommit: vi.fn().mockResolvedValue({ data: [] }),
+                    listCommits: vi.fn().mockResolvedValue({ data: [{ sha: 'older' }] }),
+                },
+            },
+        };
+    });
+
+    it('should map commits to logins and merged pull requests without bots', async () => {
+        const authors: Record<string, any> = {
+            c1: { login: 'zoe', type: 'User' },
+            c2: { login: 'dependabot[bot]', type: 'Bot' },
+            c3: null,
+            c4: { login: 'Alice', type: 'User' },
+        };
+        octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+            data: { commits: Object.entries(authors).map(([sha, author]) => ({ sha, author })) },
+        });
+        octokit.rest.repos.listPullRequestsAssociatedWithCommit.mockImplementation(async ({ commit_sha }: { commit_sha: string }) => ({
+            data: {
+                c1: [pullRequest(12, 'zoe'), pullRequest(9, 'zoe', null)],
+                c2: [pullRequest(11, 'dependabot[bot]')],
+                c4: [pullRequest(12, 'zoe')],
+            }[commit_sha] ?? [],
+        }));
+
+        const credits = await collectReleaseCredits({
+            octokit,
+            owner: 'owner',
+            repo: 'repo',
+            commits: [commit('c1'), commit('c2'), commit('c3', 'Local Author'), commit('c4')],
+            previousTag: 'v1.0.0',
+            headSha: 'c1',
+            botPattern: parseBotPattern(''),
+        });
+
+        expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledOnce();
+        expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            basehead: 'v1.0.0...c1',
+            per_page: 100,
+            page: 1
+        });
+        expect(credits.contributors).toEqual([
+            { name: 'Alice', login: true, firstTime: false },
+            { name: 'Local Author', login: false, firstTime: false },
+            { name: 'zoe', login: true, firstTime: false },
+        ]);
+        expect(credits.pullRequests).toEqual([
+            { number: 11, title: 'Pull request 11', author: 'dependabot[bot]' },
+            { number: 12, title: 'Pull request 12', author: 'zoe' },
+        ]);
+    });
+
+    it('should mark contributors without commits before the previous tag as first-time', async () => {
+        octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+            data: { commits: [{ sha: 'c1', author: { login: 'newcomer', type: 'User' } }] },
+        });
+        octokit.rest.repos.listCommits.mockResolvedValue({ data: [] });
+
+        const credits = await collectReleaseCredits({
+            octokit,
+            owner: 'owner',
+            repo: 'repo',
+            commits: [commit('c1')],
+            previousTag: 'v1.0.0',
+            headSha: 'c1',
+            botPattern: parseBotPattern(''),
+        });
+
+        expect(octokit.rest.repos.listCommits).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            sha: 'v1.0.0',
+            author: 'newcomer',
+            per_page: 1,
+        });
+        expect(credits.contributors).toEqual([{ name: 'newcomer', login: true, firstTime: true }]);
+    });
+
+    it('should read the history of the release commit for the first release without marking anybody', async () => {
+        octokit.rest.repos.listCommits.mockResolvedValue({ data: [{ sha: 'c1', author: { login: 'founder', type: 'User' } }] });
+
+        const credits = await collectReleaseCredits({
+            octokit,
+            owner: 'owner',
+            repo: 'repo',
+            commits: [commit('c1')],
+            previousTag: null,
+            headSha: 'c1',
+            botPattern: parseBotPattern(''),
+        });
+
+        expect(octokit.rest.repos.listCommits).toHaveBeenCalledOnce();
+        expect(octokit.rest.repos.listCommits).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', sha: 'c1', per_page: 100, page: 1 });
+        expect(octokit.rest.repos.compareCommitsWithBasehead).not.toHaveBeenCalled();
+        expect(credits.contributors).toEqual([{ name: 'founder', login: true, firstTime: false }]);
+    });
+
+    it('should page through comparisons with more than 100 commits', async () => {
+        const page = (first: number, count: number) =>
+            Array.from({ length: count }, (_, index) => ({ sha: `c${first + index}`, author: { login: 'alice', type: 'User' } }));
+        octokit.rest.repos.compareCommitsWithBasehead
+            .mockResolvedValueOnce({ data: { commits: page(0, 100) } })
+            .mockResolvedValueOnce({ data: { commits: page(100, 1) } });
+
+        const credits = await collectReleaseCredits({
+            octokit,
+            owner: 'owner',
+            repo: 'repo',
+            commits: [commit('c100', 'Alice')],
+            previousTag: 'v1.0.0',
+            headSha: 'c100',
+            botPattern: parseBotPattern('')
+        });
+
+        expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledTimes(2);
+        expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+        expect(credits.contributors.map((contributor) => contributor.name)).toEqual(['alice']);
+    });
+});
+
+describe('renderReleaseCredits', () => {
+    it('should render contributors and merged pull requests', () => {
+        const result = renderReleaseCredits({
+            contributors: [
+                { name: 'alice', login: true, firstTime: true },
+                { name: 'Local Author', login: false, firstTime: false },
+            ],
+            pullRequests: [
+                { number: 12, title: 'Add export', author: 'alice' },
+                { number: 13, title: 'Fix typo', author: '' },
+            ],
+        });
+
+        expect(result).toBe(
+            '## Contributors\n\n- @alice (first contribution)\n- Local Author\n\n' +
+                '## Merged pull requests\n\n- Add export (#12) by @alice\n- Fix typo (#13)'
+        );
+    });
+
+    it('should leave out empty sections', () => {
+        expect(renderReleaseCredits({ contributors: [{ name: 'alice', login: true, firstTime: false }], pullRequests: [] })).toBe(
+            '## Contributors\n\n- @alice'
+        );
+        expect(renderReleaseCredits({ contributors: [], pullRequests: [] })).toBe('');
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseFloatingTags, planFloatingTags } from '../src/floating-tags';
+
+describe('parseFloatingTags', () => {
+    it('should return no levels for an empty input', () => {
+        expect(parseFloatingTags('')).toEqual([]);
+    });
+
+    it('should parse comma-separated levels in a fixed order', () => {
+        expect(parseFloatingTags('minor, major')).toEqual(['major', 'minor']);
+        expect(parseFloatingTags('major')).toEqual(['major']);
+    });
+
+    it('should throw error for unknown levels', () => {
+        expect(() => parseFloatingTags('major, patch')).toThrow(
+            'Invalid floating-tags: patch. Expected one of: major, minor'
+        );
+    });
+});
+
+describe('planFloatingTags', () => {
+    const tags = ['v2.0.0-rc.1', 'v1.3.0', 'v1.3', 'v1.2.1', 'v1.2.0', 'v1.2', 'v1', 'v0.9.0'];
+
+    it('should plan the major and minor tags of the newest release', () => {
+        expect(planFloatingTags('v', '1.4.0', tags, ['major', 'minor'])).toEqual([
+            { tagName: 'v1', newerTag: null },
+            { tagName: 'v1.4', newerTag: null },
+        ]);
+    });
+
+    it('should report a newer release of the same line', () => {
+        expect(planFloatingTags('v', '1.2.2', tags, ['major', 'minor'])).toEqual([
+            { tagName: 'v1', newerTag: 'v1.3.0' },
+            { tagName: 'v1.2', newerTag: null },
+        ]);
+    });
+
+    it('should ignore prereleases of the same line', () => {
+        expect(planFloatingTags('v', '2.0.0', tags, ['major'])).toEqual([{ tagName: 'v2', newerTag: null }]);
+    });
+
+    it('should use the tag prefix of monorepo packages', () => {
+        expect(planFloatingTags('@scope/pkg@', '3.1.0', ['@scope/pkg@3.0.0'], ['major'])).toEqual([
+            { tagName: '@scope/pkg@3', newerTag: null },
+        ]);
+    });
+
+    it('should not plan anything for prerelease versions', () => {
+        expect(planFloatingTags('v', '2.0.0-rc.2', tags, ['major', 'minor'])).toEqual([]);
+    });
+});
@@ -1,17 +1,48 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
 import { 
     determineReleaseDecision, 
     getChangelogWithFallback, 
     parseInputs,
     getCurrentVersion,
     extractChangelog,
-    createGitHubRelease,
+    resolvePrerelease,
+    parseChangelogParser,
+    parseChangelogFallback,
+    parseTagBackend,
+    createReleaseProvider,
+    parseVersionDetection,
+    getVersionAtRef,
+    getPreviousSha,
+    extractChangelogEntry,
+    getChangelogSectionOutputs,
+    loadReleaseBodyTemplate,
+    validateChangelogFile,
+    promoteUnreleasedChangelog,
+    resolveReleaseAssets,
+    describeReleaseDecision,
+    rollBackRelease,
+    generateReleaseCredits,
+    writeJobSummary,
+    PackageReleaseResult,
+    uploadReleaseAssets,
+    ReleaseContext,
     run,
+    ReleaseConfig,
 } from '../src/index';
 import * as core from '@actions/core';
 import * as github from '@actions/github';
+import * as actionsExec from '@actions/exec';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { AddressInfo } from 'net';
 import { FileService } from '../src/services/file.service';
+import { DEFAULT_COMMIT_GROUPS } from '../src/release-notes';
 import { GitService } from '../src/services/git.service';
+import { GitHubReleaseProvider } from '../src/providers/github-release.provider';
+import { GitLabReleaseProvider } from '../src/providers/gitlab-release.provider';
+import { GiteaReleaseProvider } from '../src/providers/gitea-release.provider';
 
 describe('parseInputs', () => {
     let mockGetInput: any;
@@ -34,11 +65,58 @@ describe('parseInputs', () => {
 
         expect(config).toEqual({
             githubToken: 'test-token',
-            packageJsonPath: 'package.json',
+            versionFilePath: 'package.json',
+            versionSource: 'auto',
+            versionPattern: '',
+            versionDetection: 'tag',
             changelogPath: 'CHANGELOG.md',
+            changelogParser: 'structured',
+            changelogSectionOrder: [],
+            validateChangelog: false,
+            failOnMissingChangelog: false,
+            promoteUnreleased: false,
+            changelogFallback: 'message',
+            commitGroups: DEFAULT_COMMIT_GROUPS,
+            commitAuthors: false,
+            contributors: false,
+            botPattern: /\[bot\]$/i,
+            assets: [],
             tagPrefix: 'v',
+            releaseNameTemplate: '{{tag}}',
+            tagMessageTemplate: 'Release {{tag}}',
+            releaseBodyTemplate: '{{changelog}}',
+            releaseBodyHeaderFile: '',
+            releaseBodyFooterFile: '',
+            fullChangelogLink: false,
+            tagBackend: 'git',
+            releaseProvider: 'github',
+            providerUrl: '',
+            providerToken: '',
+            providerRepository: '',
+            gitUserName: '',
+            gitUserEmail: '',
+            signingKey: '',
+            signingKeyPassphrase: '',
+            signingFormat: 'gpg',
+            floatingTags: [],
+            notifiers: [],
+            notificationRetries: 2,
+            updateIssues: false,
+            issueReferencesFromCommits: false,
+            releasedLabel: 'released',
+            issueRepositories: [],
+            closeMilestone: false,
             createDraft: false,
             createPrerelease: false,
+            autoPrerelease: false,
+            prereleaseIdentifiers: [],
+            prereleaseZeroMajor: false,
+            packages: [],
+            tagScheme: '{{name}}@{{version}}',
+            downgradePolicy: 'error',
+            dryRun: false,
+            updateExistingRelease: false,
+            keepTagOnFailure: false,
         });
     });
 
@@ -48,9 +126,54 @@ describe('parseInputs', () => {
                 case 'github-token': return 'custom-token';
                 case 'package-json-path': return 'custom/package.json';
                 case 'changelog-path': return 'docs/CHANGELOG.md';
+                case 'changelog-parser': return 'raw';
+                case 'changelog-section-order': return 'Security, Fixed,,Added';
+                case 'validate-changelog': return 'true';
+                case 'fail-on-missing-changelog': return 'true';
+                case 'promote-unreleased': return 'true';
+                case 'changelog-fallback': return 'commits';
+                case 'commit-groups': return 'feat: New\nfix, perf: Fixes';
+                case 'commit-authors': return 'true';
+                case 'contributors': return 'true';
+                case 'bot-pattern': return '^renovate';
+                case 'assets': return 'dist/*.zip | Binaries | application/zip\ndist/*.sig';
                 case 'tag-prefix': return 'release-';
+                case 'release-name-template': return '{{tag}} ({{date}})';
+                case 'tag-message-template': return 'Version {{version}}';
+                case 'release-body-template': return '{{changelog}}\n\n**Full Changelog**: {{compareUrl}}';
+                case 'release-body-header-file': return '.github/release-header.md';
+                case 'release-body-footer-file': return '.github/release-footer.md';
+                case 'full-changelog-link': return 'true';
+                case 'tag-backend': return 'api';
+                case 'release-provider': return 'gitlab';
+                case 'provider-url': return 'https://gitlab.example.com';
+                case 'provider-token': return 'gl-token';
+                case 'provider-repository': return 'group/project';
+                case 'version-detection': return 'file';
+                case 'git-user-name': return 'Release Bot';
+                case 'git-user-email': return 'release@example.com';
+                case 'signing-key': return 'KEY';
+                case 'signing-key-passphrase': return 'secret';
+                case 'signing-format': return 'ssh';
+                case 'floating-tags': return 'major, minor';
+                case 'slack-webhook-url': return 'https://hooks.slack.com/services/T0/B0/x';
+                case 'webhook-url': return 'http://localhost:8080/releases';
+                case 'notification-retries': return '0';
+                case 'update-issues': return 'true';
+                case 'issue-references-from-commits': return 'true';
+                case 'released-label': return 'shipped';
+                case 'issue-repositories': return 'owner/docs';
+                case 'close-milestone': return 'true';
                 case 'create-draft': return 'true';
                 case 'create-prerelease': return 'true';
+                case 'packages': return 'packages/*\n\n  apps/web  \n';
+                case 'tag-scheme': return '{{dir}}-v{{version}}';
+                case 'downgrade-policy': return 'warn';
+                case 'dry-run': return 'true';
+                case 'update-existing-release': return 'true';
+                case 'keep-tag-on-failure': return 'true';
+                case 'prerelease-identifiers': return 'alpha|beta, rc';
+                case 'prerelease-zero-major': return 'true';
                 default: return '';
             }
         });
@@ -59,11 +182,67 @@ describe('parseInputs', () => {
 
         expect(config).toEqual({
             githubToken: 'custom-token',
-            packageJsonPath: 'custom/package.json',
+            versionFilePath: 'custom/package.json',
+            versionSource: 'auto',
+            versionPattern: '',
+            versionDetection: 'file',
             changelogPath: 'docs/CHANGELOG.md',
+            changelogParser: 'raw',
+            changelogSectionOrder: ['Security', 'Fixed', 'Added'],
+            validateChangelog: true,
+            failOnMissingChangelog: true,
+            promoteUnreleased: true,
+            changelogFallback: 'commits',
+            commitGroups: [
+                { title: 'New', types: ['feat'] },
+                { title: 'Fixes', types: ['fix', 'perf'] },
+            ],
+            commitAuthors: true,
+            contributors: true,
+            botPattern: /^renovate/i,
+            assets: [
+                { pattern: 'dist/*.zip', label: 'Binaries', contentType: 'application/zip' },
+                { pattern: 'dist/*.sig', label: '', contentType: '' },
+            ],
             tagPrefix: 'release-',
+            releaseNameTemplate: '{{tag}} ({{date}})',
+            tagMessageTemplate: 'Version {{version}}',
+            releaseBodyTemplate: '{{changelog}}\n\n**Full Changelog**: {{compareUrl}}',
+            releaseBodyHeaderFile: '.github/release-header.md',
+            releaseBodyFooterFile: '.github/release-footer.md',
+            fullChangelogLink: true,
+            tagBackend: 'api',
+            releaseProvider: 'gitlab',
+            providerUrl: 'https://gitlab.example.com',
+            providerToken: 'gl-token',
+            providerRepository: 'group/project',
+            gitUserName: 'Release Bot',
+            gitUserEmail: 'release@example.com',
+            signingKey: 'KEY',
+            signingKeyPassphrase: 'secret',
+            signingFormat: 'ssh',
+            floatingTags: ['major', 'minor'],
+            notifiers: [
+                { kind: 'slack', url: 'https://hooks.slack.com/services/T0/B0/x' },
+                { kind: 'webhook', url: 'http://localhost:8080/releases' },
+            ],
+            notificationRetries: 0,
+            updateIssues: true,
+            issueReferencesFromCommits: true,
+            releasedLabel: 'shipped',
+            issueRepositories: ['owner/docs'],
+            closeMilestone: true,
             createDraft: true,
             createPrerelease: true,
+            autoPrerelease: false,
+            prereleaseIdentifiers: ['alpha', 'beta', 'rc'],
+            prereleaseZeroMajor: true,
+            packages: ['packages/*', 'apps/web'],
+            tagScheme: '{{dir}}-v{{version}}',
+            downgradePolicy: 'warn',
+            dryRun: true,
+            updateExistingRelease: true,
+            keepTagOnFailure: true,
         });
     });
 
@@ -80,6 +259,114 @@ describe('parseInputs', () => {
         expect(config.createDraft).toBe(false);
         expect(config.createPrerelease).toBe(false);
     });
+
+    it('should only require github-token for GitHub features', () => {
+        const inputs: Record<string, string> = { 'release-provider': 'gitlab', 'provider-token': 'gl-token' };
+        mockGetInput.mockImplementation((name: string) => inputs[name] ?? '');
+
+        expect(parseInputs()).toMatchObject({ githubToken: '', releaseProvider: 'gitlab' });
+
+        for (const input of ['contributors', 'update-issues', 'close-milestone']) {
+            mockGetInput.mockImplementation((name: string) => (name === input ? 'true' : inputs[name] ?? ''));
+            expect(() => parseInputs()).toThrow('Input required and not supplied: github-token');
+        }
+        mockGetInput.mockImplementation((name: string) => (name === 'tag-backend' ? 'api' : inputs[name] ?? ''));
+        expect(() => parseInputs()).toThrow('Input required and not supplied: github-token');
+    });
+
+    it('should throw error for boolean inputs that are neither true nor false', () => {
+        mockGetInput.mockImplementation((name: string) => {
+            if (name === 'github-token') return 'token';
+            if (name === 'dry-run') return 'yes';
+            return '';
+        });
+
+        expect(() => parseInputs()).toThrow('Invalid dry-run: yes. Expected true or false');
+    });
+
+    it('should enable automatic prerelease detection', () => {
+        mockGetInput.mockImplementation((name: string) => {
+            if (name === 'github-token') return 'token';
+            if (name === 'create-prerelease') return 'auto';
+            return '';
+        });
+
+        const config = parseInputs();
+
+        expect(config.createPrerelease).toBe(false);
+        expect(config.autoPrerelease).toBe(true);
+    });
+
+    it('should prefer version-file over the deprecated package-json-path input', () => {
+        mockGetInput.mockImplementation((name: string) => {
+            switch (name) {
+                case 'github-token': return 'token';
+                case 'version-file': return 'pyproject.toml';
+                case 'package-json-path': return 'package.json';
+                case 'version-source': return 'pyproject';
+                case 'version-pattern': return 'version = "(.+)"';
+                default: return '';
+            }
+        });
+
+        const config = parseInputs();
+
+        expect(config.versionFilePath).toBe('pyproject.toml');
+        expect(config.versionSource).toBe('pyproject');
+        expect(config.versionPattern).toBe('version = "(.+)"');
+    });
+
+    it('should throw error for unknown placeholders in templates', () => {
+        mockGetInput.mockImplementation((name: string) => {
+            if (name === 'github-token') return 'token';
+            if (name === 'release-name-template') return '{{tag}} - {{title}}';
+            return '';
+        });
+
+        expect(() => parseInputs()).toThrow('Unknown placeholder(s) in release-name-template: title');
+    });
+
+    it('should throw error for webhook URLs that are not http(s) without repeating them', () => {
+        mockGetInput.mockImplementation((name: string) => {
+            if (name === 'github-token') return 'token';
+            if (name === 'discord-webhook-url') return 'ftp://example.com/secret-token';
+            return '';
+        });
+
+        expect(() => parseInputs()).toThrow(/^Invalid discord-webhook-url: expected an http\(s\) URL$/);
+    });
+});
+
+describe('describeReleaseDecision', () => {
+    it('should describe releases by bump type', () => {
+        expect(describeReleaseDecision(determineReleaseDecision('1.0.0', null, 'v', false), false)).toBe(
+            'Release: first release'
+        );
+        expect(describeReleaseDecision(determineReleaseDecision('1.1.0', 'v1.0.0', 'v', false), false)).toBe(
+            'Release: minor version change'
+        );
+    });
+
+    it('should explain why there is no release', () => {
+        expect(describeReleaseDecision(determineReleaseDecision('1.0.0', 'v1.0.0', 'v', true), true)).toBe(
+            'No release: version unchanged'
+        );
+        expect(describeReleaseDecision(determineReleaseDecision('1.1.0', 'v1.0.0', 'v', true), true)).toBe(
+            'No release: tag v1.1.0 already exists'
+        );
+        expect(describeReleaseDecision(determineReleaseDecision('0.9.0', 'v1.0.0', 'v', false, 'skip'), false)).toBe(
+            'No release: version downgrade (downgrade-policy: skip)'
+        );
+    });
+
+    it('should describe recovered and updated releases', () => {
+        expect(describeReleaseDecision(determineReleaseDecision('1.0.0', 'v1.0.0', 'v', true, 'error', false), true)).toBe(
+            'Release: create the missing release for existing tag v1.0.0'
+        );
+        expect(
+            describeReleaseDecision(determineReleaseDecision('1.0.0', 'v1.0.0', 'v', true, 'error', true, true), true)
+        ).toBe('Release: update the existing release for tag v1.0.0');
+    });
 });
 
 describe('determineReleaseDecision', () => {
@@ -92,6 +379,8 @@ describe('determineReleaseDecision', () => {
                 shouldCreateRelease: true,
                 newTagName: 'v1.0.0',
                 currentVersion: '1.0.0',
+                bumpType: 'initial',
+                releaseAction: 'create',
             });
         });
 
@@ -113,6 +402,8 @@ describe('determineReleaseDecision', () => {
                 newTagName: 'v1.2.3',
                 currentVersion: '1.2.3',
                 latestVersion: '1.2.3',
+                bumpType: 'none',
+                releaseAction: 'none',
             });
         });
 
@@ -135,6 +426,8 @@ describe('determineReleaseDecision', () => {
                 newTagName: 'v1.3.0',
                 currentVersion: '1.3.0',
                 latestVersion: '1.2.3',
+                bumpType: 'minor',
+                releaseAction: 'create',
             });
         });
 
@@ -147,16 +440,52 @@ describe('determineReleaseDecision', () => {
                 newTagName: 'v1.3.0',
                 currentVersion: '1.3.0',
                 latestVersion: '1.2.3',
+                bumpType: 'minor',
+                releaseAction: 'none',
             });
         });
 
         it('should handle version downgrade', () => {
-            const result = determineReleaseDecision('1.0.0', 'v2.0.0', 'v', false);
+            const result = determineReleaseDecision('1.0.0', 'v2.0.0', 'v', false, 'warn');
 
             expect(result.versionChanged).toBe(true);
             expect(result.shouldCreateRelease).toBe(true);
             expect(result.currentVersion).toBe('1.0.0');
             expect(result.latestVersion).toBe('2.0.0');
+            expect(result.bumpType).toBe('downgrade');
+        });
+
+        it('should refuse a downgrade by default', () => {
+            expect(() => determineReleaseDecision('2.0.9', 'v2.1.0', 'v', false)).toThrow(
+                'Version downgrade detected: 2.0.9 is lower than the latest tagged version 2.1.0',
+            );
+        });
+
+        it('should skip a downgrade with the skip policy', () => {
+            const result = determineReleaseDecision('2.0.9', 'v2.1.0', 'v', false, 'skip');
+
+            expect(result.versionChanged).toBe(true);
+            expect(result.shouldCreateRelease).toBe(false);
+            expect(result.bumpType).toBe('downgrade');
+        });
+
+        it('should compare versions by semver precedence, not as strings', () => {
+            const result = determineReleaseDecision('1.10.0', 'v1.9.0', 'v', false);
+
+            expect(result.shouldCreateRelease).toBe(true);
+            expect(result.bumpType).toBe('minor');
+        });
+
+        it('should classify major and patch bumps', () => {
+            expect(determineReleaseDecision('2.0.0', 'v1.9.9', 'v', false).bumpType).toBe('major');
+            expect(determineReleaseDecision('1.9.10', 'v1.9.9', 'v', false).bumpType).toBe('patch');
+        });
+
+        it('should treat a stable release after its prerelease as an upgrade', () => {
+            const result = determineReleaseDecision('2.0.0', 'v2.0.0-rc.1', 'v', false);
+
+            expect(result.shouldCreateRelease).toBe(true);
+            expect(result.bumpType).toBe('major');
         });
 
         it('should handle prerelease versions', () => {
@@ -165,6 +494,38 @@ describe('determineReleaseDecision', () => {
             expect(result.versionChanged).toBe(true);
             expect(result.shouldCreateRelease).toBe(true);
             expect(result.newTagName).toBe('v2.0.0-beta.1');
+            expect(result.bumpType).toBe('prerelease');
+        });
+    });
+
+    describe('existing tag', () => {
+        it('should recover a tag without a release even when the version is unchanged', () => {
+            const result = determineReleaseDecision('1.2.3', 'v1.2.3', 'v', true, 'error', false);
+
+            expect(result).toEqual({
+                versionChanged: false,
+                shouldCreateRelease: true,
+                newTagName: 'v1.2.3',
+                currentVersion: '1.2.3',
+                latestVersion: '1.2.3',
+                bumpType: 'none',
+                releaseAction: 'recover',
+            });
+        });
+
+        it('should recover a tag newer than the latest one', () => {
+            const result = determineReleaseDecision('1.3.0', 'v1.2.3', 'v', true, 'error', false);
+
+            expect(result.versionChanged).toBe(true);
+            expect(result.releaseAction).toBe('recover');
+        });
+
+        it('should update an existing release only when enabled', () => {
+            expect(determineReleaseDecision('1.2.3', 'v1.2.3', 'v', true, 'error', true).releaseAction).toBe('none');
+
+            const result = determineReleaseDecision('1.2.3', 'v1.2.3', 'v', true, 'error', true, true);
+            expect(result.shouldCreateRelease).toBe(true);
+            expect(result.releaseAction).toBe('update');
         });
     });
 
@@ -181,6 +542,21 @@ describe('determineReleaseDecision', () => {
 
             expect(result.versionChanged).toBe(true);
             expect(result.currentVersion).toBe('1.0.0+build.123');
+            expect(result.bumpType).toBe('build');
+        });
+
+        it('should reject versions that are not valid semver', () => {
+            expect(() => determineReleaseDecision('1.0', 'v0.9.0', 'v', false)).toThrow(
+                'Version 1.0 is not a valid semantic version',
+            );
+        });
+
+        it('should treat a latest tag that is not semver like a first release', () => {
+            const result = determineReleaseDecision('1.0.0', 'v-legacy', 'v', false);
+
+            expect(result.shouldCreateRelease).toBe(true);
+            expect(result.bumpType).toBe('initial');
+            expect(result.latestVersion).toBe('-legacy');
         });
 
         it('should create correct tag name with special characters in version', () => {
@@ -189,6 +565,65 @@ describe('determineReleaseDecision', () => {
             expect(result.newTagName).toBe('v1.0.0-rc.1+20251104');
         });
     });
+
+    describe('previous version from the version file', () => {
+        it('should not release an unchanged version even without a matching tag', () => {
+            // e.g., after tag-prefix changed from "release-" to "v"
+            const result = determineReleaseDecision('1.2.0', 'release-1.2.0', 'v', false, 'error', false, false, '1.2.0');
+
+            expect(result.versionChanged).toBe(false);
+            expect(result.shouldCreateRelease).toBe(false);
+            expect(result.bumpType).toBe('none');
+        });
+
+        it('should release a changed version and classify the bump against the previous version', () => {
+            const result = determineReleaseDecision('1.3.0', null, 'v', false, 'error', false, false, '1.2.0');
+
+            expect(result.shouldCreateRelease).toBe(true);
+            expect(result.releaseAction).toBe('create');
+            expect(result.latestVersion).toBe('1.2.0');
+            expect(result.bumpType).toBe('minor');
+        });
+
+        it('should report downgrades against the previous version', () => {
+            expect(() => determineReleaseDecision('1.1.0', 'v1.0.0', 'v', false, 'error', false, false, '1.2.0')).toThrow(
+                'Version downgrade detected: 1.1.0 is lower than the previous version 1.2.0',
+            );
+        });
+    });
+});
+
+describe('resolvePrerelease', () => {
+    const baseConfig = {
+        createPrerelease: false,
+        autoPrerelease: true,
+        prereleaseIdentifiers: [],
+        prereleaseZeroMajor: false,
+    } as unknown as ReleaseConfig;
+
+    it('should use the static flag when auto mode is off', () => {
+        expect(resolvePrerelease({ ...baseConfig, autoPrerelease: false, createPrerelease: true }, '1.0.0')).toBe(true);
+        expect(resolvePrerelease({ ...baseConfig, autoPrerelease: false }, '1.0.0-beta.1')).toBe(false);
+    });
+
+    it('should mark any prerelease identifier as prerelease', () => {
+        expect(resolvePrerelease(baseConfig, '1.3.0-beta.2')).toBe(true);
+        expect(resolvePrerelease(baseConfig, '1.3.0')).toBe(false);
+    });
+
+    it('should only match configured identifiers', () => {
+        const config = { ...baseConfig, prereleaseIdentifiers: ['alpha', 'beta', 'rc'] };
+
+        expect(resolvePrerelease(config, '1.3.0-rc.1')).toBe(true);
+        expect(resolvePrerelease(config, '1.3.0-RC1')).toBe(true);
+        expect(resolvePrerelease(config, '1.3.0-hotfix.1')).toBe(false);
+    });
+
+    it('should optionally treat 0.x versions as prereleases', () => {
+        expect(resolvePrerelease(baseConfig, '0.4.0')).toBe(false);
+        expect(resolvePrerelease({ ...baseConfig, prereleaseZeroMajor: true }, '0.4.0')).toBe(true);
+        expect(resolvePrerelease({ ...baseConfig, prereleaseZeroMajor: true }, '1.0.0')).toBe(false);
+    });
 });
 
 describe('getChangelogWithFallback', () => {
@@ -298,6 +733,46 @@ describe('getCurrentVersion', () => {
 
         expect(version).toBe('1.0.0+build.123');
     });
+
+    it('should detect the version source from the file name', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('[package]\nname = "crate"\nversion = "0.4.1"\n');
+
+        const version = getCurrentVersion(fileService, 'Cargo.toml');
+
+        expect(version).toBe('0.4.1');
+    });
+
+    it('should use an explicit version source', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('2.3.4\n');
+
+        const version = getCurrentVersion(fileService, 'release.txt', 'version-file');
+
+        expect(version).toBe('2.3.4');
+    });
+
+    it('should use a version pattern against any file', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('__version__ = "5.0.0"\n');
+
+        const version = getCurrentVersion(fileService, 'src/pkg/__init__.py', 'auto', '__version__ = "(.+)"');
+
+        expect(version).toBe('5.0.0');
+    });
+
+    it('should name the version file in error messages', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('[project]\nname = "pkg"\n');
+
+        expect(() => getCurrentVersion(fileService, 'pyproject.toml'))
+            .toThrow('No version found in pyproject.toml');
+    });
+
+    it('should throw error when the version source cannot be detected', () => {
+        expect(() => getCurrentVersion(fileService, 'setup.cfg'))
+            .toThrow('Could not detect version source for setup.cfg');
+    });
 });
 
 describe('extractChangelog', () => {
@@ -350,218 +825,2304 @@ describe('extractChangelog', () => {
     });
 });
 
-describe('createGitHubRelease', () => {
-    it('should create release with correct parameters', async () => {
-        const mockCreateRelease = vi.fn().mockResolvedValue({
-            data: {
-                id: 12345,
-                html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0',
-            },
-        });
+describe('parseChangelogParser', () => {
+    it('should default to structured', () => {
+        expect(parseChangelogParser('')).toBe('structured');
+    });
 
-        const mockOctokit = {
-            rest: {
-                repos: {
-                    createRelease: mockCreateRelease,
-                },
-            },
-        } as any;
+    it('should accept raw', () => {
+        expect(parseChangelogParser('raw')).toBe('raw');
+    });
 
-        const result = await createGitHubRelease({
-            octokit: mockOctokit,
-            owner: 'owner',
-            repo: 'repo',
-            tagName: 'v1.0.0',
-            body: '## Changes\n- Feature 1',
-            draft: false,
-            prerelease: false,
-        });
+    it('should throw error for unknown parsers', () => {
+        expect(() => parseChangelogParser('markdown')).toThrow('Invalid changelog-parser: markdown');
+    });
+});
 
-        expect(mockCreateRelease).toHaveBeenCalledWith({
-            owner: 'owner',
-            repo: 'repo',
-            tag_name: 'v1.0.0',
-            name: 'v1.0.0',
-            body: '## Changes\n- Feature 1',
-            draft: false,
-            prerelease: false,
-        });
+describe('parseChangelogFallback', () => {
+    it('should default to message', () => {
+        expect(parseChangelogFallback('')).toBe('message');
+    });
 
-        expect(result).toEqual({
-            id: 12345,
-            htmlUrl: 'https://github.com/owner/repo/releases/tag/v1.0.0',
-        });
+    it('should accept commits', () => {
+        expect(parseChangelogFallback('commits')).toBe('commits');
     });
 
-    it('should create draft release when draft is true', async () => {
-        const mockCreateRelease = vi.fn().mockResolvedValue({
-            data: {
-                id: 54321,
-                html_url: 'https://github.com/test/test/releases/tag/v2.0.0',
-            },
-        });
+    it('should throw error for unknown fallbacks', () => {
+        expect(() => parseChangelogFallback('git')).toThrow('Invalid changelog-fallback: git');
+    });
+});
 
-        const mockOctokit = {
-            rest: {
-                repos: {
-                    createRelease: mockCreateRelease,
-                },
-            },
-        } as any;
+describe('parseVersionDetection', () => {
+    it('should default to tag', () => {
+        expect(parseVersionDetection('')).toBe('tag');
+    });
 
-        await createGitHubRelease({
-            octokit: mockOctokit,
-            owner: 'test',
-            repo: 'test',
-            tagName: 'v2.0.0',
-            body: 'Release notes',
-            draft: true,
-            prerelease: false,
-        });
+    it('should accept file', () => {
+        expect(parseVersionDetection('file')).toBe('file');
+    });
 
-        expect(mockCreateRelease).toHaveBeenCalledWith(
-            expect.objectContaining({
-                draft: true,
-            })
-        );
+    it('should throw error for unknown modes', () => {
+        expect(() => parseVersionDetection('commit')).toThrow('Invalid version-detection: commit. Expected one of: tag, file');
     });
+});
 
-    it('should create prerelease when prerelease is true', async () => {
-        const mockCreateRelease = vi.fn().mockResolvedValue({
-            data: {
-                id: 99999,
-                html_url: 'https://github.com/test/test/releases/tag/v3.0.0-beta',
-            },
-        });
+describe('getVersionAtRef', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
 
-        const mockOctokit = {
-            rest: {
-                repos: {
-                    createRelease: mockCreateRelease,
-                },
-            },
-        } as any;
+    it('should read the version from the file at the ref', async () => {
+        const gitService = new GitService();
+        const mockGetFile = vi.spyOn(gitService, 'getFileFromTag').mockResolvedValue('{"version": "1.2.0"}');
 
-        await createGitHubRelease({
-            octokit: mockOctokit,
-            owner: 'test',
-            repo: 'test',
-            tagName: 'v3.0.0-beta',
-            body: 'Beta release',
-            draft: false,
-            prerelease: true,
-        });
+        const version = await getVersionAtRef(gitService, 'v1.2.0', './packages/a/package.json');
 
-        expect(mockCreateRelease).toHaveBeenCalledWith(
-            expect.objectContaining({
-                prerelease: true,
-            })
-        );
+        expect(version).toBe('1.2.0');
+        expect(mockGetFile).toHaveBeenCalledWith('v1.2.0', 'packages/a/package.json');
     });
 
-    it('should handle custom tag prefix in release', async () => {
-        const mockCreateRelease = vi.fn().mockResolvedValue({
-            data: {
-                id: 11111,
-                html_url: 'https://github.com/owner/repo/releases/tag/release-1.0.0',
-            },
-        });
-
-        const mockOctokit = {
-            rest: {
-                repos: {
-                    createRelease: mockCreateRelease,
-                },
-            },
-        } as any;
+    it('should return null with a warning when the file cannot be read', async () => {
+        const gitService = new GitService();
+        vi.spyOn(gitService, 'getFileFromTag').mockRejectedValue(new Error('Failed to get package.json from tag abc123'));
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
 
-        const result = await createGitHubRelease({
-            octokit: mockOctokit,
-            owner: 'owner',
-            repo: 'repo',
-            tagName: 'release-1.0.0',
-            body: 'Release',
-            draft: false,
-            prerelease: false,
-        });
+        const version = await getVersionAtRef(gitService, 'abc123', 'package.json');
 
-        expect(mockCreateRelease).toHaveBeenCalledWith(
-            expect.objectContaining({
-                tag_name: 'release-1.0.0',
-                name: 'release-1.0.0',
-            })
+        expect(version).toBeNull();
+        expect(mockWarning).toHaveBeenCalledWith(
+            'Could not read the version from package.json at abc123: Failed to get package.json from tag abc123'
         );
-
-        expect(result.htmlUrl).toBe('https://github.com/owner/repo/releases/tag/release-1.0.0');
     });
+});
 
-    it('should propagate errors from GitHub API', async () => {
-        const mockCreateRelease = vi.fn().mockRejectedValue(
-            new Error('API rate limit exceeded')
-        );
+describe('getPreviousSha', () => {
+    const before = '9f2c1e0b7a6d5c4b3a291807f6e5d4c3b2a19080';
 
-        const mockOctokit = {
-            rest: {
-                repos: {
-                    createRelease: mockCreateRelease,
-                },
-            },
-        } as any;
+    it('should return the commit before a push', () => {
+        expect(getPreviousSha({ eventName: 'push', payload: { before } })).toBe(before);
+    });
 
-        await expect(createGitHubRelease({
-            octokit: mockOctokit,
-            owner: 'owner',
-            repo: 'repo',
-            tagName: 'v1.0.0',
-            body: 'Release',
-            draft: false,
-            prerelease: false,
-        })).rejects.toThrow('API rate limit exceeded');
+    it('should return null for other events and new branches', () => {
+        expect(getPreviousSha({ eventName: 'workflow_dispatch', payload: {} })).toBeNull();
+        expect(getPreviousSha({ eventName: 'push', payload: { before: '0'.repeat(40) } })).toBeNull();
     });
 });
 
-describe('run (integration tests)', () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-        // Mock GitHub context
-        vi.spyOn(github, 'context', 'get').mockReturnValue({
-            repo: {
-                owner: 'test-owner',
-                repo: 'test-repo',
-            },
-        } as any);
+describe('parseTagBackend', () => {
+    it('should default to git', () => {
+        expect(parseTagBackend('')).toBe('git');
     });
 
-    afterEach(() => {
-        vi.restoreAllMocks();
+    it('should accept api', () => {
+        expect(parseTagBackend('api')).toBe('api');
     });
 
-    it('should successfully create a release for first version', async () => {
-        // Mock inputs
-        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+    it('should throw error for unknown backends', () => {
+        expect(() => parseTagBackend('svn')).toThrow('Invalid tag-backend: svn');
+    });
+});
+
+describe('createReleaseProvider', () => {
+    const octokit = github.getOctokit('test-token');
+    const createConfig = (overrides: Partial<ReleaseConfig>): ReleaseConfig =>
+        ({
+            githubToken: 'test-token',
+            releaseProvider: 'github',
+            providerUrl: '',
+            providerToken: '',
+            providerRepository: '',
+            createDraft: false,
+            ...overrides,
+        }) as ReleaseConfig;
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should default to GitHub', () => {
+        expect(createReleaseProvider(createConfig({}), octokit, 'owner', 'repo', 'https://github.com')).toBeInstanceOf(GitHubReleaseProvider);
+    });
+
+    it('should create a GitLab provider for gitlab.com and nested projects', () => {
+        const provider = createReleaseProvider(
+            createConfig({ releaseProvider: 'gitlab', providerRepository: 'group/sub/project' }),
+            octokit,
+            'owner',
+            'repo',
+            'https://github.com'
+        );
+
+        expect(provider).toBeInstanceOf(GitLabReleaseProvider);
+        expect(provider.label).toBe('GitLab');
+        expect(provider.repository).toBe('group/sub/project');
+        expect(provider.getCompareUrl('v1.0.0', 'v1.1.0')).toBe('https://gitlab.com/group/sub/project/-/compare/v1.0.0...v1.1.0');
+    });
+
+    it('should create a Gitea provider for the workflow repository', () => {
+        const provider = createReleaseProvider(
+            createConfig({ releaseProvider: 'gitea', providerUrl: 'https://codeberg.org' }),
+            octokit,
+            'owner',
+            'repo',
+            'https://github.com'
+        );
+
+        expect(provider).toBeInstanceOf(GiteaReleaseProvider);
+        expect(provider.getCompareUrl('v1.0.0', 'v1.1.0')).toBe('https://codeberg.org/owner/repo/compare/v1.0.0...v1.1.0');
+    });
+
+    it('should throw error without a Gitea URL or with an invalid URL', () => {
+        expect(() => createReleaseProvider(createConfig({ releaseProvider: 'gitea' }), octokit, 'owner', 'repo', 'https://github.com')).toThrow(
+            'provider-url is required for release-provider: gitea'
+        );
+        expect(() =>
+            createReleaseProvider(createConfig({ releaseProvider: 'gitea', providerUrl: 'ftp://git.example.com' }), octokit, 'owner', 'repo', 'https://github.com')
+        ).toThrow('Invalid provider-url: ftp://git.example.com. Expected an http(s) URL');
+    });
+
+    it('should throw error without a provider token or GitHub token', () => {
+        expect(() =>
+            createReleaseProvider(
+                createConfig({ releaseProvider: 'gitea', providerUrl: 'https://codeberg.org', githubToken: '' }),
+                octokit,
+                'owner',
+                'repo',
+                'https://github.com'
+            )
+        ).toThrow('provider-token is required for release-provider: gitea');
+    });
+
+    it('should throw error for invalid repositories', () => {
+        expect(() =>
+            createReleaseProvider(
+                createConfig({ releaseProvider: 'gitea', providerUrl: 'https://codeberg.org', providerRepository: 'group/sub/project' }),
+                octokit,
+                'owner',
+                'repo',
+                'https://github.com'
+            )
+        ).toThrow('Invalid provider-repository: group/sub/project. Expected "owner/repo"');
+    });
+
+    it('should throw error for drafts and prereleases on GitLab', () => {
+        expect(() =>
+            createReleaseProvider(createConfig({ releaseProvider: 'gitlab', createDraft: true }), octokit, 'owner', 'repo', 'https://github.com')
+        ).toThrow('create-draft is not supported by release-provider: gitlab');
+        expect(() =>
+            createReleaseProvider(createConfig({ releaseProvider: 'gitlab', createPrerelease: true }), octokit, 'owner', 'repo', 'https://github.com')
+        ).toThrow('create-prerelease is not supported by release-provider: gitlab, which has no prereleases');
+    });
+
+    it('should warn that automatic prereleases only affect floating tags on GitLab', () => {
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        createReleaseProvider(createConfig({ releaseProvider: 'gitlab', autoPrerelease: true }), octokit, 'owner', 'repo', 'https://github.com');
+
+        expect(mockWarning).toHaveBeenCalledWith(
+            'GitLab has no prereleases: create-prerelease: auto only sets the prerelease output and keeps floating tags from moving'
+        );
+    });
+});
+
+describe('extractChangelogEntry', () => {
+    let fileService: FileService;
+
+    beforeEach(() => {
+        fileService = new FileService();
+    });
+
+    it('should return null when changelog file does not exist', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(false);
+
+        expect(extractChangelogEntry(fileService, 'CHANGELOG.md', '1.0.0')).toBeNull();
+    });
+
+    it('should return the parsed entry for the version', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('## [1.2.3] - 2025-11-05\n\n### Fixed\n\n- Bug\n');
+
+        const entry = extractChangelogEntry(fileService, 'CHANGELOG.md', '1.2.3');
+
+        expect(entry?.date).toBe('2025-11-05');
+        expect(entry?.sections[0].items).toEqual(['Bug']);
+    });
+
+    it('should return null when version not found', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('## [1.0.0]\n- Old version');
+
+        expect(extractChangelogEntry(fileService, 'CHANGELOG.md', '2.0.0')).toBeNull();
+    });
+});
+
+describe('validateChangelogFile', () => {
+    let fileService: FileService;
+
+    beforeEach(() => {
+        fileService = new FileService();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should pass a valid changelog', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('## [1.0.0] - 2025-11-04\n\n- Initial release\n');
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        expect(() => validateChangelogFile(fileService, 'CHANGELOG.md', '1.0.0')).not.toThrow();
+        expect(mockInfo).toHaveBeenCalledWith('📋 CHANGELOG.md passed validation');
+    });
+
+    it('should annotate problems and throw on errors', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue(
+            '## [Unreleased]\n\n## [1.0.0] - 2025-11-04\n\n- A\n\n## [1.0.0] - 2025-11-04\n\n- B\n',
+        );
+        const mockError = vi.spyOn(core, 'error').mockImplementation(() => {});
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        expect(() => validateChangelogFile(fileService, 'docs/CHANGELOG.md', '1.1.0')).toThrow(
+            'Changelog validation failed with 2 error(s) in docs/CHANGELOG.md',
+        );
+        expect(mockError).toHaveBeenCalledWith('No entry found for version 1.1.0', {
+            title: 'Changelog validation',
+            file: 'docs/CHANGELOG.md',
+            startLine: 1,
+        });
+        expect(mockError).toHaveBeenCalledWith('Duplicate entry for 1.0.0 (first defined on line 3)', {
+            title: 'Changelog validation',
+            file: 'docs/CHANGELOG.md',
+            startLine: 7,
+        });
+        expect(mockWarning).toHaveBeenCalledWith('Unreleased section is empty', {
+            title: 'Changelog validation',
+            file: 'docs/CHANGELOG.md',
+            startLine: 1,
+        });
+    });
+
+    it('should throw when the changelog does not exist', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(false);
+        vi.spyOn(core, 'error').mockImplementation(() => {});
+
+        expect(() => validateChangelogFile(fileService, 'CHANGELOG.md', '1.0.0')).toThrow(
+            'Changelog validation failed: CHANGELOG.md not found',
+        );
+    });
+});
+
+describe('promoteUnreleasedChangelog', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should not write or commit when there is nothing to promote', async () => {
+        const fileService = new FileService();
+        const gitService = new GitService();
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('## [1.1.0] - 2025-11-05\n\n- Fix\n');
+        const mockWriteFile = vi.spyOn(fileService, 'writeFile').mockImplementation(() => {});
+        const mockCommit = vi.spyOn(gitService, 'commitAndPush').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        const promoted = await promoteUnreleasedChangelog(fileService, gitService, 'CHANGELOG.md', '1.1.0', 'v1.1.0');
+
+        expect(promoted).toBe(false);
+        expect(mockWriteFile).not.toHaveBeenCalled();
+        expect(mockCommit).not.toHaveBeenCalled();
+    });
+
+    it('should return false when the changelog does not exist', async () => {
+        const fileService = new FileService();
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(false);
+
+        const promoted = await promoteUnreleasedChangelog(
+            fileService,
+            new GitService(),
+            'CHANGELOG.md',
+            '1.1.0',
+            'v1.1.0',
+        );
+
+        expect(promoted).toBe(false);
+    });
+});
+
+describe('loadReleaseBodyTemplate', () => {
+    const config = {
+        releaseBodyTemplate: '{{changelog}}',
+        releaseBodyHeaderFile: '.github/release-header.md',
+        releaseBodyFooterFile: '.github/release-footer.md',
+    } as ReleaseConfig;
+    let fileService: FileService;
+
+    beforeEach(() => {
+        fileService = new FileService();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should return the body template without header and footer files', () => {
+        const template = loadReleaseBodyTemplate(fileService, {
+            ...config,
+            releaseBodyHeaderFile: '',
+            releaseBodyFooterFile: '',
+        });
+
+        expect(template).toBe('{{changelog}}');
+    });
+
+    it('should surround the body template with the header and footer files', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockImplementation((path: string) =>
+            path.includes('header') ? '# {{tag}}\n' : '\n[Compare]({{compareUrl}})\n'
+        );
+
+        expect(loadReleaseBodyTemplate(fileService, config)).toBe('# {{tag}}\n\n{{changelog}}\n\n[Compare]({{compareUrl}})');
+    });
+
+    it('should throw when a template file does not exist', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(false);
+
+        expect(() => loadReleaseBodyTemplate(fileService, config)).toThrow(
+            'release-body-header-file not found: .github/release-header.md'
+        );
+    });
+
+    it('should throw for unknown placeholders in a template file', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('Thanks {{contributors}}');
+
+        expect(() => loadReleaseBodyTemplate(fileService, config)).toThrow(
+            'Unknown placeholder(s) in release-body-header-file .github/release-header.md: contributors'
+        );
+    });
+});
+
+describe('getChangelogSectionOutputs', () => {
+    it('should key rendered items by section slug and skip empty sections', () => {
+        const outputs = getChangelogSectionOutputs({
+            version: '1.0.0',
+            yanked: false,
+            line: 1,
+            description: '',
+            sections: [
+                { title: 'Added', standard: true, notes: '', items: ['A', 'B'] },
+                { title: 'Fixed', standard: true, notes: '', items: [] },
+                { title: 'Breaking Changes', standard: false, notes: '', items: ['C'] },
+            ],
+        });
+
+        expect(outputs).toEqual({ added: '- A\n- B', 'breaking-changes': '- C' });
+    });
+
+    it('should return an empty object without an entry', () => {
+        expect(getChangelogSectionOutputs(null)).toEqual({});
+    });
+});
+
+describe('generateReleaseCredits', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should skip the credits of a GitLab project in subgroups', async () => {
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        const mockGetCommits = vi.spyOn(GitService.prototype, 'getCommits');
+        const context = { gitService: new GitService(), owner: 'group/sub', repo: 'project' } as ReleaseContext;
+
+        expect(await generateReleaseCredits(context, 'v1.0.0', '.')).toBe('');
+        expect(mockGetCommits).not.toHaveBeenCalled();
+        expect(mockWarning).toHaveBeenCalledWith('Not crediting contributors: group/sub/project is not a GitHub repository');
+    });
+});
+
+describe('rollBackRelease', () => {
+    const release = { id: 42, htmlUrl: 'https://github.com/owner/repo/releases/tag/v1.0.0', uploadUrl: '' };
+    let mockDeleteRelease: ReturnType<typeof vi.fn>;
+    let mockDeleteTag: ReturnType<typeof vi.spyOn>;
+
+    const createContext = (keepTagOnFailure = false): ReleaseContext =>
+        ({
+            config: { keepTagOnFailure } as ReleaseConfig,
+            gitService: new GitService(),
+            fileService: new FileService(),
+            octokit: { rest: { repos: { deleteRelease: mockDeleteRelease } } } as any,
+            releaseProvider: new GitHubReleaseProvider({
+                octokit: { rest: { repos: { deleteRelease: mockDeleteRelease } } } as any,
+                owner: 'owner',
+                repo: 'repo',
+            }),
+            owner: 'owner',
+            repo: 'repo',
+        });
+
+    beforeEach(() => {
+        mockDeleteRelease = vi.fn().mockResolvedValue({});
+        mockDeleteTag = vi.spyOn(GitService.prototype, 'deleteTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should delete the created release and tag', async () => {
+        const cause = new Error('Upload failed');
+
+        const error = await rollBackRelease(createContext(), { tagName: 'v1.0.0', tagCreated: true, release }, cause);
+
+        expect(mockDeleteRelease).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', release_id: 42 });
+        expect(mockDeleteTag).toHaveBeenCalledWith('v1.0.0');
+        expect(error.message).toBe('Upload failed (rollback: deleted release 42, deleted tag v1.0.0)');
+        expect(error.cause).toBe(cause);
+    });
+
+    it('should keep the tag with keep-tag-on-failure', async () => {
+        const error = await rollBackRelease(
+            createContext(true),
+            { tagName: 'v1.0.0', tagCreated: true, release: null },
+            new Error('API rate limit exceeded'),
+        );
+
+        expect(mockDeleteTag).not.toHaveBeenCalled();
+        expect(error.message).toBe('API rate limit exceeded (rollback: kept tag v1.0.0 (keep-tag-on-failure))');
+    });
+
+    it('should report failed rollback steps and continue with the next one', async () => {
+        mockDeleteRelease.mockRejectedValue(new Error('Forbidden'));
+        mockDeleteTag.mockRejectedValue(new Error('remote rejected'));
+
+        const error = await rollBackRelease(
+            createContext(),
+            { tagName: 'v1.0.0', tagCreated: true, release },
+            new Error('Upload failed'),
+        );
+
+        expect(mockDeleteTag).toHaveBeenCalled();
+        expect(error.message).toBe(
+            'Upload failed (rollback: failed to delete release 42: Forbidden, failed to delete tag v1.0.0: remote rejected)'
+        );
+    });
+
+    it('should return the original error when nothing was created', async () => {
+        const cause = new Error('API rate limit exceeded');
+
+        const error = await rollBackRelease(createContext(), { tagName: 'v1.0.0', tagCreated: false, release: null }, cause);
+
+        expect(error).toBe(cause);
+        expect(mockDeleteRelease).not.toHaveBeenCalled();
+        expect(mockDeleteTag).not.toHaveBeenCalled();
+    });
+
+    it('should also delete the tag on GitLab and Gitea', async () => {
+        const mockDeleteProviderRelease = vi.spyOn(GitLabReleaseProvider.prototype, 'deleteRelease').mockResolvedValue();
+        const mockDeleteProviderTag = vi.spyOn(GitLabReleaseProvider.prototype, 'deleteTag').mockResolvedValue(true);
+        const context = {
+            ...createContext(),
+            releaseProvider: new GitLabReleaseProvider({ baseUrl: 'https://gitlab.example.com', token: 'token', project: 'owner/repo' }),
+        };
+
+        const error = await rollBackRelease(
+            context,
+            { tagName: 'v1.0.0', tagCreated: true, release: { id: 'v1.0.0', htmlUrl: '', uploadUrl: '' } },
+            new Error('Upload failed'),
+        );
+
+        expect(mockDeleteProviderRelease).toHaveBeenCalled();
+        expect(mockDeleteTag).toHaveBeenCalledWith('v1.0.0');
+        expect(mockDeleteProviderTag).toHaveBeenCalledWith('v1.0.0');
+        expect(error.message).toBe('Upload failed (rollback: deleted release v1.0.0, deleted tag v1.0.0, deleted GitLab tag v1.0.0)');
+    });
+
+    it('should report a failed tag deletion on the provider', async () => {
+        vi.spyOn(GiteaReleaseProvider.prototype, 'deleteTag').mockRejectedValue(new Error('Forbidden'));
+        const context = {
+            ...createContext(),
+            releaseProvider: new GiteaReleaseProvider({ baseUrl: 'https://gitea.example.com', token: 'token', owner: 'owner', repo: 'repo' }),
+        };
+
+        const error = await rollBackRelease(context, { tagName: 'v1.0.0', tagCreated: true, release: null }, new Error('Upload failed'));
+
+        expect(error.message).toBe('Upload failed (rollback: deleted tag v1.0.0, failed to delete Gitea tag v1.0.0: Forbidden)');
+    });
+
+    it('should keep the tag on the provider with keep-tag-on-failure', async () => {
+        const mockDeleteProviderTag = vi.spyOn(GitLabReleaseProvider.prototype, 'deleteTag').mockResolvedValue(true);
+        const context = {
+            ...createContext(true),
+            releaseProvider: new GitLabReleaseProvider({ baseUrl: 'https://gitlab.example.com', token: 'token', project: 'owner/repo' }),
+        };
+
+        await rollBackRelease(context, { tagName: 'v1.0.0', tagCreated: true, release: null }, new Error('Upload failed'));
+
+        expect(mockDeleteProviderTag).not.toHaveBeenCalled();
+    });
+});
+
+describe('resolveReleaseAssets', () => {
+    let fileService: FileService;
+
+    beforeEach(() => {
+        fileService = new FileService();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should expand patterns relative to the directory with labels and content types', async () => {
+        const mockFindFiles = vi.spyOn(fileService, 'findFiles').mockImplementation(async ([pattern]) =>
+            pattern.endsWith('*.zip') ? ['packages/cli/dist/cli.zip', 'packages/cli/dist/docs.zip'] : ['packages/cli/dist/cli.zip'],
+        );
+
+        const result = await resolveReleaseAssets(
+            fileService,
+            [
+                { pattern: 'dist/*.zip', label: 'Archive', contentType: '' },
+                { pattern: 'dist/cli.*', label: 'Ignored', contentType: 'text/plain' },
+            ],
+            'packages/cli',
+        );
+
+        expect(mockFindFiles).toHaveBeenCalledWith(['packages/cli/dist/*.zip']);
+        expect(result).toEqual([
+            { filePath: 'packages/cli/dist/cli.zip', name: 'cli.zip', label: 'Archive', contentType: 'application/zip' },
+            { filePath: 'packages/cli/dist/docs.zip', name: 'docs.zip', label: 'Archive', contentType: 'application/zip' },
+        ]);
+    });
+
+    it('should apply exclusion patterns to every other pattern', async () => {
+        const mockFindFiles = vi.spyOn(fileService, 'findFiles').mockResolvedValue(['packages/cli/dist/cli.zip']);
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        const result = await resolveReleaseAssets(
+            fileService,
+            [
+                { pattern: 'dist/*', label: '', contentType: '' },
+                { pattern: '!dist/*.map', label: '', contentType: '' },
+            ],
+            'packages/cli',
+        );
+
+        expect(mockFindFiles).toHaveBeenCalledTimes(1);
+        expect(mockFindFiles).toHaveBeenCalledWith(['packages/cli/dist/*', '!packages/cli/dist/*.map']);
+        expect(result.map((file) => file.name)).toEqual(['cli.zip']);
+        expect(mockWarning).not.toHaveBeenCalled();
+    });
+
+    it('should warn about patterns without matches', async () => {
+        vi.spyOn(fileService, 'findFiles').mockResolvedValue([]);
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        const result = await resolveReleaseAssets(fileService, [{ pattern: 'out/*', label: '', contentType: '' }], '.');
+
+        expect(result).toEqual([]);
+        expect(mockWarning).toHaveBeenCalledWith('No files found for asset pattern: out/*');
+    });
+
+    it('should throw error for files with the same name', async () => {
+        vi.spyOn(fileService, 'findFiles').mockResolvedValue(['linux/app.tar.gz', 'mac/app.tar.gz']);
+
+        await expect(
+            resolveReleaseAssets(fileService, [{ pattern: '*/app.tar.gz', label: '', contentType: '' }], '.'),
+        ).rejects.toThrow('Duplicate asset name app.tar.gz: linux/app.tar.gz and mac/app.tar.gz');
+    });
+
+    it('should throw error for a file named like the checksums file', async () => {
+        vi.spyOn(fileService, 'findFiles').mockResolvedValue(['dist/SHA256SUMS']);
+
+        await expect(
+            resolveReleaseAssets(fileService, [{ pattern: 'dist/*', label: '', contentType: '' }], '.'),
+        ).rejects.toThrow('Asset name SHA256SUMS is reserved for the generated checksums');
+    });
+});
+
+describe('uploadReleaseAssets', () => {
+    interface ReceivedUpload {
+        url: string;
+        contentType: string;
+        body: string;
+    }
+
+    let server: http.Server;
+    let baseUrl: string;
+    let received: ReceivedUpload[];
+
+    // Local stand-in for the uploads API
+    beforeEach(async () => {
+        received = [];
+        server = http.createServer((request, response) => {
+            const chunks: Buffer[] = [];
+            request.on('data', (chunk: Buffer) => chunks.push(chunk));
+            request.on('end', () => {
+                received.push({
+                    url: request.url ?? '',
+                    contentType: request.headers['content-type'] ?? '',
+                    body: Buffer.concat(chunks).toString('utf8'),
+                });
+                const name = new URL(request.url ?? '', baseUrl).searchParams.get('name');
+                response.writeHead(201, { 'content-type': 'application/json' });
+                response.end(
+                    JSON.stringify({
+                        id: received.length,
+                        name,
+                        browser_download_url: `https://github.com/owner/repo/releases/download/v1.0.0/${name}`,
+                    }),
+                );
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should upload every file and a SHA256SUMS file to the upload URL', async () => {
+        const fileService = new FileService();
+        vi.spyOn(fileService, 'readFileBuffer').mockImplementation((filePath: string) =>
+            Buffer.from(filePath === 'dist/app.zip' ? 'zip-content' : 'sig-content'),
+        );
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        const context = {
+            fileService,
+            releaseProvider: new GitHubReleaseProvider({
+                octokit: github.getOctokit('test-token'),
+                owner: 'owner',
+                repo: 'repo',
+            }),
+            owner: 'owner',
+            repo: 'repo',
+        } as unknown as ReleaseContext;
+
+        const assets = await uploadReleaseAssets(
+            context,
+            {
+                id: 7,
+                htmlUrl: 'https://github.com/owner/repo/releases/tag/v1.0.0',
+                uploadUrl: `${baseUrl}/repos/owner/repo/releases/7/assets{?name,label}`,
+            },
+            [
+                { filePath: 'dist/app.zip', name: 'app.zip', label: 'App', contentType: 'application/zip' },
+                { filePath: 'dist/app.sig', name: 'app.sig', label: '', contentType: 'application/octet-stream' },
+            ],
+        );
+
+        expect(received).toEqual([
+            {
+                url: '/repos/owner/repo/releases/7/assets?name=app.zip&label=App',
+                contentType: 'application/zip',
+                body: 'zip-content',
+            },
+            {
+                url: '/repos/owner/repo/releases/7/assets?name=app.sig&',
+                contentType: 'application/octet-stream',
+                body: 'sig-content',
+            },
+            {
+                url: '/repos/owner/repo/releases/7/assets?name=SHA256SUMS&',
+                contentType: 'text/plain',
+                body:
+                    'daf4e16539491123bf4112eb538caad1692406c99e79aed45789f25452c22108  app.zip\n' +
+                    '7ea18a3aeb6de3738c621c13403ea31822a5fc924aecfc4ada8a4cbd3e719ff3  app.sig\n',
+            },
+        ]);
+        expect(assets).toEqual([
+            { id: 1, name: 'app.zip', url: 'https://github.com/owner/repo/releases/download/v1.0.0/app.zip' },
+            { id: 2, name: 'app.sig', url: 'https://github.com/owner/repo/releases/download/v1.0.0/app.sig' },
+            { id: 3, name: 'SHA256SUMS', url: 'https://github.com/owner/repo/releases/download/v1.0.0/SHA256SUMS' },
+        ]);
+    });
+});
+
+describe('writeJobSummary', () => {
+    let summaryDir: string;
+    let summaryFile: string;
+
+    // core.summary remembers the file path of its first write, so all tests share one file
+    beforeAll(() => {
+        summaryDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'summary-'));
+        summaryFile = nodePath.join(summaryDir, 'summary.md');
+    });
+
+    beforeEach(() => {
+        fs.writeFileSync(summaryFile, '');
+        vi.stubEnv('GITHUB_STEP_SUMMARY', summaryFile);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    afterAll(() => {
+        fs.rmSync(summaryDir, { recursive: true, force: true });
+    });
+
+    const released: PackageReleaseResult = {
+        name: '',
+        directory: '.',
+        version: '1.1.0',
+        previousVersion: '1.0.0',
+        tagName: 'v1.1.0',
+        versionChanged: true,
+        bumpType: 'minor',
+        decision: 'Release: minor version change',
+        draft: true,
+        prerelease: false,
+        releaseCreated: true,
+        releaseId: 1,
+        releaseUrl: 'https://github.com/owner/repo/releases/tag/v1.1.0',
+        changelogSource: 'commits',
+        body: '### Features\n\n- <b>bold</b> idea (abc1234)',
+        floatingTags: ['v1', 'v1.1'],
+    };
+
+    it('should write a table with the release details and a body preview', async () => {
+        await writeJobSummary([released], false);
+
+        const summary = fs.readFileSync(summaryFile, 'utf8');
+        expect(summary).toContain('<h2>🚀 Auto Release</h2>');
+        expect(summary).toContain('<tr><td>Status</td><td>✅ Released</td></tr>');
+        expect(summary).toContain('<tr><td>Current version</td><td>1.1.0</td></tr>');
+        expect(summary).toContain('<tr><td>Previous version</td><td>1.0.0</td></tr>');
+        expect(summary).toContain('<tr><td>Decision</td><td>Release: minor version change</td></tr>');
+        expect(summary).toContain('<tr><td>Tag</td><td><code>v1.1.0</code></td></tr>');
+        expect(summary).toContain('<tr><td>Floating tags</td><td><code>v1</code>, <code>v1.1</code></td></tr>');
+        expect(summary).toContain(
+            '<tr><td>Release</td><td><a href="https://github.com/owner/repo/releases/tag/v1.1.0">https://github.com/owner/repo/releases/tag/v1.1.0</a></td></tr>'
+        );
+        expect(summary).toContain('<tr><td>Draft</td><td>yes</td></tr>');
+        expect(summary).toContain('<tr><td>Changelog source</td><td>Generated from commits</td></tr>');
+        expect(summary).toContain(
+            '<details><summary>Release body</summary>\n\n### Features\n\n- <b>bold</b> idea (abc1234)\n\n</details>'
+        );
+    });
+
+    it('should report failures and per-package headings in dry runs', async () => {
+        const failed: PackageReleaseResult = {
+            ...released,
+            name: '@acme/<ui>',
+            releaseCreated: false,
+            releaseUrl: undefined,
+            body: undefined,
+            error: 'No version found in package.json',
+        };
+
+        await writeJobSummary([{ ...released, name: '@acme/core', releaseUrl: undefined }, failed], true, 'Release failed for: @acme/<ui>');
+
+        const summary = fs.readFileSync(summaryFile, 'utf8');
+        expect(summary).toContain('<h2>🧪 Auto Release (dry run)</h2>');
+        expect(summary).toContain('<p>❌ <strong>Failed:</strong> Release failed for: @acme/&lt;ui&gt;</p>');
+        expect(summary).toContain('<h3>@acme/core</h3>');
+        expect(summary).toContain('<tr><td>Status</td><td>🧪 Would release</td></tr>');
+        expect(summary).toContain('<tr><td>Release</td><td>—</td></tr>');
+        expect(summary).toContain('<h3>@acme/&lt;ui&gt;</h3>');
+        expect(summary).toContain('<tr><td>Status</td><td>❌ Failed</td></tr>');
+        expect(summary).toContain('<tr><td>Decision</td><td>No version found in package.json</td></tr>');
+    });
+
+    it('should warn instead of failing when the summary cannot be written', async () => {
+        vi.spyOn(core.summary, 'write').mockRejectedValue(new Error('Unable to find environment variable'));
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        await writeJobSummary([released], false);
+
+        expect(mockWarning).toHaveBeenCalledWith('Failed to write job summary: Unable to find environment variable');
+        expect(core.summary.isEmptyBuffer()).toBe(true);
+    });
+});
+
+describe('run (integration tests)', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        // Mock GitHub context
+        vi.spyOn(github, 'context', 'get').mockReturnValue({
+            repo: {
+                owner: 'test-owner',
+                repo: 'test-repo',
+            },
+        } as any);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should successfully create a release for first version', async () => {
+        // Mock inputs
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        // Mock file operations
+        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => {
+            return path.includes('package.json') || path.includes('CHANGELOG.md');
+        });
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.0.0"}';
+            return '## [1.0.0]\n- Initial release';
+        });
+
+        // Mock git operations
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        // Mock GitHub API
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 123,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0',
+            },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        // Mock core functions
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                owner: 'test-owner',
+                repo: 'test-repo',
+                tag_name: 'v1.0.0',
+            })
+        );
+        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('version', '1.0.0');
+        expect(mockSetOutput).toHaveBeenCalledWith('bump-type', 'initial');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-id', '123');
+    });
+
+    it('should fail on a version downgrade by default', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "2.0.9"}');
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v2.1.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockSetFailed).toHaveBeenCalledWith(expect.stringContaining('Version downgrade detected'));
+    });
+
+    it('should warn and skip a version downgrade with the skip policy', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'downgrade-policy') return 'skip';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "2.0.9"}');
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v2.1.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('2.0.9 is lower than 2.1.0. Skipping release'));
+        expect(mockSetOutput).toHaveBeenCalledWith('bump-type', 'downgrade');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+    });
+
+    it('should skip release when version unchanged', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.0.0"}');
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn();
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    getReleaseByTag: vi.fn().mockResolvedValue({
+                        data: { id: 1, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1', upload_url: '' },
+                    }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockCreateRelease).not.toHaveBeenCalled();
+        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'false');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+    });
+
+    it('should skip release when tag already exists', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.1.0"}');
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn();
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    getReleaseByTag: vi.fn().mockResolvedValue({
+                        data: { id: 1, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1', upload_url: '' },
+                    }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('already exists'));
+        expect(mockCreateRelease).not.toHaveBeenCalled();
+        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+    });
+
+    it('should create the missing release for an existing tag without tagging again', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.0.0"}';
+            return '## [1.0.0] - 2024-01-15\n### Added\n- First release';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 5, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    getReleaseByTag: vi.fn().mockRejectedValue(notFound),
+                    listReleases: vi.fn().mockResolvedValue({ data: [] }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('exists without a GitHub release'));
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockCreateRelease).toHaveBeenCalledWith(expect.objectContaining({ tag_name: 'v1.0.0' }));
+        expect(mockSetOutput).toHaveBeenCalledWith('release-action', 'recover');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-id', '5');
+    });
+
+    it('should render the previous version of a recovered release from the tag before it', async () => {
+        vi.spyOn(github, 'context', 'get').mockReturnValue({
+            repo: { owner: 'test-owner', repo: 'test-repo' },
+            serverUrl: 'https://github.com',
+            sha: 'abc123',
+        } as any);
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'release-body-template') return 'Upgrading from {{previousVersion}}: {{compareUrl}}';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.1.0', 'v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+        vi.spyOn(core, 'warning').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 5, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    getReleaseByTag: vi.fn().mockRejectedValue(notFound),
+                    listReleases: vi.fn().mockResolvedValue({ data: [] }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockSetOutput).toHaveBeenCalledWith('release-action', 'recover');
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body: 'Upgrading from 1.0.0: https://github.com/test-owner/test-repo/compare/v1.0.0...v1.1.0',
+            })
+        );
+    });
+
+    it('should render the release name, tag message and body from templates', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+        vi.spyOn(github, 'context', 'get').mockReturnValue({
+            repo: { owner: 'test-owner', repo: 'test-repo' },
+            serverUrl: 'https://github.com',
+            sha: 'abc123',
+        } as any);
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'release-name-template') return 'Version {{version}} ({{date}})';
+            if (name === 'tag-message-template') return '{{tag}} at {{sha}}';
+            if (name === 'release-body-template') return '{{changelog}}\n\nUpgrading from {{previousVersion}}';
+            if (name === 'release-body-footer-file') return '.github/release-footer.md';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            if (path === '.github/release-footer.md') return '**Full Changelog**: {{compareUrl}}\n';
+            return '## [1.1.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 6, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: { repos: { createRelease: mockCreateRelease } },
+        } as any);
+
+        try {
+            await run();
+        } finally {
+            vi.useRealTimers();
+        }
+
+        expect(mockCreateTag).toHaveBeenCalledWith('v1.1.0', 'v1.1.0 at abc123');
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                tag_name: 'v1.1.0',
+                name: 'Version 1.1.0 (2024-03-01)',
+                body:
+                    '- Export\n\nUpgrading from 1.0.0\n\n' +
+                    '**Full Changelog**: https://github.com/test-owner/test-repo/compare/v1.0.0...v1.1.0',
+            })
+        );
+    });
+
+    it('should end the body with the full changelog link and the link references it uses', async () => {
+        vi.spyOn(github, 'context', 'get').mockReturnValue({
+            repo: { owner: 'test-owner', repo: 'test-repo' },
+            serverUrl: 'https://github.example.com',
+            sha: 'abc123',
+        } as any);
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'full-changelog-link') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return (
+                '## [1.1.0] - 2024-03-01\n\n### Fixed\n\n- Regression from [1.0.0]\n\n' +
+                '## [1.0.0] - 2024-01-01\n\n### Added\n\n- Initial release\n\n' +
+                '[1.1.0]: https://github.example.com/test-owner/test-repo/compare/v1.0.0...v1.1.0\n' +
+                '[1.0.0]: https://github.example.com/test-owner/test-repo/releases/tag/v1.0.0\n'
+            );
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1', 'v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 7, html_url: 'https://github.example.com/test-owner/test-repo/releases/tag/v1.1.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: { repos: { createRelease: mockCreateRelease } },
+        } as any);
+
+        await run();
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body:
+                    '### Fixed\n\n- Regression from [1.0.0]\n\n' +
+                    '[1.0.0]: https://github.example.com/test-owner/test-repo/releases/tag/v1.0.0\n\n' +
+                    '**Full Changelog**: https://github.example.com/test-owner/test-repo/compare/v1.0.0...v1.1.0',
+            })
+        );
+    });
+
+    it('should credit contributors and merged pull requests since the previous tag', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'contributors') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockGetCommits = vi.spyOn(GitService.prototype, 'getCommits').mockResolvedValue([
+            { sha: 'abc123', author: 'Alice', message: 'feat: export (#12)' },
+        ]);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 8, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    compareCommitsWithBasehead: vi.fn().mockResolvedValue({
+                        data: { commits: [{ sha: 'abc123', author: { login: 'alice', type: 'User' } }] },
+                    }),
+                    listPullRequestsAssociatedWithCommit: vi.fn().mockResolvedValue({
+                        data: [{ number: 12, title: 'Add export', merged_at: '2024-03-01T12:00:00Z', user: { login: 'alice' } }],
+                    }),
+                    listCommits: vi.fn().mockResolvedValue({ data: [] }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockGetCommits).toHaveBeenCalledWith('v1.0.0', ['.']);
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body:
+                    '- Export\n\n' +
+                    '## Contributors\n\n- @alice (first contribution)\n\n' +
+                    '## Merged pull requests\n\n- Add export (#12) by @alice',
+            })
+        );
+    });
+
+    it('should create the release without credits when the contributors cannot be looked up', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'contributors') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'getCommits').mockResolvedValue([
+            { sha: 'abc123', author: 'Alice', message: 'feat: export' }
+        ]);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 8, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' }
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    compareCommitsWithBasehead: vi.fn().mockRejectedValue(new Error('API rate limit exceeded'))
+                }
+            }
+        } as any);
+
+        await run();
+
+        expect(mockSetFailed).not.toHaveBeenCalled();
+        expect(mockWarning).toHaveBeenCalledWith(
+            'Could not credit contributors: API rate limit exceeded. The release is created without credits'
+        );
+        expect(mockCreateRelease).toHaveBeenCalledWith(expect.objectContaining({ body: '- Export' }));
+    });
+
+    it('should notify webhooks after the release without failing on notification errors', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'slack-webhook-url') return 'https://hooks.slack.com/services/T0/B0/secret';
+            if (name === 'webhook-url') return 'https://example.com/releases';
+            if (name === 'notification-retries') return '0';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockDeleteTag = vi.spyOn(GitService.prototype, 'deleteTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        const mockSetSecret = vi.spyOn(core, 'setSecret').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockFetch = vi
+            .spyOn(globalThis, 'fetch')
+            .mockResolvedValueOnce(new Response('invalid_token', { status: 403 }))
+            .mockResolvedValueOnce(new Response(null, { status: 204 }));
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: { id: 9, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' },
+                    }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockSetSecret).toHaveBeenCalledWith('https://hooks.slack.com/services/T0/B0/secret');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(mockFetch).toHaveBeenCalledWith('https://example.com/releases', expect.objectContaining({ method: 'POST' }));
+        expect(JSON.parse(mockFetch.mock.calls[1][1]?.body as string)).toMatchObject({
+            event: 'release',
+            repository: 'test-owner/test-repo',
+            release: {
+                tag: 'v1.1.0',
+                url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0',
+                changelog: '- Export',
+            },
+        });
+        expect(mockWarning).toHaveBeenCalledWith(
+            'Slack notification failed after 1 attempt(s): HTTP 403: invalid_token. The release is not affected'
+        );
+        expect(mockDeleteTag).not.toHaveBeenCalled();
+        expect(mockSetFailed).not.toHaveBeenCalled();
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+    });
+
+    it('should create the release on the selected provider', async () => {
+        vi.spyOn(github, 'context', 'get').mockReturnValue({
+            repo: { owner: 'test-owner', repo: 'test-repo' },
+            sha: 'abc123',
+        } as any);
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'release-provider') return 'gitea';
+            if (name === 'provider-url') return 'https://gitea.example.com';
+            if (name === 'provider-token') return 'gitea-token';
+            if (name === 'provider-repository') return 'mirrors/project';
+            if (name === 'release-body-template') return '{{changelog}} ({{repo}})';
+            if (name === 'full-changelog-link') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockCreateRelease = vi.spyOn(GiteaReleaseProvider.prototype, 'createRelease').mockResolvedValue({
+            id: 5,
+            htmlUrl: 'https://gitea.example.com/test-owner/test-repo/releases/tag/v1.1.0',
+            uploadUrl: '',
+        });
+        const mockGitHubCreateRelease = vi.fn();
+        vi.spyOn(github, 'getOctokit').mockReturnValue({ rest: { repos: { createRelease: mockGitHubCreateRelease } } } as any);
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetSecret = vi.spyOn(core, 'setSecret').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockSetSecret).toHaveBeenCalledWith('gitea-token');
+        expect(mockCreateRelease).toHaveBeenCalledWith({
+            tagName: 'v1.1.0',
+            name: 'v1.1.0',
+            // Links and the repository point at the provider, not at GitHub
+            body: '- Export (mirrors/project)\n\n**Full Changelog**: https://gitea.example.com/mirrors/project/compare/v1.0.0...v1.1.0',
+            draft: false,
+            prerelease: false,
+        });
+        expect(mockGitHubCreateRelease).not.toHaveBeenCalled();
+        expect(mockInfo).toHaveBeenCalledWith('🎊 Creating Gitea release...');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-id', '5');
+        expect(mockSetOutput).toHaveBeenCalledWith(
+            'release-url',
+            'https://gitea.example.com/test-owner/test-repo/releases/tag/v1.1.0'
+        );
+    });
+
+    it('should label and comment on referenced issues and close the milestone after the release', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'update-issues') return 'true';
+            if (name === 'issue-references-from-commits') return 'true';
+            if (name === 'close-milestone') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2024-03-01\n- Export (#12)\n- Docs in other/docs#3';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        vi.spyOn(GitService.prototype, 'getCommits').mockResolvedValue([
+            { sha: 'abc123', author: 'Alice', message: 'fix: crash\n\nCloses #15' },
+        ]);
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockAddLabels = vi.fn().mockResolvedValue({});
+        const mockCreateComment = vi.fn().mockResolvedValue({});
+        const mockUpdateMilestone = vi.fn().mockResolvedValue({});
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            paginate: vi.fn().mockResolvedValue([{ number: 4, title: 'v1.1.0' }]),
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: { id: 10, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' },
+                    }),
+                },
+                issues: {
+                    addLabels: mockAddLabels,
+                    createComment: mockCreateComment,
+                    listMilestones: vi.fn(),
+                    updateMilestone: mockUpdateMilestone,
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockAddLabels.mock.calls.map(([params]) => params.issue_number)).toEqual([12, 15]);
+        expect(mockAddLabels).toHaveBeenCalledWith(expect.objectContaining({ labels: ['released'] }));
+        expect(mockCreateComment).toHaveBeenCalledWith({
+            owner: 'test-owner',
+            repo: 'test-repo',
+            issue_number: 12,
+            body: 'Released in [v1.1.0](https://github.com/test-owner/test-repo/releases/tag/v1.1.0)',
+        });
+        expect(mockInfo).toHaveBeenCalledWith(
+            '🔖 Labeled and commented on 2 of 2 reference(s): test-owner/test-repo#12, test-owner/test-repo#15'
+        );
+        expect(mockUpdateMilestone).toHaveBeenCalledWith(expect.objectContaining({ milestone_number: 4, state: 'closed' }));
+    });
+
+    it('should compare with the version file before the push in file mode', async () => {
+        vi.spyOn(github, 'context', 'get').mockReturnValue({
+            repo: { owner: 'test-owner', repo: 'test-repo' },
+            eventName: 'push',
+            payload: { before: 'b'.repeat(40) },
+        } as any);
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'version-detection') return 'file';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.2.0"}');
+
+        // 1.2.0 was tagged with the previous tag-prefix, so the latest "v" tag is older
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.1.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockGetFile = vi.spyOn(GitService.prototype, 'getFileFromTag').mockResolvedValue('{"version": "1.2.0"}');
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockGetFile).toHaveBeenCalledWith('b'.repeat(40), 'package.json');
+        expect(mockInfo).toHaveBeenCalledWith(`🔎 Version in package.json at ${'b'.repeat(40)}: 1.2.0`);
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'false');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+    });
+
+    it('should compare with the version file at the latest tag in file mode', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'version-detection') return 'file';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.3.0"}';
+            return '## [1.3.0] - 2024-03-01\n- Export';
+        });
+
+        // A tag created by hand, without a patch version
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.2']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockGetFile = vi.spyOn(GitService.prototype, 'getFileFromTag').mockResolvedValue('{"version": "1.2.0"}');
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: { id: 10, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.3.0' },
+                    }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockGetFile).toHaveBeenCalledWith('v1.2', 'package.json');
+        expect(mockSetOutput).toHaveBeenCalledWith('bump-type', 'minor');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+    });
+
+    it('should move the floating tags to a new release', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'floating-tags') return 'major, minor';
+            // A patch release of an older minor version
+            if (name === 'downgrade-policy') return 'warn';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.2.1"}';
+            return '## [1.2.1] - 2024-03-01\n- Fix';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.3.0', 'v1.3', 'v1.2.0', 'v1.2', 'v1']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockMoveTag = vi.spyOn(GitService.prototype, 'moveTag').mockResolvedValue();
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 8, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.2.1' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: { repos: { createRelease: mockCreateRelease } },
+        } as any);
+
+        await run();
+
+        // v1 already follows v1.3.0, so only the minor tag moves
+        expect(mockMoveTag).toHaveBeenCalledTimes(1);
+        expect(mockMoveTag).toHaveBeenCalledWith('v1.2', 'v1.2.1');
+        expect(mockWarning).toHaveBeenCalledWith('⚠️  Not moving v1 to v1.2.1: v1.3.0 is newer');
+        expect(mockSetOutput).toHaveBeenCalledWith('floating-tags', 'v1.2');
+    });
+
+    it('should keep the release and the other floating tags when a floating tag cannot be moved', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'floating-tags') return 'major, minor';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.3.0"}';
+            return '## [1.3.0] - 2024-03-01\n- Export';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.2.0', 'v1.2', 'v1']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockDeleteTag = vi.spyOn(GitService.prototype, 'deleteTag').mockResolvedValue();
+        const mockMoveTag = vi.spyOn(GitService.prototype, 'moveTag').mockImplementation(async (tagName: string) => {
+            if (tagName === 'v1') throw new Error('protected tag');
+        });
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockDeleteRelease = vi.fn().mockResolvedValue({});
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: { id: 8, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.3.0' },
+                    }),
+                    deleteRelease: mockDeleteRelease,
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockMoveTag).toHaveBeenCalledWith('v1', 'v1.3.0');
+        expect(mockMoveTag).toHaveBeenCalledWith('v1.3', 'v1.3.0');
+        expect(mockWarning).toHaveBeenCalledWith('Could not move v1 to v1.3.0: protected tag');
+        expect(mockSetOutput).toHaveBeenCalledWith('floating-tags', 'v1.3');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+        expect(mockSetFailed).not.toHaveBeenCalled();
+        expect(mockDeleteRelease).not.toHaveBeenCalled();
+        expect(mockDeleteTag).not.toHaveBeenCalled();
+    });
+
+    it('should not move floating tags for prereleases', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'floating-tags') return 'major';
+            if (name === 'create-prerelease') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "2.0.0"}';
+            return '## [2.0.0] - 2024-03-01\n- Rewrite';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.3.0', 'v1']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockMoveTag = vi.spyOn(GitService.prototype, 'moveTag').mockResolvedValue();
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: { id: 9, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v2.0.0' },
+                    }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockMoveTag).not.toHaveBeenCalled();
+        expect(mockInfo).toHaveBeenCalledWith('ℹ️  Floating tags are not moved for prerelease v2.0.0');
+        expect(mockSetOutput).toHaveBeenCalledWith('floating-tags', '');
+    });
+
+    it('should fail before tagging when a template file is missing', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'release-body-header-file') return '.github/release-header.md';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => path === 'package.json');
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.1.0"}');
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockSetFailed).toHaveBeenCalledWith(
+            expect.stringContaining('release-body-header-file not found: .github/release-header.md')
+        );
+    });
+
+    it('should update the existing release with update-existing-release', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'update-existing-release') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.0.0"}';
+            return '## [1.0.0] - 2024-01-15\n### Fixed\n- Corrected notes';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockCreateRelease = vi.fn();
+        const mockUpdateRelease = vi.fn().mockResolvedValue({
+            data: { id: 3, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    updateRelease: mockUpdateRelease,
+                    getReleaseByTag: vi.fn().mockResolvedValue({
+                        data: { id: 3, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0', upload_url: '' },
+                    }),
+                },
+            },
+        } as any);
+
+        await run();
+
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockCreateRelease).not.toHaveBeenCalled();
+        expect(mockUpdateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({ release_id: 3, body: '### Fixed\n\n- Corrected notes' })
+        );
+        expect(mockSetOutput).toHaveBeenCalledWith('release-action', 'update');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-id', '3');
+    });
+
+    it('should use fallback changelog when file not found', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => {
+            return path.includes('package.json'); // changelog doesn't exist
+        });
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "2.0.0"}');
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 456,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v2.0.0',
+            },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('CHANGELOG.md not found'));
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body: 'Release 2.0.0',
+            })
+        );
+    });
+
+    it('should use fallback when version not in changelog', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "3.0.0"}';
+            return '## [1.0.0]\n- Old release'; // version 3.0.0 not in changelog
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 789,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v3.0.0',
+            },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('3.0.0 not found'));
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body: 'Release 3.0.0',
+            })
+        );
+    });
+
+    it('should generate release notes from commits when the changelog has no entry', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'changelog-fallback') return 'commits';
+            if (name === 'commit-authors') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.1.0"}';
+            return '## [1.0.0]\n- Old release';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockGetCommits = vi.spyOn(GitService.prototype, 'getCommits').mockResolvedValue([
+            { sha: '1111111aaaa', author: 'Jane', message: 'fix(api): handle timeouts' },
+            { sha: '2222222bbbb', author: 'John', message: 'chore: bump deps' },
+            { sha: '3333333cccc', author: 'Jane', message: 'feat: add export' },
+        ]);
+
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 987,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0',
+            },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockGetCommits).toHaveBeenCalledWith('v1.0.0', ['.']);
+        expect(mockWarning).toHaveBeenCalledWith('No changelog content found, generating release notes from commits');
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body: '### Features\n\n- add export (3333333) by Jane\n\n### Bug Fixes\n\n- **api:** handle timeouts (1111111) by Jane',
+            })
+        );
+    });
+
+    it('should generate the commit notes of a recovered release from the tag before it', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'changelog-fallback') return 'commits';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.1.0"}';
+            return '## [1.0.0]\n- Old release';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.1.0', 'v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+        const mockGetCommits = vi.spyOn(GitService.prototype, 'getCommits').mockResolvedValue([
+            { sha: '3333333cccc', author: 'Jane', message: 'feat: add export' }
+        ]);
+
+        const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 5, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' }
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                    getReleaseByTag: vi.fn().mockRejectedValue(notFound),
+                    listReleases: vi.fn().mockResolvedValue({ data: [] })
+                }
+            }
+        } as any);
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'warning').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockGetCommits).toHaveBeenCalledWith('v1.0.0', ['.']);
+        expect(mockCreateRelease).toHaveBeenCalledWith(expect.objectContaining({ body: '### Features\n\n- add export (3333333)' }));
+    });
+
+    it('should upload matching assets and set the assets output', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'assets') return 'dist/*.zip';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.1.0"}';
+            return '## [1.1.0]\n- New';
+        });
+        vi.spyOn(FileService.prototype, 'findFiles').mockResolvedValue(['dist/app.zip']);
+        vi.spyOn(FileService.prototype, 'readFileBuffer').mockReturnValue(Buffer.from('zip'));
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockRequest = vi.fn().mockImplementation(async ({ name }: { name: string }) => ({
+            data: {
+                id: name === 'app.zip' ? 1 : 2,
+                name,
+                browser_download_url: `https://github.com/test-owner/test-repo/releases/download/v1.1.0/${name}`,
+            },
+        }));
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: {
+                            id: 555,
+                            html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0',
+                            upload_url: 'https://uploads.github.com/repos/test-owner/test-repo/releases/555/assets{?name,label}',
+                        },
+                    }),
+                },
+            },
+            request: mockRequest,
+        } as any);
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockRequest).toHaveBeenCalledTimes(2);
+        expect(mockRequest).toHaveBeenCalledWith(
+            expect.objectContaining({
+                method: 'POST',
+                url: 'https://uploads.github.com/repos/test-owner/test-repo/releases/555/assets{?name,label}',
+                name: 'app.zip',
+                data: Buffer.from('zip'),
+                headers: { 'content-type': 'application/zip', 'content-length': 3 },
+            })
+        );
+        expect(mockRequest).toHaveBeenCalledWith(expect.objectContaining({ name: 'SHA256SUMS' }));
+        expect(mockSetOutput).toHaveBeenCalledWith(
+            'assets',
+            JSON.stringify([
+                { id: 1, name: 'app.zip', url: 'https://github.com/test-owner/test-repo/releases/download/v1.1.0/app.zip' },
+                { id: 2, name: 'SHA256SUMS', url: 'https://github.com/test-owner/test-repo/releases/download/v1.1.0/SHA256SUMS' },
+            ])
+        );
+    });
+
+    it('should delete the pushed tag when the release cannot be created', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0]\n- New';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockDeleteTag = vi.spyOn(GitService.prototype, 'deleteTag').mockResolvedValue();
+
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockRejectedValue(new Error('Resource not accessible by integration')),
+                },
+            },
+        } as any);
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockDeleteTag).toHaveBeenCalledWith('v1.1.0');
+        expect(mockSetFailed).toHaveBeenCalledWith(
+            'Resource not accessible by integration (rollback: deleted tag v1.1.0)'
+        );
+    });
+
+    it('should delete the release and keep the tag when an asset upload fails with keep-tag-on-failure', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'assets') return 'dist/*.zip';
+            if (name === 'keep-tag-on-failure') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0]\n- New';
+        });
+        vi.spyOn(FileService.prototype, 'findFiles').mockResolvedValue(['dist/app.zip']);
+        vi.spyOn(FileService.prototype, 'readFileBuffer').mockReturnValue(Buffer.from('zip'));
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockDeleteTag = vi.spyOn(GitService.prototype, 'deleteTag').mockResolvedValue();
+
+        const mockDeleteRelease = vi.fn().mockResolvedValue({});
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: vi.fn().mockResolvedValue({
+                        data: { id: 555, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0', upload_url: '' },
+                    }),
+                    deleteRelease: mockDeleteRelease,
+                },
+            },
+            request: vi.fn().mockRejectedValue(new Error('Upload failed')),
+        } as any);
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockDeleteRelease).toHaveBeenCalledWith(expect.objectContaining({ release_id: 555 }));
+        expect(mockDeleteTag).not.toHaveBeenCalled();
+        expect(mockSetFailed).toHaveBeenCalledWith(
+            'Upload failed (rollback: deleted release 555, kept tag v1.1.0 (keep-tag-on-failure))'
+        );
+    });
+
+    it('should read and create tags through the GitHub API with the api tag backend', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'tag-backend') return 'api';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'package.json') return '{"version": "1.1.0"}';
+            return '## [1.1.0]\n- New';
+        });
+        const mockGetTags = vi.spyOn(GitService.prototype, 'getTags');
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag');
+
+        const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+        const mockCreateGitTag = vi.fn().mockResolvedValue({ data: { sha: 'tag-sha' } });
+        const mockCreateRef = vi.fn().mockResolvedValue({});
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 7, html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0' },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            paginate: vi.fn().mockResolvedValue([{ ref: 'refs/tags/v1.0.0' }]),
+            rest: {
+                git: {
+                    listMatchingRefs: vi.fn(),
+                    getRef: vi.fn().mockRejectedValue(notFound),
+                    createTag: mockCreateGitTag,
+                    createRef: mockCreateRef,
+                },
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockGetTags).not.toHaveBeenCalled();
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockCreateGitTag).toHaveBeenCalledWith(
+            expect.objectContaining({ tag: 'v1.1.0', message: 'Release v1.1.0', type: 'commit' })
+        );
+        expect(mockCreateRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'refs/tags/v1.1.0', sha: 'tag-sha' }));
+        expect(mockCreateRelease).toHaveBeenCalled();
+        expect(mockSetOutput).toHaveBeenCalledWith('bump-type', 'minor');
+    });
+
+    it('should refuse to sign tags created through the GitHub API', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'tag-backend') return 'api';
+            if (name === 'signing-key') return 'KEY';
+            return '';
+        });
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockSetFailed).toHaveBeenCalledWith(
+            'Signed tags require tag-backend: git; tags created through the GitHub API cannot be signed'
+        );
+    });
+
+    it('should report the planned release without side effects in dry-run mode', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'dry-run') return 'true';
+            if (name === 'promote-unreleased') return 'true';
+            if (name === 'create-prerelease') return 'auto';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.1.0-rc.1"}';
+            return '## [Unreleased]\n\n### Fixed\n\n- Bug\n\n## [1.0.0] - 2025-11-04\n\n- Old\n';
+        });
+        const mockWriteFile = vi.spyOn(FileService.prototype, 'writeFile');
+        const mockExec = vi.spyOn(actionsExec, 'exec').mockResolvedValue(0);
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+
+        const mockCreateRelease = vi.fn();
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockSetFailed).not.toHaveBeenCalled();
+        expect(mockWriteFile).not.toHaveBeenCalled();
+        expect(mockExec).not.toHaveBeenCalled();
+        expect(mockCreateRelease).not.toHaveBeenCalled();
+
+        expect(mockInfo).toHaveBeenCalledWith('🧪 Dry run: would write CHANGELOG.md');
+        expect(mockInfo).toHaveBeenCalledWith('🧪 Dry run: would commit and push CHANGELOG.md ("Update changelog for v1.1.0-rc.1")');
+        expect(mockInfo).toHaveBeenCalledWith('🧪 Dry run: would create and push tag v1.1.0-rc.1 ("Release v1.1.0-rc.1")');
+        expect(mockInfo).toHaveBeenCalledWith('🧪 Dry run: would create GitHub release v1.1.0-rc.1');
+        expect(mockInfo).toHaveBeenCalledWith('   Draft: no');
+        expect(mockInfo).toHaveBeenCalledWith('   Prerelease: yes');
+        expect(mockInfo).toHaveBeenCalledWith('   Body:\n### Fixed\n\n- Bug');
+
+        expect(mockSetOutput).toHaveBeenCalledWith('dry-run', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('tag-name', 'v1.1.0-rc.1');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-id', '');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-url', '');
+        expect(mockSetOutput).toHaveBeenCalledWith('changelog-fixed', '- Bug');
+    });
+
+    it('should write a job summary with the package table for failed runs', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(false);
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+
+        let summary = '';
+        vi.spyOn(core.summary, 'write').mockImplementation(async () => {
+            summary = core.summary.stringify();
+            return core.summary.emptyBuffer();
+        });
+
+        await run();
+
+        expect(summary).toContain('<p>❌ <strong>Failed:</strong> package.json not found at: package.json</p>');
+        expect(summary).toContain('<tr><td>Status</td><td>❌ Failed</td></tr>');
+        expect(summary).toContain('<tr><td>Decision</td><td>package.json not found at: package.json</td></tr>');
+    });
+
+    it('should handle package.json not found error', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(false);
+
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockSetFailed).toHaveBeenCalledWith(expect.stringContaining('package.json not found'));
+    });
+
+    it('should handle missing version in package.json error', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"name": "test"}');
+
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockSetFailed).toHaveBeenCalledWith('No version found in package.json');
+    });
+
+    it('should create draft release when configured', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            if (name === 'create-draft') return 'true';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.0.0"}';
+            return '## [1.0.0]\n- Release';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 999,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0',
+            },
+        });
+        vi.spyOn(github, 'getOctokit').mockReturnValue({
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any);
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                draft: true,
+            })
+        );
+    });
+
+    it('should create prerelease when configured', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'create-prerelease') return 'true';
             return '';
         });
 
-        // Mock file operations
-        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => {
-            return path.includes('package.json') || path.includes('CHANGELOG.md');
-        });
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
         vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
-            if (path.includes('package.json')) return '{"version": "1.0.0"}';
-            return '## [1.0.0]\n- Initial release';
+            if (path.includes('package.json')) return '{"version": "2.0.0-beta.1"}';
+            return '## [2.0.0-beta.1]\n- Beta release';
         });
 
-        // Mock git operations
         vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
         vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
         vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
-        // Mock GitHub API
         const mockCreateRelease = vi.fn().mockResolvedValue({
             data: {
-                id: 123,
-                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0',
+                id: 888,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v2.0.0-beta.1',
             },
         });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
@@ -572,40 +3133,41 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
-        // Mock core functions
-        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
-        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
 
         await run();
 
         expect(mockCreateRelease).toHaveBeenCalledWith(
             expect.objectContaining({
-                owner: 'test-owner',
-                repo: 'test-repo',
-                tag_name: 'v1.0.0',
+                prerelease: true,
             })
         );
-        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'true');
-        expect(mockSetOutput).toHaveBeenCalledWith('version', '1.0.0');
-        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
-        expect(mockSetOutput).toHaveBeenCalledWith('release-id', '123');
     });
 
-    it('should skip release when version unchanged', async () => {
+    it('should detect prerelease from the version in auto mode', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'create-prerelease') return 'auto';
             return '';
         });
 
         vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
-        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.0.0"}');
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.3.0-beta.2"}';
+            return '## [1.3.0-beta.2]\n- Beta release';
+        });
 
-        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
-        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.2.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
-        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
-        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
-        const mockCreateRelease = vi.fn();
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 777,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.3.0-beta.2',
+            },
+        });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
             rest: {
                 repos: {
@@ -614,28 +3176,43 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
         await run();
 
-        expect(mockCreateRelease).not.toHaveBeenCalled();
-        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'false');
-        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+        expect(mockInfo).toHaveBeenCalledWith('🧪 Prerelease (detected from version): yes');
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                prerelease: true,
+            })
+        );
+        expect(mockSetOutput).toHaveBeenCalledWith('prerelease', 'true');
     });
 
-    it('should skip release when tag already exists', async () => {
+    it('should render structured changelog entries and set per-section outputs', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'changelog-section-order') return 'Fixed';
             return '';
         });
 
         vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
-        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.1.0"}');
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.1.0"}';
+            return '## [1.1.0] - 2025-11-05\n### Added\n- Feature\n### Removed\n### Fixed\n- Bug\n\n## [1.0.0]\n- Old';
+        });
 
         vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
-        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(true);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
-        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
-        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
-        const mockCreateRelease = vi.fn();
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 321,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0',
+            },
+        });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
             rest: {
                 repos: {
@@ -644,33 +3221,48 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+
         await run();
 
-        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('already exists'));
-        expect(mockCreateRelease).not.toHaveBeenCalled();
-        expect(mockSetOutput).toHaveBeenCalledWith('version-changed', 'true');
-        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'false');
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body: '### Fixed\n\n- Bug\n\n### Added\n\n- Feature',
+            })
+        );
+        expect(mockSetOutput).toHaveBeenCalledWith('changelog-added', '- Feature');
+        expect(mockSetOutput).toHaveBeenCalledWith('changelog-fixed', '- Bug');
+        expect(mockSetOutput).not.toHaveBeenCalledWith('changelog-removed', expect.anything());
     });
 
-    it('should use fallback changelog when file not found', async () => {
+    it('should promote the Unreleased section and commit it before tagging', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'promote-unreleased') return 'true';
+            if (name === 'validate-changelog') return 'true';
             return '';
         });
 
-        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => {
-            return path.includes('package.json'); // changelog doesn't exist
+        let changelog = '## [Unreleased]\n\n### Added\n\n- New feature\n\n## [1.0.0] - 2025-11-04\n\n- Old\n';
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.1.0"}';
+            return changelog;
+        });
+        const mockWriteFile = vi.spyOn(FileService.prototype, 'writeFile').mockImplementation((_path, content) => {
+            changelog = content;
         });
-        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "2.0.0"}');
 
         vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
         vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
-        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockCommit = vi.spyOn(GitService.prototype, 'commitAndPush').mockResolvedValue();
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
         const mockCreateRelease = vi.fn().mockResolvedValue({
             data: {
-                id: 456,
-                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v2.0.0',
+                id: 654,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0',
             },
         });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
@@ -681,40 +3273,43 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
-        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
         vi.spyOn(core, 'info').mockImplementation(() => {});
-        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
 
         await run();
 
-        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('CHANGELOG.md not found'));
+        expect(mockSetFailed).not.toHaveBeenCalled();
+        expect(mockWriteFile).toHaveBeenCalledWith('CHANGELOG.md', expect.stringMatching(/^## \[Unreleased\]\n\n## \[1\.1\.0\] - \d{4}-\d{2}-\d{2}\n/));
+        expect(mockCommit).toHaveBeenCalledWith(['CHANGELOG.md'], 'Update changelog for v1.1.0');
+        expect(mockCommit.mock.invocationCallOrder[0]).toBeLessThan(mockCreateTag.mock.invocationCallOrder[0]);
         expect(mockCreateRelease).toHaveBeenCalledWith(
             expect.objectContaining({
-                body: 'Release 2.0.0',
+                body: '### Added\n\n- New feature',
             })
         );
     });
 
-    it('should use fallback when version not in changelog', async () => {
+    it('should copy the changelog text as-is with the raw parser', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'changelog-parser') return 'raw';
             return '';
         });
 
         vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
         vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
-            if (path.includes('package.json')) return '{"version": "3.0.0"}';
-            return '## [1.0.0]\n- Old release'; // version 3.0.0 not in changelog
+            if (path.includes('package.json')) return '{"version": "1.1.0"}';
+            return '## [1.1.0]\n### Added\n- Feature\n### Removed\n';
         });
 
-        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
         vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
         vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
         const mockCreateRelease = vi.fn().mockResolvedValue({
             data: {
-                id: 789,
-                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v3.0.0',
+                id: 322,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.1.0',
             },
         });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
@@ -725,73 +3320,104 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
-        const mockWarning = vi.spyOn(core, 'warning').mockImplementation(() => {});
         vi.spyOn(core, 'info').mockImplementation(() => {});
-        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
 
         await run();
 
-        expect(mockWarning).toHaveBeenCalledWith(expect.stringContaining('3.0.0 not found'));
         expect(mockCreateRelease).toHaveBeenCalledWith(
             expect.objectContaining({
-                body: 'Release 3.0.0',
+                body: '### Added\n- Feature\n### Removed',
             })
         );
+        expect(mockSetOutput).not.toHaveBeenCalledWith('changelog-added', expect.anything());
     });
 
-    it('should handle package.json not found error', async () => {
+    it('should fail validation even when the version is unchanged', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'validate-changelog') return 'true';
             return '';
         });
 
-        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(false);
+        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "1.0.0"}';
+            return '## [0.9.0] - 2025-11-04\n\n- Old\n';
+        });
+        const mockGetTags = vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
 
-        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
         vi.spyOn(core, 'info').mockImplementation(() => {});
+        vi.spyOn(core, 'error').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
 
         await run();
 
-        expect(mockSetFailed).toHaveBeenCalledWith(expect.stringContaining('package.json not found'));
+        expect(mockGetTags).not.toHaveBeenCalled();
+        expect(mockSetFailed).toHaveBeenCalledWith('Changelog validation failed with 1 error(s) in CHANGELOG.md');
     });
 
-    it('should handle missing version in package.json error', async () => {
+    it('should fail instead of using the default body with fail-on-missing-changelog', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'fail-on-missing-changelog') return 'true';
             return '';
         });
 
         vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
-        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"name": "test"}');
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path.includes('package.json')) return '{"version": "2.0.0"}';
+            return '## [1.0.0]\n- Old release';
+        });
+
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v1.0.0']);
+        vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+
+        await run();
+
+        expect(mockCreateTag).not.toHaveBeenCalled();
+        expect(mockSetFailed).toHaveBeenCalledWith('No changelog entry for version 2.0.0 in CHANGELOG.md');
+    });
+
+    it('should handle unknown errors gracefully', async () => {
+        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
+            if (name === 'github-token') return 'test-token';
+            return '';
+        });
+
+        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation(() => {
+            throw 'Unknown error';
+        });
 
         const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
         vi.spyOn(core, 'info').mockImplementation(() => {});
 
         await run();
 
-        expect(mockSetFailed).toHaveBeenCalledWith('No version found in package.json');
+        expect(mockSetFailed).toHaveBeenCalledWith('An unknown error occurred');
     });
 
-    it('should create draft release when configured', async () => {
+    it('should handle edge case of malformed tag (tag equals prefix)', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
-            if (name === 'create-draft') return 'true';
             return '';
         });
 
         vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
-        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
-            if (path.includes('package.json')) return '{"version": "1.0.0"}';
-            return '## [1.0.0]\n- Release';
-        });
+        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.0.0"}');
 
-        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
+        // Edge case: tag is exactly the prefix, resulting in empty latestVersion
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v']);
         vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
         vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
         const mockCreateRelease = vi.fn().mockResolvedValue({
             data: {
-                id: 999,
+                id: 111,
                 html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0',
             },
         });
@@ -803,39 +3429,44 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
-        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
         vi.spyOn(core, 'setOutput').mockImplementation(() => {});
 
         await run();
 
-        expect(mockCreateRelease).toHaveBeenCalledWith(
-            expect.objectContaining({
-                draft: true,
-            })
-        );
+        // Should use fallback display (the tag itself) when latestVersion is empty
+        expect(mockInfo).toHaveBeenCalledWith(expect.stringContaining('Latest tagged version: v'));
+        expect(mockCreateRelease).toHaveBeenCalled();
     });
 
-    it('should create prerelease when configured', async () => {
+    it('should release every changed package in monorepo mode', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
-            if (name === 'create-prerelease') return 'true';
+            if (name === 'packages') return 'packages/*';
             return '';
         });
 
-        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
+        vi.spyOn(FileService.prototype, 'findDirectories').mockResolvedValue(['packages/core', 'packages/ui']);
+        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => {
+            return path !== 'packages/ui/CHANGELOG.md';
+        });
         vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
-            if (path.includes('package.json')) return '{"version": "2.0.0-beta.1"}';
-            return '## [2.0.0-beta.1]\n- Beta release';
+            if (path === 'packages/core/package.json') return '{"name": "@acme/core", "version": "1.1.0"}';
+            if (path === 'packages/ui/package.json') return '{"name": "@acme/ui", "version": "2.0.0"}';
+            if (path === 'packages/core/CHANGELOG.md') return '## [1.1.0]\n- Core changes';
+            return '## [2.0.0]\n- Root changelog entry';
         });
 
-        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
+        const mockGetTags = vi.spyOn(GitService.prototype, 'getTags').mockImplementation(async (prefix: string) => {
+            return prefix === '@acme/core@' ? ['@acme/core@1.0.0'] : ['@acme/ui@2.0.0'];
+        });
         vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
-        vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
+        const mockCreateTag = vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
         const mockCreateRelease = vi.fn().mockResolvedValue({
             data: {
-                id: 888,
-                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v2.0.0-beta.1',
+                id: 42,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/%40acme/core%401.1.0',
             },
         });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
@@ -847,53 +3478,96 @@ describe('run (integration tests)', () => {
         } as any);
 
         vi.spyOn(core, 'info').mockImplementation(() => {});
-        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
 
         await run();
 
+        expect(mockGetTags).toHaveBeenCalledWith('@acme/core@');
+        expect(mockGetTags).toHaveBeenCalledWith('@acme/ui@');
+        expect(mockCreateTag).toHaveBeenCalledTimes(1);
+        expect(mockCreateTag).toHaveBeenCalledWith('@acme/core@1.1.0', 'Release @acme/core@1.1.0');
+        expect(mockCreateRelease).toHaveBeenCalledTimes(1);
         expect(mockCreateRelease).toHaveBeenCalledWith(
             expect.objectContaining({
-                prerelease: true,
+                tag_name: '@acme/core@1.1.0',
+                body: '- Core changes',
             })
         );
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-core-release-created', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-core-release-id', '42');
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-core-tag-name', '@acme/core@1.1.0');
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-core-assets', '[]');
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-core-floating-tags', '');
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-ui-release-created', 'false');
+        expect(mockSetOutput).toHaveBeenCalledWith('acme-ui-version-changed', 'false');
+        expect(mockSetOutput).toHaveBeenCalledWith('release-created', 'true');
+
+        const releasesOutput = mockSetOutput.mock.calls.find(([name]) => name === 'releases');
+        expect(JSON.parse(releasesOutput![1] as string)).toEqual([
+            {
+                name: '@acme/core',
+                directory: 'packages/core',
+                version: '1.1.0',
+                previousVersion: '1.0.0',
+                tagName: '@acme/core@1.1.0',
+                versionChanged: true,
+                bumpType: 'minor',
+                releaseAction: 'create',
+                decision: 'Release: minor version change',
+                draft: false,
+                prerelease: false,
+                releaseCreated: true,
+                releaseId: 42,
+                releaseUrl: 'https://github.com/test-owner/test-repo/releases/tag/%40acme/core%401.1.0',
+                changelogSource: 'changelog',
+                body: '- Core changes',
+                changelogSections: {},
+                assets: [],
+                floatingTags: [],
+            },
+            {
+                name: '@acme/ui',
+                directory: 'packages/ui',
+                version: '2.0.0',
+                previousVersion: '2.0.0',
+                tagName: '@acme/ui@2.0.0',
+                versionChanged: false,
+                bumpType: 'none',
+                releaseAction: 'none',
+                decision: 'No release: version unchanged',
+                draft: false,
+                prerelease: false,
+                releaseCreated: false,
+            },
+        ]);
     });
 
-    it('should handle unknown errors gracefully', async () => {
+    it('should fall back to the root changelog and keep going when a package fails', async () => {
         vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
             if (name === 'github-token') return 'test-token';
+            if (name === 'packages') return 'packages/*';
+            if (name === 'tag-scheme') return '{{dir}}-v{{version}}';
             return '';
         });
 
-        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation(() => {
-            throw 'Unknown error';
+        vi.spyOn(FileService.prototype, 'findDirectories').mockResolvedValue(['packages/broken', 'packages/ui']);
+        vi.spyOn(FileService.prototype, 'fileExists').mockImplementation((path: string) => {
+            return !path.startsWith('packages/ui/CHANGELOG') && !path.startsWith('packages/broken/CHANGELOG');
         });
-
-        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
-        vi.spyOn(core, 'info').mockImplementation(() => {});
-
-        await run();
-
-        expect(mockSetFailed).toHaveBeenCalledWith('An unknown error occurred');
-    });
-
-    it('should handle edge case of malformed tag (tag equals prefix)', async () => {
-        vi.spyOn(core, 'getInput').mockImplementation((name: string) => {
-            if (name === 'github-token') return 'test-token';
-            return '';
+        vi.spyOn(FileService.prototype, 'readFile').mockImplementation((path: string) => {
+            if (path === 'packages/broken/package.json') return '{"name": "broken"}';
+            if (path === 'packages/ui/package.json') return '{"name": "ui", "version": "2.0.0"}';
+            return '## [2.0.0]\n- Root changelog entry';
         });
 
-        vi.spyOn(FileService.prototype, 'fileExists').mockReturnValue(true);
-        vi.spyOn(FileService.prototype, 'readFile').mockReturnValue('{"version": "1.0.0"}');
-
-        // Edge case: tag is exactly the prefix, resulting in empty latestVersion
-        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue(['v']);
+        vi.spyOn(GitService.prototype, 'getTags').mockResolvedValue([]);
         vi.spyOn(GitService.prototype, 'tagExists').mockResolvedValue(false);
         vi.spyOn(GitService.prototype, 'createTag').mockResolvedValue();
 
         const mockCreateRelease = vi.fn().mockResolvedValue({
             data: {
-                id: 111,
-                html_url: 'https://github.com/test-owner/test-repo/releases/tag/v1.0.0',
+                id: 7,
+                html_url: 'https://github.com/test-owner/test-repo/releases/tag/ui-v2.0.0',
             },
         });
         vi.spyOn(github, 'getOctokit').mockReturnValue({
@@ -904,13 +3578,22 @@ describe('run (integration tests)', () => {
             },
         } as any);
 
-        const mockInfo = vi.spyOn(core, 'info').mockImplementation(() => {});
-        vi.spyOn(core, 'setOutput').mockImplementation(() => {});
+        vi.spyOn(core, 'info').mockImplementation(() => {});
+        const mockError = vi.spyOn(core, 'error').mockImplementation(() => {});
+        const mockSetFailed = vi.spyOn(core, 'setFailed').mockImplementation(() => {});
+        const mockSetOutput = vi.spyOn(core, 'setOutput').mockImplementation(() => {});
 
         await run();
 
-        // Should use fallback display (the tag itself) when latestVersion is empty
-        expect(mockInfo).toHaveBeenCalledWith(expect.stringContaining('Latest tagged version: v'));
-        expect(mockCreateRelease).toHaveBeenCalled();
+        expect(mockError).toHaveBeenCalledWith('broken: No version found in package.json');
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                tag_name: 'ui-v2.0.0',
+                body: '- Root changelog entry',
+            })
+        );
+        expect(mockSetOutput).toHaveBeenCalledWith('ui-release-created', 'true');
+        expect(mockSetOutput).toHaveBeenCalledWith('broken-release-created', 'false');
+        expect(mockSetFailed).toHaveBeenCalledWith('Release failed for: broken');
     });
 });
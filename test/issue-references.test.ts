@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as core from '@actions/core';
+import {
+    closeMilestone,
+    findIssueReferences,
+    formatIssueReference,
+    parseIssueRepositories,
+    updateReferencedIssues,
+} from '../src/issue-references';
+
+vi.mock('@actions/core');
+
+const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+
+describe('parseIssueRepositories', () => {
+    it('should accept comma- and newline-separated repositories', () => {
+        expect(parseIssueRepositories('Owner/Docs, owner/website\nother/lib\n')).toEqual([
+            'owner/docs',
+            'owner/website',
+            'other/lib',
+        ]);
+        expect(parseIssueRepositories('')).toEqual([]);
+    });
+
+    it('should throw error for entries that are not owner/repo', () => {
+        expect(() => parseIssueRepositories('owner')).toThrow(
+            'Invalid issue-repositories entry: owner. Expected "owner/repo"'
+        );
+    });
+});
+
+describe('findIssueReferences', () => {
+    it('should find local references once in order of appearance', () => {
+        const text = '- Export endpoint (#12)\n- Fix crash ([#7](https://github.com/owner/repo/pull/7), #12)\n- Owner/Repo#3';
+
+        expect(findIssueReferences(text, 'owner', 'repo', []).map(formatIssueReference)).toEqual([
+            'owner/repo#12',
+            'owner/repo#7',
+            'owner/repo#3',
+        ]);
+    });
+
+    it('should skip references to other repositories unless they are allowed', () => {
+        const text = 'Fixes other/lib#4 and owner/docs#5';
+
+        expect(findIssueReferences(text, 'owner', 'repo', [])).toEqual([]);
+        expect(findIssueReferences(text, 'owner', 'repo', ['owner/docs'])).toEqual([
+            { owner: 'owner', repo: 'docs', number: 5 },
+        ]);
+    });
+
+    it('should ignore headings, URL fragments, HTML entities and words', () => {
+        const text = '### Added\n- See page#12, &#38; and #12abc\n- Color #0 and C#';
+
+        expect(findIssueReferences(text, 'owner', 'repo', [])).toEqual([]);
+    });
+});
+
+describe('updateReferencedIssues', () => {
+    let octokit: any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        octokit = {
+            rest: {
+                issues: {
+                    addLabels: vi.fn().mockResolvedValue({}),
+                    createComment: vi.fn().mockResolvedValue({}),
+                },
+            },
+        };
+    });
+
+    it('should label and comment on each reference and warn about failures', async () => {
+        octokit.rest.issues.addLabels.mockImplementation(async ({ issue_number }: { issue_number: number }) => {
+            if (issue_number === 404) throw notFound;
+            return {};
+        });
+
+        const updated = await updateReferencedIssues({
+            octokit,
+            references: [
+                { owner: 'owner', repo: 'repo', number: 404 },
+                { owner: 'owner', repo: 'repo', number: 12 },
+            ],
+            label: 'released',
+            comment: 'Released in [v1.4.0](https://github.com/owner/repo/releases/tag/v1.4.0)',
+        });
+
+        expect(updated).toEqual([{ owner: 'owner', repo: 'repo', number: 12 }]);
+        expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            issue_number: 12,
+            labels: ['released'],
+        });
+        expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            issue_number: 12,
+            body: 'Released in [v1.4.0](https://github.com/owner/repo/releases/tag/v1.4.0)',
+        });
+        expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+        expect(core.warning).toHaveBeenCalledWith('Could not update owner/repo#404: Not Found');
+    });
+});
+
+describe('closeMilestone', () => {
+    let octokit: any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        octokit = {
+            paginate: vi.fn().mockResolvedValue([
+                { number: 1, title: 'Backlog' },
+                { number: 2, title: '1.4.0' },
+            ]),
+            rest: { issues: { listMilestones: vi.fn(), updateMilestone: vi.fn().mockResolvedValue({}) } },
+        };
+    });
+
+    it('should close the open milestone named after the tag or version', async () => {
+        const closed = await closeMilestone(octokit, 'owner', 'repo', ['v1.4.0', '1.4.0']);
+
+        expect(closed).toBe('1.4.0');
+        expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listMilestones, {
+            owner: 'owner',
+            repo: 'repo',
+            state: 'open',
+            per_page: 100,
+        });
+        expect(octokit.rest.issues.updateMilestone).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            milestone_number: 2,
+            state: 'closed',
+        });
+    });
+
+    it('should return null without a matching milestone', async () => {
+        expect(await closeMilestone(octokit, 'owner', 'repo', ['v2.0.0', '2.0.0'])).toBeNull();
+        expect(octokit.rest.issues.updateMilestone).not.toHaveBeenCalled();
+    });
+
+    it('should warn instead of throwing when the milestone cannot be closed', async () => {
+        octokit.rest.issues.updateMilestone.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+        expect(await closeMilestone(octokit, 'owner', 'repo', ['1.4.0'])).toBeNull();
+        expect(core.warning).toHaveBeenCalledWith(
+            'Could not close the milestone 1.4.0: Resource not accessible by integration'
+        );
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    validateTagScheme,
+    renderTagPrefix,
+    toOutputId,
+    resolvePackageChangelogPath,
+    resolvePackageTargets,
+} from '../src/monorepo';
+import { FileService } from '../src/services/file.service';
+
+describe('validateTagScheme', () => {
+    it('should accept schemes ending with {{version}}', () => {
+        expect(() => validateTagScheme('{{name}}@{{version}}')).not.toThrow();
+        expect(() => validateTagScheme('{{dir}}-v{{version}}')).not.toThrow();
+        expect(() => validateTagScheme('{{prefix}}{{ version }}')).not.toThrow();
+    });
+
+    it('should reject unknown placeholders', () => {
+        expect(() => validateTagScheme('{{package}}@{{version}}')).toThrow('Unknown placeholder(s) in tag scheme');
+    });
+
+    it('should reject schemes that do not end with {{version}}', () => {
+        expect(() => validateTagScheme('v{{version}}-{{name}}')).toThrow('must end with {{version}}');
+        expect(() => validateTagScheme('{{name}}')).toThrow('must end with {{version}}');
+    });
+});
+
+describe('renderTagPrefix', () => {
+    const values = { name: '@scope/pkg', dir: 'pkg', prefix: 'v' };
+
+    it('should render npm-style tags', () => {
+        expect(renderTagPrefix('{{name}}@{{version}}', values)).toBe('@scope/pkg@');
+    });
+
+    it('should render directory-based tags', () => {
+        expect(renderTagPrefix('{{dir}}-v{{version}}', values)).toBe('pkg-v');
+    });
+
+    it('should render the tag prefix input', () => {
+        expect(renderTagPrefix('{{dir}}/{{prefix}}{{version}}', values)).toBe('pkg/v');
+    });
+});
+
+describe('toOutputId', () => {
+    it('should convert scoped package names', () => {
+        expect(toOutputId('@scope/pkg')).toBe('scope-pkg');
+    });
+
+    it('should keep simple names', () => {
+        expect(toOutputId('my_package')).toBe('my_package');
+    });
+
+    it('should lowercase and collapse separators', () => {
+        expect(toOutputId('My.Great  Lib')).toBe('my-great-lib');
+    });
+});
+
+describe('resolvePackageChangelogPath', () => {
+    let fileService: FileService;
+
+    beforeEach(() => {
+        fileService = new FileService();
+    });
+
+    it('should use the package changelog when it exists', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+
+        const result = resolvePackageChangelogPath(fileService, 'packages/a', 'CHANGELOG.md');
+
+        expect(result).toBe('packages/a/CHANGELOG.md');
+    });
+
+    it('should fall back to the root changelog', () => {
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(false);
+
+        const result = resolvePackageChangelogPath(fileService, 'packages/a', 'docs/CHANGELOG.md');
+
+        expect(result).toBe('docs/CHANGELOG.md');
+    });
+});
+
+describe('resolvePackageTargets', () => {
+    let fileService: FileService;
+
+    const options = {
+        packages: ['packages/*'],
+        versionFileName: 'package.json',
+        versionSource: 'auto',
+        versionPattern: '',
+        changelogPath: 'CHANGELOG.md',
+        tagPrefix: 'v',
+        tagScheme: '{{name}}@{{version}}',
+    };
+
+    beforeEach(() => {
+        fileService = new FileService();
+    });
+
+    it('should build a target for every directory with a version file', async () => {
+        vi.spyOn(fileService, 'findDirectories').mockResolvedValue(['packages/core', 'packages/docs', 'packages/ui']);
+        vi.spyOn(fileService, 'fileExists').mockImplementation((filePath: string) => {
+            return filePath !== 'packages/docs/package.json' && filePath !== 'packages/ui/CHANGELOG.md';
+        });
+        vi.spyOn(fileService, 'readFile').mockImplementation((filePath: string) => {
+            if (filePath === 'packages/core/package.json') return '{"name": "@acme/core", "version": "1.0.0"}';
+            return '{"version": "2.0.0"}';
+        });
+
+        const targets = await resolvePackageTargets(fileService, options);
+
+        expect(fileService.findDirectories).toHaveBeenCalledWith(['packages/*']);
+        expect(targets).toEqual([
+            {
+                name: '@acme/core',
+                directory: 'packages/core',
+                versionFilePath: 'packages/core/package.json',
+                changelogPath: 'packages/core/CHANGELOG.md',
+                tagPrefix: '@acme/core@',
+            },
+            {
+                name: 'ui',
+                directory: 'packages/ui',
+                versionFilePath: 'packages/ui/package.json',
+                changelogPath: 'CHANGELOG.md',
+                tagPrefix: 'ui@',
+            },
+        ]);
+    });
+
+    it('should use the directory name for formats without a package name', async () => {
+        vi.spyOn(fileService, 'findDirectories').mockResolvedValue(['services/api']);
+        vi.spyOn(fileService, 'fileExists').mockReturnValue(true);
+        vi.spyOn(fileService, 'readFile').mockReturnValue('1.0.0');
+
+        const targets = await resolvePackageTargets(fileService, {
+            ...options,
+            versionFileName: 'VERSION',
+            tagScheme: '{{dir}}-{{prefix}}{{version}}',
+        });
+
+        expect(targets[0].name).toBe('api');
+        expect(targets[0].tagPrefix).toBe('api-v');
+    });
+
+    it('should throw error when no package matches', async () => {
+        vi.spyOn(fileService, 'findDirectories').mockResolvedValue([]);
+
+        await expect(resolvePackageTargets(fileService, options)).rejects.toThrow(
+            'No packages with package.json found for: packages/*',
+        );
+    });
+
+    it('should throw error for an invalid tag scheme before globbing', async () => {
+        const findDirectories = vi.spyOn(fileService, 'findDirectories');
+
+        await expect(resolvePackageTargets(fileService, { ...options, tagScheme: '{{name}}' })).rejects.toThrow(
+            'must end with {{version}}',
+        );
+        expect(findDirectories).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as core from '@actions/core';
+import {
+    ReleaseNotification,
+    buildDiscordPayload,
+    buildSlackPayload,
+    buildTeamsPayload,
+    buildWebhookPayload,
+    parseNotificationRetries,
+    sendNotifications,
+    toSlackMrkdwn,
+    trimText,
+} from '../src/notifiers';
+
+vi.mock('@actions/core');
+
+const notification: ReleaseNotification = {
+    repo: 'owner/repo',
+    name: '',
+    version: '1.2.0',
+    tagName: 'v1.2.0',
+    releaseName: 'v1.2.0',
+    releaseUrl: 'https://github.com/owner/repo/releases/tag/v1.2.0',
+    prerelease: false,
+    changelog: '### Added\n\n- **api:** export endpoint\n- See [docs](https://example.com/docs)',
+};
+
+describe('parseNotificationRetries', () => {
+    it('should default to 2', () => {
+        expect(parseNotificationRetries('')).toBe(2);
+    });
+
+    it('should accept non-negative integers', () => {
+        expect(parseNotificationRetries('0')).toBe(0);
+        expect(parseNotificationRetries('5')).toBe(5);
+    });
+
+    it('should throw error for other values', () => {
+        expect(() => parseNotificationRetries('-1')).toThrow(
+            'Invalid notification-retries: -1. Expected a non-negative integer'
+        );
+    });
+});
+
+describe('trimText', () => {
+    it('should keep text that fits', () => {
+        expect(trimText('short', 5)).toBe('short');
+    });
+
+    it('should cut at the last line break and add an ellipsis', () => {
+        expect(trimText('- first item\n- second item', 20)).toBe('- first item…');
+    });
+
+    it('should cut inside the line when the line break is too early', () => {
+        expect(trimText('a\nbcdefghij', 8)).toBe('a\nbcdef…');
+    });
+});
+
+describe('toSlackMrkdwn', () => {
+    it('should convert headings, bold text, bullets and links', () => {
+        expect(toSlackMrkdwn(notification.changelog)).toBe(
+            '*Added*\n\n• *api:* export endpoint\n• See <https://example.com/docs|docs>'
+        );
+    });
+});
+
+describe('payload builders', () => {
+    it('should build Slack blocks with a plain-text fallback', () => {
+        const payload = buildSlackPayload(notification) as any;
+
+        expect(payload.text).toBe('owner/repo 1.2.0 released: https://github.com/owner/repo/releases/tag/v1.2.0');
+        expect(payload.blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: 'owner/repo 1.2.0 released' } });
+        expect(payload.blocks[1].text.text).toContain('• *api:* export endpoint');
+        expect(payload.blocks[2].elements[0].text).toBe(
+            '<https://github.com/owner/repo/releases/tag/v1.2.0|v1.2.0> in owner/repo'
+        );
+    });
+
+    it('should build a Discord embed', () => {
+        const payload = buildDiscordPayload({ ...notification, name: 'pkg-a', prerelease: true }) as any;
+
+        expect(payload.embeds).toEqual([
+            {
+                title: 'pkg-a 1.2.0 (prerelease) released',
+                url: 'https://github.com/owner/repo/releases/tag/v1.2.0',
+                description: notification.changelog,
+                color: 0xf0ad4e,
+                footer: { text: 'owner/repo · v1.2.0' },
+            },
+        ]);
+    });
+
+    it('should build a Teams Adaptive Card', () => {
+        const payload = buildTeamsPayload(notification) as any;
+        const card = payload.attachments[0].content;
+
+        expect(payload.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+        expect(card.body[0].text).toBe('owner/repo 1.2.0 released');
+        expect(card.body[1].text).toBe(notification.changelog);
+        expect(card.actions).toEqual([
+            { type: 'Action.OpenUrl', title: 'View release', url: 'https://github.com/owner/repo/releases/tag/v1.2.0' },
+        ]);
+    });
+
+    it('should build the generic webhook payload and flag a truncated changelog', () => {
+        expect(buildWebhookPayload(notification)).toEqual({
+            event: 'release',
+            version: 1,
+            repository: 'owner/repo',
+            package: '',
+            release: {
+                name: 'v1.2.0',
+                tag: 'v1.2.0',
+                version: '1.2.0',
+                url: 'https://github.com/owner/repo/releases/tag/v1.2.0',
+                prerelease: false,
+                changelog: notification.changelog,
+                changelogTruncated: false,
+            },
+        });
+
+        const long = buildWebhookPayload({ ...notification, changelog: 'x'.repeat(20000) });
+        expect(long.release.changelog).toHaveLength(10000);
+        expect(long.release.changelogTruncated).toBe(true);
+    });
+});
+
+describe('sendNotifications', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: { url: string; contentType: string; body: any }[];
+    let statuses: Record<string, number[]>;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        requests = [];
+        statuses = {};
+        // Local stand-in for the webhook endpoints: answers with the queued statuses of the path, then 204
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => (body += chunk));
+            request.on('end', () => {
+                requests.push({ url: request.url ?? '', contentType: request.headers['content-type'] ?? '', body: JSON.parse(body) });
+                const status = statuses[request.url ?? '']?.shift() ?? 204;
+                response.writeHead(status).end(status >= 400 ? 'upstream unavailable' : '');
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should post each payload as JSON', async () => {
+        const results = await sendNotifications(
+            [
+                { kind: 'slack', url: `${baseUrl}/slack` },
+                { kind: 'webhook', url: `${baseUrl}/hook` },
+            ],
+            notification,
+            { retries: 2, retryDelayMs: 0 }
+        );
+
+        expect(results).toEqual([
+            { kind: 'slack', delivered: true, attempts: 1 },
+            { kind: 'webhook', delivered: true, attempts: 1 },
+        ]);
+        expect(requests.map((request) => request.url)).toEqual(['/slack', '/hook']);
+        expect(requests[0].contentType).toBe('application/json');
+        expect(requests[0].body).toEqual(buildSlackPayload(notification));
+        expect(requests[1].body.release.tag).toBe('v1.2.0');
+        expect(core.info).toHaveBeenCalledWith('📣 Slack notified');
+    });
+
+    it('should retry server errors and rate limits', async () => {
+        statuses['/discord'] = [503, 429];
+
+        const results = await sendNotifications([{ kind: 'discord', url: `${baseUrl}/discord` }], notification, {
+            retries: 2,
+            retryDelayMs: 0,
+        });
+
+        expect(results).toEqual([{ kind: 'discord', delivered: true, attempts: 3 }]);
+        expect(core.info).toHaveBeenCalledWith(
+            '🔁 Discord notification failed (HTTP 503: upstream unavailable), retrying in 0 ms'
+        );
+    });
+
+    it('should isolate failing notifiers and only warn', async () => {
+        statuses['/teams'] = [500, 500];
+        statuses['/slack'] = [404];
+
+        const results = await sendNotifications(
+            [
+                { kind: 'teams', url: `${baseUrl}/teams` },
+                { kind: 'slack', url: `${baseUrl}/slack` },
+                { kind: 'webhook', url: `${baseUrl}/hook` },
+            ],
+            notification,
+            { retries: 1, retryDelayMs: 0 }
+        );
+
+        expect(results).toEqual([
+            { kind: 'teams', delivered: false, attempts: 2, error: 'HTTP 500: upstream unavailable' },
+            // Client errors are not retried
+            { kind: 'slack', delivered: false, attempts: 1, error: 'HTTP 404: upstream unavailable' },
+            { kind: 'webhook', delivered: true, attempts: 1 },
+        ]);
+        expect(core.warning).toHaveBeenCalledWith(
+            'Microsoft Teams notification failed after 2 attempt(s): HTTP 500: upstream unavailable. The release is not affected'
+        );
+    });
+
+    it('should report network errors', async () => {
+        await new Promise((resolve) => server.close(resolve));
+        server = http.createServer();
+        server.listen(0, '127.0.0.1');
+
+        const results = await sendNotifications([{ kind: 'webhook', url: `${baseUrl}/hook` }], notification, {
+            retries: 0,
+            retryDelayMs: 0,
+        });
+
+        expect(results[0]).toMatchObject({ kind: 'webhook', delivered: false, attempts: 1, error: 'fetch failed' });
+    });
+});
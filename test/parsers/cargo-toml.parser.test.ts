@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseCargoToml, parseCargoName } from '../../src/parsers/cargo-toml.parser';
+
+describe('parseCargoToml', () => {
+    it('should extract version from [package] table', () => {
+        const content = `
+[package]
+name = "demo"
+version = "1.2.3"
+edition = "2021"
+
+[dependencies]
+serde = { version = "1.0", features = ["derive"] }
+`;
+
+        const result = parseCargoToml(content);
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should extract version from [workspace.package] table', () => {
+        const content = `
+[workspace]
+members = ["crates/*"]
+
+[workspace.package]
+version = "0.3.0"
+`;
+
+        const result = parseCargoToml(content);
+
+        expect(result).toBe('0.3.0');
+    });
+
+    it('should return empty string if version is missing', () => {
+        const content = '[package]\nname = "demo"\n';
+
+        const result = parseCargoToml(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should return empty string for inherited workspace versions', () => {
+        const content = '[package]\nname = "demo"\nversion.workspace = true\n';
+
+        const result = parseCargoToml(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should not pick up dependency versions', () => {
+        const content = '[dependencies.serde]\nversion = "1.0.0"\n';
+
+        const result = parseCargoToml(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should extract version with prerelease tags', () => {
+        const content = '[package]\nversion = "2.0.0-beta.1"\n';
+
+        const result = parseCargoToml(content);
+
+        expect(result).toBe('2.0.0-beta.1');
+    });
+});
+
+describe('parseCargoName', () => {
+    it('should extract name from [package] table', () => {
+        const result = parseCargoName('[package]\nname = "demo"\nversion = "1.0.0"\n');
+
+        expect(result).toBe('demo');
+    });
+
+    it('should return empty string if name is missing', () => {
+        const result = parseCargoName('[workspace]\nmembers = ["a"]\n');
+
+        expect(result).toBe('');
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseConventionalCommit } from '../../src/parsers/conventional-commit.parser';
+
+describe('parseConventionalCommit', () => {
+    it('should parse type, scope and description', () => {
+        expect(parseConventionalCommit('feat(api): add endpoint')).toEqual({
+            type: 'feat',
+            scope: 'api',
+            description: 'add endpoint',
+            breaking: false,
+            breakingNote: '',
+        });
+    });
+
+    it('should parse commits without scope and lowercase the type', () => {
+        expect(parseConventionalCommit('Fix: handle empty input')).toEqual({
+            type: 'fix',
+            scope: '',
+            description: 'handle empty input',
+            breaking: false,
+            breakingNote: '',
+        });
+    });
+
+    it('should detect breaking changes marked with "!"', () => {
+        const result = parseConventionalCommit('refactor(core)!: drop Node 16');
+
+        expect(result?.breaking).toBe(true);
+        expect(result?.breakingNote).toBe('');
+    });
+
+    it('should read the BREAKING CHANGE footer including continuation lines', () => {
+        const message = 'feat: new config\r\n\r\nDetails.\r\n\r\nBREAKING CHANGE: the config file\r\nmoved to .github\r\n\r\nRefs: #12';
+
+        const result = parseConventionalCommit(message);
+
+        expect(result?.breaking).toBe(true);
+        expect(result?.breakingNote).toBe('the config file moved to .github');
+    });
+
+    it('should accept the BREAKING-CHANGE footer spelling', () => {
+        expect(parseConventionalCommit('fix: x\n\nBREAKING-CHANGE: y')?.breakingNote).toBe('y');
+    });
+
+    it('should return null for messages that are not Conventional Commits', () => {
+        expect(parseConventionalCommit('Merge branch main')).toBeNull();
+        expect(parseConventionalCommit('feat:missing space')).toBeNull();
+        expect(parseConventionalCommit('')).toBeNull();
+    });
+});
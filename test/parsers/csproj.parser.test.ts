@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsproj } from '../../src/parsers/csproj.parser';
+
+describe('parseCsproj', () => {
+    it('should extract version from <Version>', () => {
+        const content = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Version>1.2.3</Version>
+  </PropertyGroup>
+</Project>`;
+
+        const result = parseCsproj(content);
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should combine <VersionPrefix> and <VersionSuffix>', () => {
+        const content = `<Project>
+  <PropertyGroup>
+    <VersionPrefix>2.0.0</VersionPrefix>
+    <VersionSuffix>beta.1</VersionSuffix>
+  </PropertyGroup>
+</Project>`;
+
+        const result = parseCsproj(content);
+
+        expect(result).toBe('2.0.0-beta.1');
+    });
+
+    it('should use <VersionPrefix> alone when there is no suffix', () => {
+        const content = '<Project><PropertyGroup><VersionPrefix>3.0.0</VersionPrefix></PropertyGroup></Project>';
+
+        const result = parseCsproj(content);
+
+        expect(result).toBe('3.0.0');
+    });
+
+    it('should prefer <Version> over <VersionPrefix>', () => {
+        const content = '<Project><PropertyGroup><VersionPrefix>1.0.0</VersionPrefix><Version>1.1.0</Version></PropertyGroup></Project>';
+
+        const result = parseCsproj(content);
+
+        expect(result).toBe('1.1.0');
+    });
+
+    it('should ignore commented-out versions', () => {
+        const content = '<Project>\n<!-- <Version>9.9.9</Version> -->\n<Version>1.0.0</Version>\n</Project>';
+
+        const result = parseCsproj(content);
+
+        expect(result).toBe('1.0.0');
+    });
+
+    it('should return empty string if version is missing', () => {
+        const content = '<Project><PropertyGroup><AssemblyVersion>1.0.0.0</AssemblyVersion></PropertyGroup></Project>';
+
+        const result = parseCsproj(content);
+
+        expect(result).toBe('');
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseGradle } from '../../src/parsers/gradle.parser';
+
+describe('parseGradle', () => {
+    it('should extract version from Groovy build.gradle', () => {
+        const content = "plugins {\n    id 'java'\n}\n\ngroup = 'com.example'\nversion = '1.2.3'\n";
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should extract version from Kotlin build.gradle.kts', () => {
+        const content = 'plugins {\n    kotlin("jvm")\n}\n\nversion = "0.9.0"\n';
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('0.9.0');
+    });
+
+    it('should extract version without assignment operator', () => {
+        const content = "version '3.1.0'\n";
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('3.1.0');
+    });
+
+    it('should extract version from gradle.properties', () => {
+        const content = 'org.gradle.jvmargs=-Xmx2g\nversion=4.5.6\n';
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('4.5.6');
+    });
+
+    it('should return empty string if version is missing', () => {
+        const content = "group = 'com.example'\n";
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should not match version properties with other names', () => {
+        const content = "kotlinVersion = '1.9.0'\nversionCode = 12\n";
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should extract version with prerelease tags', () => {
+        const content = 'version = "2.0.0-rc.1"\n';
+
+        const result = parseGradle(content);
+
+        expect(result).toBe('2.0.0-rc.1');
+    });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseChangelogEntries,
+    parseLinkReferences,
+    appendLinkReferences,
+    findChangelogEntry,
+    renderChangelogEntry,
+    renderChangelogItems,
+    toSectionKey,
+} from '../../src/parsers/keep-a-changelog.parser';
+
+const CHANGELOG = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+## [Unreleased]
+
+### Added
+
+- Work in progress
+
+## [1.1.0] - 2025-11-05
+
+Highlights of this release.
+
+### Added
+
+- Feature A
+- Feature B
+  spanning two lines
+    - nested detail
+
+### Fixed
+
+### Performance
+
+Faster startup:
+
+- Lazy loading
+
+## [1.0.1] - 2025-10-01 [YANKED]
+
+### Security
+
+- Patched dependency
+
+## 1.0.0
+
+- Initial release
+
+[unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD
+[1.1.0]: https://github.com/owner/repo/compare/v1.0.1...v1.1.0
+[1.0.1]: https://github.com/owner/repo/compare/v1.0.0...v1.0.1
+`;
+
+describe('parseChangelogEntries', () => {
+    it('should parse every version entry in file order', () => {
+        const entries = parseChangelogEntries(CHANGELOG);
+
+        expect(entries.map((entry) => entry.version)).toEqual(['Unreleased', '1.1.0', '1.0.1', '1.0.0']);
+    });
+
+    it('should parse version, date, yanked flag, link and line', () => {
+        const entries = parseChangelogEntries(CHANGELOG);
+
+        expect(entries[1]).toMatchObject({
+            version: '1.1.0',
+            date: '2025-11-05',
+            yanked: false,
+            link: 'https://github.com/owner/repo/compare/v1.0.1...v1.1.0',
+            line: 11,
+            description: 'Highlights of this release.',
+        });
+        expect(entries[2]).toMatchObject({ version: '1.0.1', date: '2025-10-01', yanked: true });
+        expect(entries[0].link).toBe('https://github.com/owner/repo/compare/v1.1.0...HEAD');
+        expect(entries[3].date).toBeUndefined();
+        expect(entries[3].link).toBeUndefined();
+    });
+
+    it('should parse categorized sections with multi-line items', () => {
+        const [, entry] = parseChangelogEntries(CHANGELOG);
+
+        expect(entry.sections).toEqual([
+            {
+                title: 'Added',
+                standard: true,
+                notes: '',
+                items: ['Feature A', 'Feature B\n  spanning two lines\n    - nested detail'],
+            },
+            { title: 'Fixed', standard: true, notes: '', items: [] },
+            { title: 'Performance', standard: false, notes: 'Faster startup:', items: ['Lazy loading'] },
+        ]);
+    });
+
+    it('should keep uncategorized content as the description', () => {
+        const entries = parseChangelogEntries(CHANGELOG);
+
+        expect(entries[3].sections).toEqual([]);
+        expect(entries[3].description).toBe('- Initial release');
+    });
+
+    it('should ignore "## " headers that are not version headers', () => {
+        const entries = parseChangelogEntries('## Release notes for our users\n\n### Added\n- Nope\n');
+
+        expect(entries).toEqual([]);
+    });
+
+    it('should handle CRLF line endings and tabs', () => {
+        const entries = parseChangelogEntries('## [2.0.0]\r\n\r\n### Changed\r\n\r\n- Item\r\n\t- Sub item\r\n');
+
+        expect(entries[0].sections[0].items).toEqual(['Item\n    - Sub item']);
+    });
+
+    it('should return empty array for content without entries', () => {
+        expect(parseChangelogEntries('# Changelog\n')).toEqual([]);
+    });
+});
+
+describe('parseLinkReferences', () => {
+    it('should collect link reference definitions by lowercase label', () => {
+        const links = parseLinkReferences(CHANGELOG);
+
+        expect([...links.keys()]).toEqual(['unreleased', '1.1.0', '1.0.1']);
+        expect(links.get('1.1.0')).toBe('https://github.com/owner/repo/compare/v1.0.1...v1.1.0');
+    });
+
+    it('should handle CRLF line endings', () => {
+        expect(parseLinkReferences('[Docs]: https://example.com/docs\r\n').get('docs')).toBe('https://example.com/docs');
+    });
+});
+
+describe('appendLinkReferences', () => {
+    const links = parseLinkReferences(`${CHANGELOG}[docs]: https://example.com/docs\n`);
+
+    it('should append the definitions of used reference links', () => {
+        const result = appendLinkReferences('- Fixes the regression from [1.0.1]\n- See the [guide][Docs]', links);
+
+        expect(result).toBe(
+            '- Fixes the regression from [1.0.1]\n- See the [guide][Docs]\n\n' +
+                '[1.0.1]: https://github.com/owner/repo/compare/v1.0.0...v1.0.1\n' +
+                '[docs]: https://example.com/docs'
+        );
+    });
+
+    it('should ignore inline links, unknown labels and definitions already in the text', () => {
+        const text = '- [Docs](https://example.com) and [1.1.0]\n- [x] Done\n\n[1.1.0]: https://example.com/1.1.0';
+
+        expect(appendLinkReferences(text, links)).toBe(text);
+    });
+});
+
+describe('findChangelogEntry', () => {
+    const entries = parseChangelogEntries(CHANGELOG);
+
+    it('should find an entry by version', () => {
+        expect(findChangelogEntry(entries, '1.0.1')?.yanked).toBe(true);
+    });
+
+    it('should ignore a leading "v"', () => {
+        expect(findChangelogEntry(entries, 'v1.1.0')?.version).toBe('1.1.0');
+    });
+
+    it('should not match versions that only share a prefix', () => {
+        expect(findChangelogEntry(entries, '1.0')).toBeNull();
+    });
+
+    it('should return null if the version is missing', () => {
+        expect(findChangelogEntry(entries, '9.9.9')).toBeNull();
+    });
+});
+
+describe('renderChangelogItems', () => {
+    it('should render items as a Markdown list', () => {
+        const section = { title: 'Added', standard: true, notes: '', items: ['One', 'Two\n  more'] };
+
+        expect(renderChangelogItems(section)).toBe('- One\n- Two\n  more');
+    });
+});
+
+describe('renderChangelogEntry', () => {
+    const entry = parseChangelogEntries(CHANGELOG)[1];
+
+    it('should render the description and non-empty sections', () => {
+        const result = renderChangelogEntry(entry);
+
+        expect(result).toBe(
+            [
+                'Highlights of this release.',
+                '### Added\n\n- Feature A\n- Feature B\n  spanning two lines\n    - nested detail',
+                '### Performance\n\nFaster startup:\n\n- Lazy loading',
+            ].join('\n\n'),
+        );
+        expect(result).not.toContain('### Fixed');
+    });
+
+    it('should render configured sections first', () => {
+        const result = renderChangelogEntry(entry, { sectionOrder: ['performance'] });
+
+        expect(result.indexOf('### Performance')).toBeLessThan(result.indexOf('### Added'));
+    });
+
+    it('should ignore unknown titles in the section order', () => {
+        const result = renderChangelogEntry(entry, { sectionOrder: ['Security', 'Added'] });
+
+        expect(result.indexOf('### Added')).toBeLessThan(result.indexOf('### Performance'));
+    });
+
+    it('should render an empty string for an empty entry', () => {
+        const [empty] = parseChangelogEntries('## [1.0.0]\n\n### Added\n');
+
+        expect(renderChangelogEntry(empty)).toBe('');
+    });
+});
+
+describe('toSectionKey', () => {
+    it('should slugify section titles', () => {
+        expect(toSectionKey('Added')).toBe('added');
+        expect(toSectionKey('Breaking Changes')).toBe('breaking-changes');
+        expect(toSectionKey('⚡ Performance!')).toBe('performance');
+    });
+});
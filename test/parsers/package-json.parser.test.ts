@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parsePackageJson, extractVersionFromTag } from '../../src/parsers/package-json.parser';
+import { parsePackageJson, parsePackageJsonName, extractVersionFromTag } from '../../src/parsers/package-json.parser';
 
 describe('parsePackageJson', () => {
     it('should extract version from valid package.json', () => {
@@ -53,6 +53,24 @@ describe('parsePackageJson', () => {
     });
 });
 
+describe('parsePackageJsonName', () => {
+    it('should extract scoped package names', () => {
+        const result = parsePackageJsonName(JSON.stringify({ name: '@scope/pkg', version: '1.0.0' }));
+
+        expect(result).toBe('@scope/pkg');
+    });
+
+    it('should return empty string if name is missing', () => {
+        const result = parsePackageJsonName(JSON.stringify({ version: '1.0.0' }));
+
+        expect(result).toBe('');
+    });
+
+    it('should throw error for invalid JSON', () => {
+        expect(() => parsePackageJsonName('not valid json {')).toThrow();
+    });
+});
+
 describe('extractVersionFromTag', () => {
     it('should remove "v" prefix from tag', () => {
         const result = extractVersionFromTag('v1.2.3', 'v');
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { parsePomXml } from '../../src/parsers/pom-xml.parser';
+
+describe('parsePomXml', () => {
+    it('should extract the project version', () => {
+        const content = `<?xml version="1.0" encoding="UTF-8"?>
+<project>
+    <modelVersion>4.0.0</modelVersion>
+    <groupId>com.example</groupId>
+    <artifactId>demo</artifactId>
+    <version>1.2.3</version>
+</project>`;
+
+        const result = parsePomXml(content);
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should ignore the parent version', () => {
+        const content = `<project>
+    <parent>
+        <groupId>org.springframework.boot</groupId>
+        <artifactId>spring-boot-starter-parent</artifactId>
+        <version>3.2.0</version>
+    </parent>
+    <artifactId>demo</artifactId>
+    <version>0.1.0</version>
+</project>`;
+
+        const result = parsePomXml(content);
+
+        expect(result).toBe('0.1.0');
+    });
+
+    it('should ignore dependency and plugin versions', () => {
+        const content = `<project>
+    <dependencies>
+        <dependency>
+            <artifactId>junit</artifactId>
+            <version>4.13.2</version>
+        </dependency>
+    </dependencies>
+    <build>
+        <plugins>
+            <plugin>
+                <version>3.11.0</version>
+            </plugin>
+        </plugins>
+    </build>
+    <version>2.0.0</version>
+</project>`;
+
+        const result = parsePomXml(content);
+
+        expect(result).toBe('2.0.0');
+    });
+
+    it('should ignore commented-out versions', () => {
+        const content = '<project>\n<!-- <version>9.9.9</version> -->\n<version>1.0.0</version>\n</project>';
+
+        const result = parsePomXml(content);
+
+        expect(result).toBe('1.0.0');
+    });
+
+    it('should return empty string if version is missing', () => {
+        const content = '<project><parent><version>3.2.0</version></parent></project>';
+
+        const result = parsePomXml(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should extract version with prerelease tags', () => {
+        const content = '<project><version>2.0.0-SNAPSHOT</version></project>';
+
+        const result = parsePomXml(content);
+
+        expect(result).toBe('2.0.0-SNAPSHOT');
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { parsePyprojectToml, parsePyprojectName } from '../../src/parsers/pyproject.parser';
+
+describe('parsePyprojectToml', () => {
+    it('should extract version from PEP 621 [project] table', () => {
+        const content = `
+[build-system]
+requires = ["hatchling"]
+
+[project]
+name = "demo"
+version = "1.2.3"
+`;
+
+        const result = parsePyprojectToml(content);
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should extract version from Poetry [tool.poetry] table', () => {
+        const content = `
+[tool.poetry]
+name = "demo"
+version = "0.5.0"
+`;
+
+        const result = parsePyprojectToml(content);
+
+        expect(result).toBe('0.5.0');
+    });
+
+    it('should prefer [project] over [tool.poetry]', () => {
+        const content = `
+[tool.poetry]
+version = "0.0.0"
+
+[project]
+version = "2.0.0"
+`;
+
+        const result = parsePyprojectToml(content);
+
+        expect(result).toBe('2.0.0');
+    });
+
+    it('should return empty string if version is missing', () => {
+        const content = `
+[project]
+name = "demo"
+dynamic = ["version"]
+`;
+
+        const result = parsePyprojectToml(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should ignore versions in unrelated tables', () => {
+        const content = `
+[tool.bumpversion]
+version = "9.9.9"
+`;
+
+        const result = parsePyprojectToml(content);
+
+        expect(result).toBe('');
+    });
+
+    it('should extract version with prerelease tags', () => {
+        const content = '[project]\nversion = "2.0.0b1"\n';
+
+        const result = parsePyprojectToml(content);
+
+        expect(result).toBe('2.0.0b1');
+    });
+});
+
+describe('parsePyprojectName', () => {
+    it('should extract name from [project] table', () => {
+        const result = parsePyprojectName('[project]\nname = "demo"\nversion = "1.0.0"\n');
+
+        expect(result).toBe('demo');
+    });
+
+    it('should extract name from [tool.poetry] table', () => {
+        const result = parsePyprojectName('[tool.poetry]\nname = "poetry-demo"\n');
+
+        expect(result).toBe('poetry-demo');
+    });
+
+    it('should return empty string if name is missing', () => {
+        const result = parsePyprojectName('[project]\nversion = "1.0.0"\n');
+
+        expect(result).toBe('');
+    });
+});
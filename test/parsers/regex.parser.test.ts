@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersionWithPattern } from '../../src/parsers/regex.parser';
+
+describe('parseVersionWithPattern', () => {
+    it('should use the first capture group', () => {
+        const content = '"""Demo package."""\n__version__ = "1.2.3"\n';
+
+        const result = parseVersionWithPattern(content, '__version__ = "(.+)"');
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should prefer the named "version" group', () => {
+        const content = 'APP 4.5.6 build 99';
+
+        const result = parseVersionWithPattern(content, '(APP) (?<version>\\S+) build');
+
+        expect(result).toBe('4.5.6');
+    });
+
+    it('should use the whole match when there are no groups', () => {
+        const content = 'release: 7.8.9';
+
+        const result = parseVersionWithPattern(content, '\\d+\\.\\d+\\.\\d+');
+
+        expect(result).toBe('7.8.9');
+    });
+
+    it('should evaluate the pattern in multiline mode', () => {
+        const content = 'name: demo\nversion: 2.0.0\n';
+
+        const result = parseVersionWithPattern(content, '^version: (.+)$');
+
+        expect(result).toBe('2.0.0');
+    });
+
+    it('should return empty string if the pattern does not match', () => {
+        const result = parseVersionWithPattern('no version here', 'version=(\\S+)');
+
+        expect(result).toBe('');
+    });
+
+    it('should throw error for an invalid pattern', () => {
+        expect(() => parseVersionWithPattern('1.0.0', '(unclosed')).toThrow('Invalid version pattern: (unclosed');
+    });
+});
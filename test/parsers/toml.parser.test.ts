@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getTomlString } from '../../src/parsers/toml.parser';
+
+describe('getTomlString', () => {
+    it('should read a double-quoted value from a table', () => {
+        const content = '[package]\nname = "demo"\nversion = "1.2.3"\n';
+
+        const result = getTomlString(content, 'package', 'version');
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should read a single-quoted value', () => {
+        const content = "[package]\nversion = '1.2.3'\n";
+
+        const result = getTomlString(content, 'package', 'version');
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should ignore keys in other tables', () => {
+        const content = '[dependencies.serde]\nversion = "1.0.0"\n\n[package]\nversion = "0.2.0"\n';
+
+        const result = getTomlString(content, 'package', 'version');
+
+        expect(result).toBe('0.2.0');
+    });
+
+    it('should handle inline comments and extra whitespace', () => {
+        const content = '[ tool . poetry ]\n  version   =   "3.0.0"   # bumped by hand\n';
+
+        const result = getTomlString(content, 'tool.poetry', 'version');
+
+        expect(result).toBe('3.0.0');
+    });
+
+    it('should read from the root table', () => {
+        const content = 'version = "4.0.0"\n\n[package]\nversion = "5.0.0"\n';
+
+        const result = getTomlString(content, '', 'version');
+
+        expect(result).toBe('4.0.0');
+    });
+
+    it('should return empty string if key is missing', () => {
+        const content = '[package]\nname = "demo"\n';
+
+        const result = getTomlString(content, 'package', 'version');
+
+        expect(result).toBe('');
+    });
+
+    it('should not match non-string values', () => {
+        const content = '[package]\nversion.workspace = true\n';
+
+        const result = getTomlString(content, 'package', 'version');
+
+        expect(result).toBe('');
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersionFile } from '../../src/parsers/version-file.parser';
+
+describe('parseVersionFile', () => {
+    it('should extract version from a plain VERSION file', () => {
+        const result = parseVersionFile('1.2.3\n');
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should trim surrounding whitespace', () => {
+        const result = parseVersionFile('  1.2.3  \r\n');
+
+        expect(result).toBe('1.2.3');
+    });
+
+    it('should skip leading blank lines', () => {
+        const result = parseVersionFile('\n\n2.0.0\n');
+
+        expect(result).toBe('2.0.0');
+    });
+
+    it('should only use the first line', () => {
+        const result = parseVersionFile('3.0.0\nsome notes\n');
+
+        expect(result).toBe('3.0.0');
+    });
+
+    it('should return empty string for an empty file', () => {
+        const result = parseVersionFile('');
+
+        expect(result).toBe('');
+    });
+
+    it('should extract version with prerelease tags', () => {
+        const result = parseVersionFile('2.0.0-beta.1');
+
+        expect(result).toBe('2.0.0-beta.1');
+    });
+});
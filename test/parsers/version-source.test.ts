@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { detectVersionSourceType, resolveVersionSource } from '../../src/parsers/version-source';
+
+describe('detectVersionSourceType', () => {
+    it('should detect known manifest files', () => {
+        const testCases = [
+            { filePath: 'package.json', expected: 'package-json' },
+            { filePath: 'packages/a/package.json', expected: 'package-json' },
+            { filePath: 'pyproject.toml', expected: 'pyproject' },
+            { filePath: 'Cargo.toml', expected: 'cargo' },
+            { filePath: 'pom.xml', expected: 'maven' },
+            { filePath: 'build.gradle', expected: 'gradle' },
+            { filePath: 'app/build.gradle.kts', expected: 'gradle' },
+            { filePath: 'gradle.properties', expected: 'gradle' },
+            { filePath: 'src/App/App.csproj', expected: 'csproj' },
+            { filePath: 'Directory.Build.props', expected: 'csproj' },
+            { filePath: 'VERSION', expected: 'version-file' },
+            { filePath: 'version.txt', expected: 'version-file' },
+        ];
+
+        testCases.forEach(({ filePath, expected }) => {
+            expect(detectVersionSourceType(filePath)).toBe(expected);
+        });
+    });
+
+    it('should return null for unknown files', () => {
+        expect(detectVersionSourceType('setup.cfg')).toBeNull();
+    });
+});
+
+describe('resolveVersionSource', () => {
+    it('should auto-detect the source and label it with the file name', () => {
+        const source = resolveVersionSource('crates/core/Cargo.toml', 'auto');
+
+        expect(source.type).toBe('cargo');
+        expect(source.label).toBe('Cargo.toml');
+        expect(source.parse('[package]\nversion = "1.0.0"')).toBe('1.0.0');
+    });
+
+    it('should treat an empty source type as auto', () => {
+        const source = resolveVersionSource('package.json', '');
+
+        expect(source.type).toBe('package-json');
+    });
+
+    it('should use an explicit source type regardless of file name', () => {
+        const source = resolveVersionSource('meta/release.cfg', 'version-file');
+
+        expect(source.type).toBe('version-file');
+        expect(source.parse('1.4.0\n')).toBe('1.4.0');
+    });
+
+    it('should use the regex source when a pattern is given in auto mode', () => {
+        const source = resolveVersionSource('package.json', 'auto', '"version": "(.+)"');
+
+        expect(source.type).toBe('regex');
+        expect(source.parse('{"version": "0.0.1"}')).toBe('0.0.1');
+    });
+
+    it('should throw error for regex source without a pattern', () => {
+        expect(() => resolveVersionSource('file.txt', 'regex')).toThrow('version-pattern is required');
+    });
+
+    it('should throw error for unknown source types', () => {
+        expect(() => resolveVersionSource('package.json', 'npm')).toThrow('Unknown version source: npm');
+    });
+
+    it('should throw error when the source cannot be detected', () => {
+        expect(() => resolveVersionSource('setup.cfg', 'auto')).toThrow('Could not detect version source for setup.cfg');
+    });
+});
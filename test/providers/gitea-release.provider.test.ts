@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GiteaReleaseProvider } from '../../src/providers/gitea-release.provider';
+
+describe('GiteaReleaseProvider', () => {
+    interface ReceivedRequest {
+        method: string;
+        url: string;
+        authorization: string;
+        contentType: string;
+        body: string;
+    }
+
+    interface FakeRelease {
+        id: number;
+        tag_name: string;
+        name: string;
+        body: string;
+        draft: boolean;
+        prerelease: boolean;
+        html_url: string;
+    }
+
+    let server: http.Server;
+    let baseUrl: string;
+    let received: ReceivedRequest[];
+    let releases: FakeRelease[];
+    let tags: string[];
+    let provider: GiteaReleaseProvider;
+
+    const fakeRelease = (id: number, tagName: string, draft = false): FakeRelease => ({
+        id,
+        tag_name: tagName,
+        name: tagName,
+        body: '',
+        draft,
+        prerelease: false,
+        html_url: `https://gitea.example.com/owner/repo/releases/tag/${tagName}`,
+    });
+
+    // Local stand-in for the Gitea REST API of owner/repo
+    beforeEach(async () => {
+        received = [];
+        releases = [fakeRelease(1, 'v1.0.0'), fakeRelease(2, 'v1.1.0', true)];
+        tags = ['v1.0.0', 'v1.1.0', 'v1.2.0'];
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => (body += chunk));
+            request.on('end', () => {
+                const method = request.method ?? '';
+                const url = request.url ?? '';
+                received.push({
+                    method,
+                    url,
+                    authorization: request.headers.authorization ?? '',
+                    contentType: request.headers['content-type'] ?? '',
+                    body,
+                });
+                const reply = (status: number, data?: unknown) =>
+                    response
+                        .writeHead(status, { 'content-type': 'application/json' })
+                        .end(data === undefined ? '' : JSON.stringify(data));
+
+                const prefix = '/api/v1/repos/owner/repo/releases';
+                const byTag = url.match(/\/releases\/tags\/(.+)$/);
+                const byId = url.match(/\/releases\/(\d+)(\/assets)?/);
+                const release = byId ? releases.find((candidate) => candidate.id === Number(byId[1])) : undefined;
+                const tagMatch = url.match(/^\/api\/v1\/repos\/owner\/repo\/tags\/(.+)$/);
+                const tag = tagMatch ? decodeURIComponent(tagMatch[1]) : '';
+
+                if (tagMatch && !tags.includes(tag)) {
+                    reply(404, { message: 'The target couldn\'t be found.' });
+                } else if (tagMatch && method === 'DELETE') {
+                    tags = tags.filter((candidate) => candidate !== tag);
+                    response.writeHead(204).end();
+                } else if (tagMatch) {
+                    reply(200, { name: tag });
+                } else if (method === 'POST' && url === prefix) {
+                    const input = JSON.parse(body);
+                    const created = { ...fakeRelease(releases.length + 1, input.tag_name), ...input };
+                    releases.push(created);
+                    reply(201, created);
+                } else if (url === `${prefix}?limit=50`) {
+                    reply(200, releases);
+                } else if (byTag) {
+                    // Gitea leaves drafts out of the lookup by tag
+                    const found = releases.find((candidate) => candidate.tag_name === byTag[1] && !candidate.draft);
+                    reply(found ? 200 : 404, found ?? { message: 'The target couldn\'t be found.' });
+                } else if (!release) {
+                    reply(404, { message: 'The target couldn\'t be found.' });
+                } else if (byId?.[2]) {
+                    const name = new URL(url, baseUrl).searchParams.get('name');
+                    reply(201, { id: 9, name, browser_download_url: `https://gitea.example.com/attachments/${name}` });
+                } else if (method === 'PATCH') {
+                    Object.assign(release, JSON.parse(body));
+                    reply(200, release);
+                } else if (method === 'DELETE') {
+                    releases = releases.filter((candidate) => candidate !== release);
+                    response.writeHead(204).end();
+                } else {
+                    reply(200, release);
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        provider = new GiteaReleaseProvider({ baseUrl, token: 'gitea-token', owner: 'owner', repo: 'repo' });
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should find releases by tag, including drafts', async () => {
+        expect(await provider.findRelease('v1.0.0')).toEqual({
+            id: 1,
+            htmlUrl: 'https://gitea.example.com/owner/repo/releases/tag/v1.0.0',
+            uploadUrl: '',
+        });
+        expect((await provider.findRelease('v1.1.0'))?.id).toBe(2);
+        expect(await provider.findRelease('v2.0.0')).toBeNull();
+        expect(received[0]).toMatchObject({
+            method: 'GET',
+            url: '/api/v1/repos/owner/repo/releases/tags/v1.0.0',
+            authorization: 'token gitea-token',
+        });
+    });
+
+    it('should create the release from the pushed tag', async () => {
+        const release = await provider.createRelease({
+            tagName: 'v1.2.0',
+            name: 'Release 1.2.0',
+            body: 'Notes',
+            draft: true,
+            prerelease: true,
+        });
+
+        expect(release).toEqual({ id: 3, htmlUrl: 'https://gitea.example.com/owner/repo/releases/tag/v1.2.0', uploadUrl: '' });
+        expect(received[0]).toMatchObject({ method: 'GET', url: '/api/v1/repos/owner/repo/tags/v1.2.0' });
+        expect(JSON.parse(received[1].body)).toEqual({
+            tag_name: 'v1.2.0',
+            name: 'Release 1.2.0',
+            body: 'Notes',
+            draft: true,
+            prerelease: true,
+        });
+    });
+
+    it('should not create a release without the pushed tag', async () => {
+        await expect(
+            provider.createRelease({ tagName: 'v2.0.0', body: '', draft: false, prerelease: false })
+        ).rejects.toThrow('Tag v2.0.0 not found in Gitea repository owner/repo. Push the tag to the repository before releasing');
+        expect(received.map((request) => request.method)).toEqual(['GET']);
+        expect(releases).toHaveLength(2);
+    });
+
+    it('should update and delete releases', async () => {
+        const release = (await provider.findRelease('v1.0.0'))!;
+
+        await provider.updateRelease(release, { name: '', body: 'New notes', prerelease: true });
+        expect(releases[0]).toMatchObject({ name: 'v1.0.0', body: 'New notes', prerelease: true });
+
+        await provider.deleteRelease(release);
+        expect(releases.map((candidate) => candidate.id)).toEqual([2]);
+    });
+
+    it('should delete tags and report missing ones', async () => {
+        expect(await provider.deleteTag('v1.2.0')).toBe(true);
+        expect(tags).toEqual(['v1.0.0', 'v1.1.0']);
+        expect(received[0]).toMatchObject({ method: 'DELETE', url: '/api/v1/repos/owner/repo/tags/v1.2.0' });
+
+        expect(await provider.deleteTag('v1.2.0')).toBe(false);
+    });
+
+    it('should upload assets as multipart attachments', async () => {
+        const asset = await provider.uploadAsset(
+            { id: 1, htmlUrl: '', uploadUrl: '' },
+            { name: 'app.zip', label: 'App', contentType: 'application/zip', data: Buffer.from('zip-content') }
+        );
+
+        expect(asset).toEqual({ id: 9, name: 'app.zip', url: 'https://gitea.example.com/attachments/app.zip' });
+        expect(received[0].url).toBe('/api/v1/repos/owner/repo/releases/1/assets?name=app.zip');
+        expect(received[0].authorization).toBe('token gitea-token');
+        expect(received[0].contentType).toMatch(/^multipart\/form-data; boundary=/);
+        expect(received[0].body).toContain('name="attachment"; filename="app.zip"');
+        expect(received[0].body).toContain('Content-Type: application/zip\r\n\r\nzip-content');
+    });
+
+    it('should throw errors with the status of failed requests', async () => {
+        await expect(provider.deleteRelease({ id: 99, htmlUrl: '', uploadUrl: '' })).rejects.toMatchObject({
+            message: 'DELETE /api/v1/repos/owner/repo/releases/99 failed with HTTP 404: {"message":"The target couldn\'t be found."}',
+            status: 404,
+        });
+    });
+});
@@ -0,0 +1,415 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as github from '@actions/github';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    GitHubReleaseProvider,
+    createGitHubRelease,
+    findReleaseByTag,
+    updateGitHubRelease,
+} from '../../src/providers/github-release.provider';
+
+describe('createGitHubRelease', () => {
+    it('should create release with correct parameters', async () => {
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 12345,
+                html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0',
+                upload_url: 'https://uploads.github.com/repos/owner/repo/releases/12345/assets{?name,label}',
+            },
+        });
+
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any;
+
+        const result = await createGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'owner',
+            repo: 'repo',
+            tagName: 'v1.0.0',
+            body: '## Changes\n- Feature 1',
+            draft: false,
+            prerelease: false,
+        });
+
+        expect(mockCreateRelease).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            tag_name: 'v1.0.0',
+            name: 'v1.0.0',
+            body: '## Changes\n- Feature 1',
+            draft: false,
+            prerelease: false,
+        });
+
+        expect(result).toEqual({
+            id: 12345,
+            htmlUrl: 'https://github.com/owner/repo/releases/tag/v1.0.0',
+            uploadUrl: 'https://uploads.github.com/repos/owner/repo/releases/12345/assets{?name,label}',
+        });
+    });
+
+    it('should use the rendered release name when provided', async () => {
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: { id: 1, html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0', upload_url: '' },
+        });
+        const mockOctokit = { rest: { repos: { createRelease: mockCreateRelease } } } as any;
+
+        await createGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'owner',
+            repo: 'repo',
+            tagName: 'v1.0.0',
+            name: 'Version 1.0.0 (2024-03-01)',
+            body: 'Notes',
+            draft: false,
+            prerelease: false,
+        });
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({ tag_name: 'v1.0.0', name: 'Version 1.0.0 (2024-03-01)' })
+        );
+    });
+
+    it('should create draft release when draft is true', async () => {
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 54321,
+                html_url: 'https://github.com/test/test/releases/tag/v2.0.0',
+            },
+        });
+
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any;
+
+        await createGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'test',
+            repo: 'test',
+            tagName: 'v2.0.0',
+            body: 'Release notes',
+            draft: true,
+            prerelease: false,
+        });
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                draft: true,
+            })
+        );
+    });
+
+    it('should create prerelease when prerelease is true', async () => {
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 99999,
+                html_url: 'https://github.com/test/test/releases/tag/v3.0.0-beta',
+            },
+        });
+
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any;
+
+        await createGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'test',
+            repo: 'test',
+            tagName: 'v3.0.0-beta',
+            body: 'Beta release',
+            draft: false,
+            prerelease: true,
+        });
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                prerelease: true,
+            })
+        );
+    });
+
+    it('should handle custom tag prefix in release', async () => {
+        const mockCreateRelease = vi.fn().mockResolvedValue({
+            data: {
+                id: 11111,
+                html_url: 'https://github.com/owner/repo/releases/tag/release-1.0.0',
+            },
+        });
+
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any;
+
+        const result = await createGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'owner',
+            repo: 'repo',
+            tagName: 'release-1.0.0',
+            body: 'Release',
+            draft: false,
+            prerelease: false,
+        });
+
+        expect(mockCreateRelease).toHaveBeenCalledWith(
+            expect.objectContaining({
+                tag_name: 'release-1.0.0',
+                name: 'release-1.0.0',
+            })
+        );
+
+        expect(result.htmlUrl).toBe('https://github.com/owner/repo/releases/tag/release-1.0.0');
+    });
+
+    it('should propagate errors from GitHub API', async () => {
+        const mockCreateRelease = vi.fn().mockRejectedValue(
+            new Error('API rate limit exceeded')
+        );
+
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    createRelease: mockCreateRelease,
+                },
+            },
+        } as any;
+
+        await expect(createGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'owner',
+            repo: 'repo',
+            tagName: 'v1.0.0',
+            body: 'Release',
+            draft: false,
+            prerelease: false,
+        })).rejects.toThrow('API rate limit exceeded');
+    });
+});
+
+describe('findReleaseByTag', () => {
+    const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+
+    it('should return the published release for the tag', async () => {
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    getReleaseByTag: vi.fn().mockResolvedValue({
+                        data: { id: 7, html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0', upload_url: 'upload' },
+                    }),
+                    listReleases: vi.fn(),
+                },
+            },
+        } as any;
+
+        const result = await findReleaseByTag({ octokit: mockOctokit, owner: 'owner', repo: 'repo', tagName: 'v1.0.0' });
+
+        expect(mockOctokit.rest.repos.getReleaseByTag).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', tag: 'v1.0.0' });
+        expect(mockOctokit.rest.repos.listReleases).not.toHaveBeenCalled();
+        expect(result).toEqual({ id: 7, htmlUrl: 'https://github.com/owner/repo/releases/tag/v1.0.0', uploadUrl: 'upload' });
+    });
+
+    it('should find draft releases in the release list', async () => {
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    getReleaseByTag: vi.fn().mockRejectedValue(notFound),
+                    listReleases: vi.fn().mockResolvedValue({
+                        data: [
+                            { id: 8, tag_name: 'v0.9.0', html_url: 'other', upload_url: 'other' },
+                            { id: 9, tag_name: 'v1.0.0', html_url: 'draft', upload_url: 'upload' },
+                        ],
+                    }),
+                },
+            },
+        } as any;
+
+        const result = await findReleaseByTag({ octokit: mockOctokit, owner: 'owner', repo: 'repo', tagName: 'v1.0.0' });
+
+        expect(result).toEqual({ id: 9, htmlUrl: 'draft', uploadUrl: 'upload' });
+    });
+
+    it('should return null when the tag has no release', async () => {
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    getReleaseByTag: vi.fn().mockRejectedValue(notFound),
+                    listReleases: vi.fn().mockResolvedValue({ data: [] }),
+                },
+            },
+        } as any;
+
+        expect(await findReleaseByTag({ octokit: mockOctokit, owner: 'owner', repo: 'repo', tagName: 'v1.0.0' })).toBeNull();
+    });
+
+    it('should propagate other errors from GitHub API', async () => {
+        const mockOctokit = {
+            rest: {
+                repos: {
+                    getReleaseByTag: vi.fn().mockRejectedValue(new Error('API rate limit exceeded')),
+                },
+            },
+        } as any;
+
+        await expect(
+            findReleaseByTag({ octokit: mockOctokit, owner: 'owner', repo: 'repo', tagName: 'v1.0.0' })
+        ).rejects.toThrow('API rate limit exceeded');
+    });
+});
+
+describe('updateGitHubRelease', () => {
+    it('should update the body and prerelease flag', async () => {
+        const mockUpdateRelease = vi.fn().mockResolvedValue({
+            data: { id: 7, html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0', upload_url: 'upload' },
+        });
+        const mockOctokit = { rest: { repos: { updateRelease: mockUpdateRelease } } } as any;
+
+        const result = await updateGitHubRelease({
+            octokit: mockOctokit,
+            owner: 'owner',
+            repo: 'repo',
+            releaseId: 7,
+            body: 'New notes',
+            prerelease: true,
+        });
+
+        expect(mockUpdateRelease).toHaveBeenCalledWith({
+            owner: 'owner',
+            repo: 'repo',
+            release_id: 7,
+            body: 'New notes',
+            prerelease: true,
+        });
+        expect(result.id).toBe(7);
+    });
+});
+
+describe('GitHubReleaseProvider', () => {
+    interface ReceivedRequest {
+        method: string;
+        url: string;
+        body: string;
+    }
+
+    let server: http.Server;
+    let baseUrl: string;
+    let received: ReceivedRequest[];
+    let provider: GitHubReleaseProvider;
+
+    // Local stand-in for the GitHub REST API
+    beforeEach(async () => {
+        received = [];
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => (body += chunk));
+            request.on('end', () => {
+                const url = request.url ?? '';
+                received.push({ method: request.method ?? '', url, body });
+                const release = {
+                    id: 7,
+                    tag_name: 'v1.0.0',
+                    html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0',
+                    upload_url: `${baseUrl}/uploads/repos/owner/repo/releases/7/assets{?name,label}`,
+                };
+
+                if (url === '/repos/owner/repo/releases/tags/v2.0.0') {
+                    response.writeHead(404, { 'content-type': 'application/json' }).end('{"message":"Not Found"}');
+                } else if (url.startsWith('/repos/owner/repo/releases?')) {
+                    response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify([release]));
+                } else if (url.startsWith('/uploads/')) {
+                    response.writeHead(201, { 'content-type': 'application/json' });
+                    response.end(JSON.stringify({ id: 3, name: 'app.zip', browser_download_url: 'https://github.com/download/app.zip' }));
+                } else if (request.method === 'DELETE') {
+                    response.writeHead(204).end();
+                } else {
+                    response.writeHead(request.method === 'POST' ? 201 : 200, { 'content-type': 'application/json' });
+                    response.end(JSON.stringify(release));
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        provider = new GitHubReleaseProvider({
+            octokit: github.getOctokit('test-token', { baseUrl }),
+            owner: 'owner',
+            repo: 'repo',
+            serverUrl: 'https://github.com',
+        });
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should create, find, update and delete releases', async () => {
+        const release = await provider.createRelease({
+            tagName: 'v1.0.0',
+            name: 'Release 1.0.0',
+            body: 'Notes',
+            draft: false,
+            prerelease: true,
+        });
+
+        expect(release).toEqual({
+            id: 7,
+            htmlUrl: 'https://github.com/owner/repo/releases/tag/v1.0.0',
+            uploadUrl: `${baseUrl}/uploads/repos/owner/repo/releases/7/assets{?name,label}`,
+        });
+        expect(await provider.findRelease('v1.0.0')).toEqual(release);
+        expect(await provider.findRelease('v2.0.0')).toBeNull();
+        await provider.updateRelease(release, { name: '', body: 'New notes', prerelease: false });
+        await provider.deleteRelease(release);
+
+        expect(received.map((request) => `${request.method} ${request.url}`)).toEqual([
+            'POST /repos/owner/repo/releases',
+            'GET /repos/owner/repo/releases/tags/v1.0.0',
+            'GET /repos/owner/repo/releases/tags/v2.0.0',
+            'GET /repos/owner/repo/releases?per_page=100',
+            'PATCH /repos/owner/repo/releases/7',
+            'DELETE /repos/owner/repo/releases/7',
+        ]);
+        // The tag is pushed before the release is created, so no target commit is sent
+        expect(JSON.parse(received[0].body)).toEqual({
+            tag_name: 'v1.0.0',
+            name: 'Release 1.0.0',
+            body: 'Notes',
+            draft: false,
+            prerelease: true,
+        });
+        expect(JSON.parse(received[4].body)).toEqual({ body: 'New notes', prerelease: false });
+    });
+
+    it('should upload assets to the upload URL of the release', async () => {
+        const release = await provider.findRelease('v1.0.0');
+
+        const asset = await provider.uploadAsset(release!, {
+            name: 'app.zip',
+            label: 'App',
+            contentType: 'application/zip',
+            data: Buffer.from('zip-content'),
+        });
+
+        expect(asset).toEqual({ id: 3, name: 'app.zip', url: 'https://github.com/download/app.zip' });
+        expect(received[1]).toEqual({
+            method: 'POST',
+            url: '/uploads/repos/owner/repo/releases/7/assets?name=app.zip&label=App',
+            body: 'zip-content',
+        });
+    });
+});
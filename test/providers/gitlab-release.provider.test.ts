@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GitLabReleaseProvider, toGitLabPackageVersion } from '../../src/providers/gitlab-release.provider';
+
+describe('toGitLabPackageVersion', () => {
+    it('should keep tags that are valid package versions', () => {
+        expect(toGitLabPackageVersion('v1.2.0-rc.1+build.5')).toBe('v1.2.0-rc.1+build.5');
+    });
+
+    it('should replace other characters with dashes', () => {
+        expect(toGitLabPackageVersion('@scope/pkg@1.2.0')).toBe('-scope-pkg-1.2.0');
+    });
+});
+
+describe('GitLabReleaseProvider', () => {
+    interface ReceivedRequest {
+        method: string;
+        url: string;
+        token: string;
+        contentType: string;
+        body: string;
+    }
+
+    let server: http.Server;
+    let baseUrl: string;
+    let received: ReceivedRequest[];
+    let releases: Map<string, { name: string; description: string }>;
+    let packages: { id: number; name: string; version: string }[];
+    let tags: string[];
+    let provider: GitLabReleaseProvider;
+
+    // Local stand-in for the GitLab REST API of the project group/sub/project
+    beforeEach(async () => {
+        received = [];
+        releases = new Map([['v1.0.0', { name: 'v1.0.0', description: 'Old notes' }]]);
+        packages = [];
+        tags = ['v1.0.0', 'v1.1.0'];
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => (body += chunk));
+            request.on('end', () => {
+                const method = request.method ?? '';
+                const url = request.url ?? '';
+                received.push({
+                    method,
+                    url,
+                    token: String(request.headers['private-token']),
+                    contentType: request.headers['content-type'] ?? '',
+                    body,
+                });
+                const reply = (status: number, data?: unknown) =>
+                    response
+                        .writeHead(status, { 'content-type': 'application/json' })
+                        .end(data === undefined ? '' : JSON.stringify(data));
+                const release = (tagName: string) => ({
+                    tag_name: tagName,
+                    ...releases.get(tagName),
+                    _links: { self: `https://gitlab.example.com/group/sub/project/-/releases/${tagName}` },
+                });
+
+                const prefix = '/api/v4/projects/group%2Fsub%2Fproject';
+                const match = url.slice(prefix.length).match(/^\/releases\/([^/]+)(\/assets\/links)?$/);
+                const tagName = match ? decodeURIComponent(match[1]) : '';
+                const tagMatch = url.slice(prefix.length).match(/^\/repository\/tags\/([^/]+)$/);
+                const tag = tagMatch ? decodeURIComponent(tagMatch[1]) : '';
+
+                if (!url.startsWith(prefix)) {
+                    reply(404, { message: '404 Project Not Found' });
+                } else if (tagMatch && !tags.includes(tag)) {
+                    reply(404, { message: '404 Tag Not Found' });
+                } else if (tagMatch && method === 'DELETE') {
+                    tags = tags.filter((candidate) => candidate !== tag);
+                    response.writeHead(204).end();
+                } else if (tagMatch) {
+                    reply(200, { name: tag });
+                } else if (method === 'POST' && url === `${prefix}/releases`) {
+                    const { tag_name, name, description } = JSON.parse(body);
+                    releases.set(tag_name, { name, description });
+                    reply(201, release(tag_name));
+                } else if (method === 'PUT' && url.startsWith(`${prefix}/packages/generic/`)) {
+                    const [name, version] = url.slice(`${prefix}/packages/generic/`.length).split('/');
+                    if (!packages.some((candidate) => candidate.name === name && candidate.version === version)) {
+                        packages.push({ id: packages.length + 40, name, version });
+                    }
+                    reply(201, { message: '201 Created' });
+                } else if (method === 'GET' && url.startsWith(`${prefix}/packages?`)) {
+                    // Like GitLab, the name filter matches partial names
+                    const query = new URL(url, baseUrl).searchParams;
+                    reply(
+                        200,
+                        packages.filter(
+                            (candidate) =>
+                                candidate.name.includes(query.get('package_name') ?? '') &&
+                                candidate.version === query.get('package_version')
+                        )
+                    );
+                } else if (method === 'DELETE' && url.startsWith(`${prefix}/packages/`)) {
+                    packages = packages.filter((candidate) => `${prefix}/packages/${candidate.id}` !== url);
+                    response.writeHead(204).end();
+                } else if (!releases.has(tagName)) {
+                    reply(404, { message: '404 Not found' });
+                } else if (match?.[2]) {
+                    const { name, url: linkUrl } = JSON.parse(body);
+                    reply(201, { id: 31, name, url: linkUrl, direct_asset_url: `https://gitlab.example.com/group/sub/project/-/releases/${tagName}/downloads/app.zip` });
+                } else if (method === 'PUT') {
+                    releases.set(tagName, { ...releases.get(tagName)!, ...JSON.parse(body) });
+                    reply(200, release(tagName));
+                } else if (method === 'DELETE') {
+                    const deleted = release(tagName);
+                    releases.delete(tagName);
+                    reply(200, deleted);
+                } else {
+                    reply(200, release(tagName));
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        provider = new GitLabReleaseProvider({ baseUrl: `${baseUrl}/`, token: 'gl-token', project: 'group/sub/project' });
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should find releases by tag', async () => {
+        expect(await provider.findRelease('v1.0.0')).toEqual({
+            id: 'v1.0.0',
+            htmlUrl: 'https://gitlab.example.com/group/sub/project/-/releases/v1.0.0',
+            uploadUrl: '',
+        });
+        expect(await provider.findRelease('v2.0.0')).toBeNull();
+        expect(received[0]).toMatchObject({ method: 'GET', url: '/api/v4/projects/group%2Fsub%2Fproject/releases/v1.0.0', token: 'gl-token' });
+    });
+
+    it('should create the release from the pushed tag', async () => {
+        const release = await provider.createRelease({
+            tagName: 'v1.1.0',
+            name: '',
+            body: '### Added\n\n- Export',
+            draft: false,
+            prerelease: false,
+        });
+
+        expect(release.id).toBe('v1.1.0');
+        expect(received[0]).toMatchObject({ method: 'GET', url: '/api/v4/projects/group%2Fsub%2Fproject/repository/tags/v1.1.0' });
+        expect(JSON.parse(received[1].body)).toEqual({
+            tag_name: 'v1.1.0',
+            name: 'v1.1.0',
+            description: '### Added\n\n- Export',
+        });
+    });
+
+    it('should not create a release without the pushed tag', async () => {
+        await expect(
+            provider.createRelease({ tagName: 'v2.0.0', body: '', draft: false, prerelease: false })
+        ).rejects.toThrow('Tag v2.0.0 not found in GitLab project group/sub/project. Push the tag to the project before releasing');
+        expect(received.map((request) => request.method)).toEqual(['GET']);
+        expect(releases.has('v2.0.0')).toBe(false);
+    });
+
+    it('should delete tags and report missing ones', async () => {
+        expect(await provider.deleteTag('v1.1.0')).toBe(true);
+        expect(tags).toEqual(['v1.0.0']);
+        expect(received[0]).toMatchObject({ method: 'DELETE', url: '/api/v4/projects/group%2Fsub%2Fproject/repository/tags/v1.1.0' });
+
+        expect(await provider.deleteTag('v1.1.0')).toBe(false);
+    });
+
+    it('should update and delete releases', async () => {
+        const release = (await provider.findRelease('v1.0.0'))!;
+
+        await provider.updateRelease(release, { name: '', body: 'New notes', prerelease: true });
+        expect(releases.get('v1.0.0')).toEqual({ name: 'v1.0.0', description: 'New notes' });
+
+        await provider.deleteRelease(release);
+        expect(releases.has('v1.0.0')).toBe(false);
+        expect(received.at(-2)).toMatchObject({ method: 'DELETE', url: '/api/v4/projects/group%2Fsub%2Fproject/releases/v1.0.0' });
+    });
+
+    it('should upload assets to the generic package registry and link them', async () => {
+        const release = { id: 'pkg-a@1.0.0', htmlUrl: '', uploadUrl: '' };
+        releases.set('pkg-a@1.0.0', { name: 'pkg-a@1.0.0', description: '' });
+
+        const asset = await provider.uploadAsset(release, {
+            name: 'app.zip',
+            label: 'App',
+            contentType: 'application/zip',
+            data: Buffer.from('zip-content'),
+        });
+
+        const packageUrl = '/api/v4/projects/group%2Fsub%2Fproject/packages/generic/release-assets/pkg-a-1.0.0/app.zip';
+        expect(received[0]).toEqual({
+            method: 'PUT',
+            url: packageUrl,
+            token: 'gl-token',
+            contentType: 'application/zip',
+            body: 'zip-content',
+        });
+        expect(received[1].url).toBe('/api/v4/projects/group%2Fsub%2Fproject/releases/pkg-a%401.0.0/assets/links');
+        expect(JSON.parse(received[1].body)).toEqual({
+            name: 'App',
+            url: `${baseUrl}${packageUrl}`,
+            direct_asset_path: '/app.zip',
+            link_type: 'package',
+        });
+        expect(asset).toEqual({
+            id: 31,
+            name: 'app.zip',
+            url: 'https://gitlab.example.com/group/sub/project/-/releases/pkg-a@1.0.0/downloads/app.zip',
+        });
+    });
+
+    it('should delete the uploaded assets together with the release', async () => {
+        const release = { id: 'v1.0.0', htmlUrl: '', uploadUrl: '' };
+        packages.push({ id: 7, name: 'release-assets-old', version: 'v1.0.0' }, { id: 8, name: 'release-assets', version: 'v0.9.0' });
+        await provider.uploadAsset(release, { name: 'app.zip', label: '', contentType: 'application/zip', data: Buffer.from('zip') });
+
+        await provider.deleteRelease(release);
+
+        expect(releases.has('v1.0.0')).toBe(false);
+        expect(packages).toEqual([
+            { id: 7, name: 'release-assets-old', version: 'v1.0.0' },
+            { id: 8, name: 'release-assets', version: 'v0.9.0' },
+        ]);
+        expect(received.slice(-3).map((request) => `${request.method} ${request.url}`)).toEqual([
+            'DELETE /api/v4/projects/group%2Fsub%2Fproject/releases/v1.0.0',
+            'GET /api/v4/projects/group%2Fsub%2Fproject/packages?package_type=generic&package_name=release-assets&package_version=v1.0.0',
+            'DELETE /api/v4/projects/group%2Fsub%2Fproject/packages/42',
+        ]);
+    });
+
+    it('should throw errors with the status and message of failed requests', async () => {
+        const other = new GitLabReleaseProvider({ baseUrl, token: 'gl-token', project: 'group/other' });
+
+        await expect(
+            other.updateRelease({ id: 'v1.0.0', htmlUrl: '', uploadUrl: '' }, { body: '', prerelease: false })
+        ).rejects.toMatchObject({
+            message: 'PUT /api/v4/projects/group%2Fother/releases/v1.0.0 failed with HTTP 404: {"message":"404 Project Not Found"}',
+            status: 404,
+        });
+    });
+});
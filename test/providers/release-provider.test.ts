@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { parseReleaseProvider } from '../../src/providers/release-provider';
+
+describe('parseReleaseProvider', () => {
+    it('should default to github', () => {
+        expect(parseReleaseProvider('')).toBe('github');
+    });
+
+    it('should accept gitlab and gitea', () => {
+        expect(parseReleaseProvider('gitlab')).toBe('gitlab');
+        expect(parseReleaseProvider('gitea')).toBe('gitea');
+    });
+
+    it('should throw error for unknown providers', () => {
+        expect(() => parseReleaseProvider('bitbucket')).toThrow(
+            'Invalid release-provider: bitbucket. Expected one of: github, gitlab, gitea'
+        );
+    });
+});
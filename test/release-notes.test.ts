@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_COMMIT_GROUPS, parseCommitGroups, renderCommitNotes } from '../src/release-notes';
+
+const commits = [
+    { sha: 'aaaaaaa1111', author: 'Jane', message: 'feat(ui): dark mode' },
+    { sha: 'bbbbbbb2222', author: 'John', message: 'fix: crash on start' },
+    { sha: 'ccccccc3333', author: 'Jane', message: 'feat!: new API\n\nBREAKING CHANGE: v1 endpoints are gone' },
+    { sha: 'ddddddd4444', author: 'John', message: 'docs: typo' },
+    { sha: 'eeeeeee5555', author: 'Ann', message: 'Update README' },
+];
+
+describe('parseCommitGroups', () => {
+    it('should return the default groups for empty input', () => {
+        expect(parseCommitGroups('')).toBe(DEFAULT_COMMIT_GROUPS);
+    });
+
+    it('should parse groups in input order', () => {
+        expect(parseCommitGroups('fix, perf: Fixes\n\n  Feat: Features  \n*: Other')).toEqual([
+            { title: 'Fixes', types: ['fix', 'perf'] },
+            { title: 'Features', types: ['feat'] },
+            { title: 'Other', types: ['*'] },
+        ]);
+    });
+
+    it('should throw error for malformed lines', () => {
+        expect(() => parseCommitGroups('Features')).toThrow('Invalid commit-groups line: "Features"');
+        expect(() => parseCommitGroups(' , : Empty')).toThrow('Invalid commit-groups line');
+    });
+});
+
+describe('renderCommitNotes', () => {
+    it('should group commits with the default groups and drop unmatched ones', () => {
+        const notes = renderCommitNotes(commits, { groups: DEFAULT_COMMIT_GROUPS, includeAuthors: false });
+
+        expect(notes).toBe(
+            '### Breaking Changes\n\n- v1 endpoints are gone (ccccccc)\n\n' +
+                '### Features\n\n- **ui:** dark mode (aaaaaaa)\n\n' +
+                '### Bug Fixes\n\n- crash on start (bbbbbbb)',
+        );
+    });
+
+    it('should follow the configured order, collect other commits and append authors', () => {
+        const groups = [
+            { title: 'Fixes', types: ['fix'] },
+            { title: 'Features', types: ['feat'] },
+            { title: 'Other', types: ['*'] },
+        ];
+
+        const notes = renderCommitNotes(commits, { groups, includeAuthors: true });
+
+        expect(notes).toBe(
+            '### Fixes\n\n- crash on start (bbbbbbb) by John\n\n' +
+                '### Features\n\n- **ui:** dark mode (aaaaaaa) by Jane\n- new API (ccccccc) by Jane\n\n' +
+                '### Other\n\n- typo (ddddddd) by John\n- Update README (eeeeeee) by Ann',
+        );
+    });
+
+    it('should return empty string when no commit matches', () => {
+        expect(renderCommitNotes([commits[3]], { groups: DEFAULT_COMMIT_GROUPS, includeAuthors: false })).toBe('');
+    });
+});
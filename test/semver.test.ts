@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { parseSemver, compareSemver, classifyBump, isPrereleaseVersion, parseDowngradePolicy } from '../src/semver';
+
+function semver(version: string) {
+    const parsed = parseSemver(version);
+    if (!parsed) {
+        throw new Error(`Invalid test version: ${version}`);
+    }
+    return parsed;
+}
+
+describe('parseSemver', () => {
+    it('should parse a plain version', () => {
+        expect(parseSemver('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [], build: [] });
+    });
+
+    it('should parse prerelease identifiers and build metadata', () => {
+        expect(parseSemver('1.0.0-rc.1+build.5')).toEqual({
+            major: 1,
+            minor: 0,
+            patch: 0,
+            prerelease: ['rc', '1'],
+            build: ['build', '5'],
+        });
+    });
+
+    it('should ignore a leading "v"', () => {
+        expect(parseSemver('v2.0.0')?.major).toBe(2);
+    });
+
+    it('should return null for invalid versions', () => {
+        const invalid = ['', '1.0', '1.0.0.0', '01.0.0', '1.0.0-', '1.0.0-01', 'latest', '1.0.0+'];
+
+        invalid.forEach((version) => {
+            expect(parseSemver(version)).toBeNull();
+        });
+    });
+});
+
+describe('compareSemver', () => {
+    it('should compare major, minor and patch numerically', () => {
+        expect(compareSemver(semver('1.10.0'), semver('1.9.0'))).toBe(1);
+        expect(compareSemver(semver('1.0.9'), semver('1.0.10'))).toBe(-1);
+        expect(compareSemver(semver('2.0.0'), semver('1.99.99'))).toBe(1);
+    });
+
+    it('should rank prereleases below the release', () => {
+        expect(compareSemver(semver('1.0.0-rc.1'), semver('1.0.0'))).toBe(-1);
+        expect(compareSemver(semver('1.0.0'), semver('1.0.0-rc.1'))).toBe(1);
+    });
+
+    it('should follow the semver.org precedence example', () => {
+        const ordered = [
+            '1.0.0-alpha',
+            '1.0.0-alpha.1',
+            '1.0.0-alpha.beta',
+            '1.0.0-beta',
+            '1.0.0-beta.2',
+            '1.0.0-beta.11',
+            '1.0.0-rc.1',
+            '1.0.0',
+        ];
+
+        for (let i = 0; i < ordered.length - 1; i++) {
+            expect(compareSemver(semver(ordered[i]), semver(ordered[i + 1]))).toBe(-1);
+            expect(compareSemver(semver(ordered[i + 1]), semver(ordered[i]))).toBe(1);
+        }
+    });
+
+    it('should ignore build metadata', () => {
+        expect(compareSemver(semver('1.0.0+a'), semver('1.0.0+b'))).toBe(0);
+    });
+});
+
+describe('classifyBump', () => {
+    it('should classify major, minor and patch bumps', () => {
+        expect(classifyBump(semver('1.2.3'), semver('2.0.0'))).toBe('major');
+        expect(classifyBump(semver('1.2.3'), semver('1.3.0'))).toBe('minor');
+        expect(classifyBump(semver('1.2.3'), semver('1.2.4'))).toBe('patch');
+    });
+
+    it('should classify any prerelease version as prerelease', () => {
+        expect(classifyBump(semver('1.2.3'), semver('2.0.0-beta.1'))).toBe('prerelease');
+        expect(classifyBump(semver('2.0.0-beta.1'), semver('2.0.0-beta.2'))).toBe('prerelease');
+    });
+
+    it('should classify the release of a prerelease by its target version', () => {
+        expect(classifyBump(semver('2.0.0-rc.1'), semver('2.0.0'))).toBe('major');
+        expect(classifyBump(semver('1.3.0-rc.1'), semver('1.3.0'))).toBe('minor');
+        expect(classifyBump(semver('1.2.4-rc.1'), semver('1.2.4'))).toBe('patch');
+    });
+
+    it('should detect downgrades', () => {
+        expect(classifyBump(semver('2.1.0'), semver('2.0.9'))).toBe('downgrade');
+        expect(classifyBump(semver('1.0.0'), semver('1.0.0-rc.1'))).toBe('downgrade');
+    });
+
+    it('should detect unchanged and build-only changes', () => {
+        expect(classifyBump(semver('1.0.0'), semver('1.0.0'))).toBe('none');
+        expect(classifyBump(semver('1.0.0'), semver('1.0.0+build.1'))).toBe('build');
+    });
+});
+
+describe('isPrereleaseVersion', () => {
+    it('should treat any prerelease identifier as prerelease by default', () => {
+        expect(isPrereleaseVersion(semver('1.3.0-beta.2'), [], false)).toBe(true);
+        expect(isPrereleaseVersion(semver('1.3.0-nightly'), [], false)).toBe(true);
+        expect(isPrereleaseVersion(semver('1.3.0'), [], false)).toBe(false);
+    });
+
+    it('should only match configured identifiers', () => {
+        const identifiers = ['alpha', 'beta', 'rc'];
+
+        expect(isPrereleaseVersion(semver('1.3.0-rc.1'), identifiers, false)).toBe(true);
+        expect(isPrereleaseVersion(semver('1.3.0-Beta2'), identifiers, false)).toBe(true);
+        expect(isPrereleaseVersion(semver('1.3.0-hotfix.1'), identifiers, false)).toBe(false);
+    });
+
+    it('should ignore build metadata', () => {
+        expect(isPrereleaseVersion(semver('1.3.0+beta'), [], false)).toBe(false);
+    });
+
+    it('should optionally treat 0.x versions as prereleases', () => {
+        expect(isPrereleaseVersion(semver('0.9.0'), [], true)).toBe(true);
+        expect(isPrereleaseVersion(semver('0.9.0'), [], false)).toBe(false);
+    });
+});
+
+describe('parseDowngradePolicy', () => {
+    it('should default to error', () => {
+        expect(parseDowngradePolicy('')).toBe('error');
+    });
+
+    it('should accept known policies', () => {
+        expect(parseDowngradePolicy('skip')).toBe('skip');
+        expect(parseDowngradePolicy('warn')).toBe('warn');
+    });
+
+    it('should throw error for unknown policies', () => {
+        expect(() => parseDowngradePolicy('ignore')).toThrow('Invalid downgrade-policy: ignore');
+    });
+});
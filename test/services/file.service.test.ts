@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { FileService } from '../../src/services/file.service';
+import { DryRunFileService, FileService } from '../../src/services/file.service';
 import * as fs from 'fs';
+import * as path from 'path';
 import * as core from '@actions/core';
+import * as glob from '@actions/glob';
 
-// Mock the fs and core modules
+// Mock the fs, core and glob modules
 vi.mock('fs');
 vi.mock('@actions/core');
+vi.mock('@actions/glob');
 
 describe('FileService', () => {
     let fileService: FileService;
@@ -89,6 +92,46 @@ describe('FileService', () => {
         });
     });
 
+    describe('readFileBuffer', () => {
+        it('should read binary file content', () => {
+            const content = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+            mockReadFileSync.mockReturnValue(content);
+
+            const result = fileService.readFileBuffer('dist/app.zip');
+
+            expect(result).toBe(content);
+            expect(mockReadFileSync).toHaveBeenCalledWith('dist/app.zip');
+        });
+
+        it('should throw error when file cannot be read', () => {
+            mockReadFileSync.mockImplementation(() => {
+                throw new Error('ENOENT: no such file or directory');
+            });
+
+            expect(() => fileService.readFileBuffer('dist/missing.zip')).toThrow('Failed to read file dist/missing.zip');
+        });
+    });
+
+    describe('writeFile', () => {
+        it('should write file content', () => {
+            const mockWriteFileSync = vi.mocked(fs.writeFileSync);
+
+            fileService.writeFile('CHANGELOG.md', '# Changelog\n');
+
+            expect(mockWriteFileSync).toHaveBeenCalledWith('CHANGELOG.md', '# Changelog\n', 'utf8');
+        });
+
+        it('should throw error when file cannot be written', () => {
+            vi.mocked(fs.writeFileSync).mockImplementation(() => {
+                throw new Error('EACCES: permission denied');
+            });
+
+            expect(() => fileService.writeFile('/readonly/CHANGELOG.md', '')).toThrow(
+                'Failed to write file /readonly/CHANGELOG.md'
+            );
+        });
+    });
+
     describe('fileExists', () => {
         it('should return true when file exists', () => {
             mockExistsSync.mockReturnValue(true);
@@ -137,4 +180,74 @@ describe('FileService', () => {
             expect(result).toBe(false);
         });
     });
+
+    describe('findDirectories', () => {
+        it('should return matching directories relative to the working directory', async () => {
+            const cwd = process.cwd();
+            const mockGlob = vi.fn().mockResolvedValue([
+                path.join(cwd, 'packages/a'),
+                path.join(cwd, 'packages/README.md'),
+                path.join(cwd, 'packages/b'),
+            ]);
+            vi.mocked(glob.create).mockResolvedValue({ glob: mockGlob } as any);
+            vi.mocked(fs.statSync).mockImplementation(
+                (filePath: any) => ({ isDirectory: () => !String(filePath).endsWith('.md') }) as any,
+            );
+
+            const result = await fileService.findDirectories(['packages/*', '!packages/internal']);
+
+            expect(glob.create).toHaveBeenCalledWith('packages/*\n!packages/internal', { implicitDescendants: false });
+            expect(result).toEqual(['packages/a', 'packages/b']);
+        });
+
+        it('should return "." for the working directory itself', async () => {
+            vi.mocked(glob.create).mockResolvedValue({ glob: vi.fn().mockResolvedValue([process.cwd()]) } as any);
+            vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => true } as any);
+
+            const result = await fileService.findDirectories(['.']);
+
+            expect(result).toEqual(['.']);
+        });
+    });
+
+    describe('findFiles', () => {
+        it('should return matching files relative to the working directory', async () => {
+            const cwd = process.cwd();
+            const mockGlob = vi.fn().mockResolvedValue([path.join(cwd, 'dist/app.zip'), path.join(cwd, 'dist/app.sig')]);
+            vi.mocked(glob.create).mockResolvedValue({ glob: mockGlob } as any);
+
+            const result = await fileService.findFiles(['dist/*']);
+
+            expect(glob.create).toHaveBeenCalledWith('dist/*', { matchDirectories: false });
+            expect(result).toEqual(['dist/app.zip', 'dist/app.sig']);
+        });
+    });
+});
+
+describe('DryRunFileService', () => {
+    let fileService: DryRunFileService;
+
+    beforeEach(() => {
+        fileService = new DryRunFileService();
+        vi.clearAllMocks();
+    });
+
+    it('should keep written content in memory', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(false);
+
+        fileService.writeFile('CHANGELOG.md', '# Changelog\n');
+
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+        expect(core.info).toHaveBeenCalledWith('🧪 Dry run: would write CHANGELOG.md');
+        expect(fileService.fileExists('CHANGELOG.md')).toBe(true);
+        expect(fileService.readFile('CHANGELOG.md')).toBe('# Changelog\n');
+    });
+
+    it('should read files from disk that were not written', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue('{"version":"1.0.0"}');
+
+        expect(fileService.fileExists('package.json')).toBe(true);
+        expect(fileService.readFile('package.json')).toBe('{"version":"1.0.0"}');
+    });
 });
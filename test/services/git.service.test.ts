@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GitService } from '../../src/services/git.service';
+import { DryRunGitService, GitService } from '../../src/services/git.service';
+import { TagSigner } from '../../src/services/tag-signer';
 import * as actionsExec from '@actions/exec';
 import * as core from '@actions/core';
 
@@ -35,39 +36,68 @@ describe('GitService', () => {
         });
     });
 
+    /**
+     * Answer git commands by their subcommand; commands without a response succeed without output
+     */
+    const mockGitCommands = (responses: Record<string, { exitCode?: number; output?: string; error?: string }>) => {
+        mockExec.mockImplementation(async (_command: string, args: string[], options: any) => {
+            const response = responses[args[0]] ?? {};
+            if (response.output) options?.listeners?.stdout?.(Buffer.from(response.output));
+            if (response.error) options?.listeners?.stderr?.(Buffer.from(response.error));
+            return response.exitCode ?? 0;
+        });
+    };
+
+    const tagRefs = (tags: Record<string, string>) =>
+        Object.entries(tags)
+            .map(([tag, sha]) => `${sha}\trefs/tags/${tag}\n`)
+            .join('');
+
     describe('getTags', () => {
         it('should return array of tags when git command succeeds', async () => {
-            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
-                options.listeners.stdout(Buffer.from('v1.2.3\nv1.2.2\nv1.2.1\n'));
-                return 0;
+            const refs = tagRefs({ 'v1.2.1': 'aaa', 'v1.2.2': 'bbb', 'v1.2.3': 'ccc' });
+            mockGitCommands({
+                'ls-remote': { output: refs },
+                'for-each-ref': { output: refs },
+                tag: { output: 'v1.2.3\nv1.2.2\nv1.2.1\n' },
             });
 
             const result = await gitService.getTags('v');
 
             expect(result).toEqual(['v1.2.3', 'v1.2.2', 'v1.2.1']);
+            expect(mockExec).toHaveBeenCalledWith('git', ['ls-remote', '--tags', '--refs', 'origin'], expect.any(Object));
             expect(mockExec).toHaveBeenCalledWith(
                 'git',
                 ['tag', '-l', 'v*', '--sort=-v:refname'],
                 expect.any(Object)
             );
+            expect(mockExec).not.toHaveBeenCalledWith('git', expect.arrayContaining(['fetch']), expect.any(Object));
+            expect(mockWarning).not.toHaveBeenCalled();
         });
 
-        it('should return empty array when no tags found', async () => {
-            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
-                options.listeners.stdout(Buffer.from(''));
-                return 0;
+        it('should sort prerelease tags below the release they lead up to', async () => {
+            const refs = tagRefs({ 'v1.0.0': 'aaa', 'v1.1.0-rc.1': 'bbb', 'v1.1.0-rc.2': 'ccc', 'v1.1.0': 'ddd' });
+            mockGitCommands({
+                'ls-remote': { output: refs },
+                'for-each-ref': { output: refs },
+                tag: { output: 'v1.1.0-rc.2\nv1.1.0-rc.1\nv1.1.0\nv1.0.0\n' }
             });
 
             const result = await gitService.getTags('v');
 
+            expect(result).toEqual(['v1.1.0', 'v1.1.0-rc.2', 'v1.1.0-rc.1', 'v1.0.0']);
+        });
+
+        it('should return empty array when no tags found', async () => {
+            mockGitCommands({});
+
+            const result = await gitService.getTags('v');
+
             expect(result).toEqual([]);
         });
 
         it('should return empty array and log warning when git command fails', async () => {
-            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
-                options.listeners.stderr(Buffer.from('git error message'));
-                return 1;
-            });
+            mockGitCommands({ tag: { exitCode: 1, error: 'git error message' } });
 
             const result = await gitService.getTags('v');
 
@@ -76,25 +106,135 @@ describe('GitService', () => {
         });
 
         it('should filter out empty lines and trim whitespace', async () => {
-            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
-                options.listeners.stdout(Buffer.from('  v1.2.3  \n\nv1.2.2\n\n'));
-                return 0;
+            const refs = tagRefs({ 'v1.2.2': 'bbb', 'v1.2.3': 'ccc' });
+            mockGitCommands({
+                'ls-remote': { output: refs },
+                'for-each-ref': { output: refs },
+                tag: { output: '  v1.2.3  \n\nv1.2.2\n\n' },
             });
 
             const result = await gitService.getTags('v');
 
             expect(result).toEqual(['v1.2.3', 'v1.2.2']);
         });
+
+        it('should fetch the tags of a shallow clone from origin', async () => {
+            mockGitCommands({
+                'ls-remote': { output: tagRefs({ 'v1.0.0': 'aaa', 'v1.1.0': 'bbb' }) },
+                'rev-parse': { output: 'true\n' },
+                tag: { output: 'v1.1.0\nv1.0.0\n' },
+            });
+
+            const result = await gitService.getTags('v');
+
+            expect(result).toEqual(['v1.1.0', 'v1.0.0']);
+            expect(mockExec).toHaveBeenCalledWith('git', ['rev-parse', '--is-shallow-repository'], expect.any(Object));
+            expect(mockExec).toHaveBeenCalledWith('git', ['fetch', '--force', '--tags', 'origin'], expect.any(Object));
+            expect(mockWarning).toHaveBeenCalledWith(
+                'Shallow clone: fetching 2 tag(s) from origin. Set fetch-depth: 0 on actions/checkout to fetch the history and tags up front'
+            );
+        });
+
+        it('should fetch tags that point at a different object on origin', async () => {
+            mockGitCommands({
+                'ls-remote': { output: tagRefs({ 'v1.0.0': 'aaa', v1: 'new' }) },
+                'for-each-ref': { output: tagRefs({ 'v1.0.0': 'aaa', v1: 'old' }) },
+                'rev-parse': { output: 'false\n' },
+            });
+
+            await gitService.getTags('v');
+
+            expect(mockExec).toHaveBeenCalledWith('git', ['fetch', '--force', '--tags', 'origin'], expect.any(Object));
+            expect(mockWarning).toHaveBeenCalledWith('1 tag(s) on origin are missing or differ locally, fetching them: v1');
+        });
+
+        it('should throw error when the tags cannot be fetched', async () => {
+            mockGitCommands({
+                'ls-remote': { output: tagRefs({ 'v1.0.0': 'aaa' }) },
+                fetch: { exitCode: 128, error: 'fatal: could not read from remote repository\n' },
+            });
+
+            await expect(gitService.getTags('v')).rejects.toThrow(
+                'Failed to fetch tags from origin: fatal: could not read from remote repository'
+            );
+        });
+
+        it('should read the tags listed on origin instead of fetching them in a dry run', async () => {
+            gitService = new GitService({ fetchTags: false });
+            mockGitCommands({
+                'ls-remote': { output: tagRefs({ 'v1.0.0': 'aaa', 'v1.10.0': 'ccc', 'v1.2.0': 'bbb', 'pkg-v1.0.0': 'ddd' }) },
+                'for-each-ref': { output: tagRefs({ 'v1.0.0': 'aaa' }) },
+                tag: { output: 'v1.0.0\n' },
+            });
+
+            const result = await gitService.getTags('v');
+
+            expect(result).toEqual(['v1.10.0', 'v1.2.0', 'v1.0.0']);
+            expect(await gitService.tagExists('v1.2.0')).toBe(true);
+            expect(mockExec).not.toHaveBeenCalledWith('git', ['fetch', '--force', '--tags', 'origin'], expect.any(Object));
+            expect(mockWarning).toHaveBeenCalledWith(
+                '3 tag(s) on origin are missing or differ locally and are not fetched in a dry run, using the tags on origin: v1.10.0, v1.2.0, pkg-v1.0.0'
+            );
+        });
+
+        it('should ignore local tags that do not exist on origin', async () => {
+            mockGitCommands({
+                'ls-remote': { output: tagRefs({ 'v1.0.0': 'aaa' }) },
+                'for-each-ref': { output: tagRefs({ 'v1.0.0': 'aaa', 'v1.1.0': 'bbb' }) },
+                tag: { output: 'v1.1.0\nv1.0.0\n' },
+            });
+
+            const result = await gitService.getTags('v');
+
+            expect(result).toEqual(['v1.0.0']);
+            expect(mockWarning).toHaveBeenCalledWith('1 local tag(s) do not exist on origin and are ignored: v1.1.0');
+        });
+
+        it('should use local tags when origin cannot be listed', async () => {
+            mockGitCommands({
+                'ls-remote': { exitCode: 128, error: "fatal: 'origin' does not appear to be a git repository\n" },
+                tag: { output: 'v1.0.0\n' },
+            });
+
+            const result = await gitService.getTags('v');
+
+            expect(result).toEqual(['v1.0.0']);
+            expect(mockWarning).toHaveBeenCalledWith(
+                "Could not list tags on origin, using local tags only: fatal: 'origin' does not appear to be a git repository"
+            );
+        });
+
+        it('should compare with origin only once', async () => {
+            mockGitCommands({});
+
+            await gitService.getTags('v');
+            await gitService.getTags('pkg-v');
+            await gitService.tagExists('v1.0.0');
+
+            const listings = mockExec.mock.calls.filter(([, args]: [string, string[]]) => args[0] === 'ls-remote');
+            expect(listings).toHaveLength(1);
+        });
     });
 
     describe('tagExists', () => {
-        it('should return true when tag exists', async () => {
-            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
-                if (options && options.listeners && typeof options.listeners.stdout === 'function') {
-                    options.listeners.stdout(Buffer.from(''));
-                }
-                return 0;
-            });
+        it('should return true when the tag exists on origin', async () => {
+            mockGitCommands({ 'ls-remote': { output: tagRefs({ 'v1.0.0': 'aaa' }) } });
+
+            const result = await gitService.tagExists('v1.0.0');
+
+            expect(result).toBe(true);
+        });
+
+        it('should return false when the tag only exists locally', async () => {
+            mockGitCommands({ 'for-each-ref': { output: tagRefs({ 'v1.0.0': 'aaa' }) } });
+
+            const result = await gitService.tagExists('v1.0.0');
+
+            expect(result).toBe(false);
+        });
+
+        it('should check the local tag when origin cannot be listed', async () => {
+            mockGitCommands({ 'ls-remote': { exitCode: 128 } });
 
             const result = await gitService.tagExists('v1.0.0');
 
@@ -107,12 +247,7 @@ describe('GitService', () => {
         });
 
         it('should return false when tag does not exist', async () => {
-            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
-                if (options && options.listeners && typeof options.listeners.stdout === 'function') {
-                    options.listeners.stdout(Buffer.from(''));
-                }
-                return 1;
-            });
+            mockGitCommands({ 'ls-remote': { exitCode: 128 }, 'rev-parse': { exitCode: 1 } });
 
             const result = await gitService.tagExists('v999.0.0');
 
@@ -133,6 +268,145 @@ describe('GitService', () => {
             expect(mockExec).toHaveBeenNthCalledWith(4, 'git', ['push', 'origin', 'v1.0.0']);
             expect(mockInfo).toHaveBeenCalledWith('Created and pushed tag: v1.0.0');
         });
+
+        it('should replace a local tag that was never pushed', async () => {
+            mockGitCommands({ 'for-each-ref': { output: tagRefs({ 'v1.0.0': 'aaa' }) } });
+            await gitService.tagExists('v1.0.0');
+            mockExec.mockClear();
+
+            await gitService.createTag('v1.0.0', 'Release v1.0.0');
+
+            expect(mockExec).toHaveBeenNthCalledWith(3, 'git', ['tag', '-d', 'v1.0.0']);
+            expect(mockExec).toHaveBeenNthCalledWith(4, 'git', ['tag', '-a', 'v1.0.0', '-m', 'Release v1.0.0']);
+            expect(await gitService.tagExists('v1.0.0')).toBe(true);
+        });
+    });
+
+    describe('createTag with a signer', () => {
+        const signingArgs = ['-c', 'gpg.format=ssh', '-c', 'user.signingkey=/tmp/key'];
+        let signer: TagSigner;
+
+        beforeEach(() => {
+            signer = new TagSigner({ format: 'ssh', key: 'KEY', passphrase: '', email: 'release@example.com' });
+            vi.spyOn(signer, 'getConfigArgs').mockReturnValue(signingArgs);
+            gitService = new GitService({ userName: 'Release Bot', userEmail: 'release@example.com', signer });
+        });
+
+        it('should configure the user, sign and verify the tag, and push', async () => {
+            mockExec.mockResolvedValue(0);
+
+            await gitService.createTag('v1.0.0', 'Release v1.0.0');
+
+            expect(mockExec).toHaveBeenNthCalledWith(1, 'git', ['config', 'user.name', 'Release Bot']);
+            expect(mockExec).toHaveBeenNthCalledWith(2, 'git', ['config', 'user.email', 'release@example.com']);
+            expect(mockExec).toHaveBeenNthCalledWith(3, 'git', [...signingArgs, 'tag', '-s', 'v1.0.0', '-m', 'Release v1.0.0']);
+            expect(mockExec).toHaveBeenNthCalledWith(4, 'git', [...signingArgs, 'tag', '-v', 'v1.0.0'], expect.anything());
+            expect(mockExec).toHaveBeenNthCalledWith(5, 'git', ['push', 'origin', 'v1.0.0']);
+            expect(mockInfo).toHaveBeenCalledWith('Created and pushed signed tag: v1.0.0');
+        });
+
+        it('should delete the tag and not push it when the signature cannot be verified', async () => {
+            mockExec.mockImplementation(async (_command: string, args: string[], options: any) => {
+                if (args.includes('-v')) {
+                    options.listeners.stderr(Buffer.from('error: no signature found\n'));
+                    return 1;
+                }
+                return 0;
+            });
+
+            await expect(gitService.createTag('v1.0.0', 'Release v1.0.0')).rejects.toThrow(
+                'Signature verification failed for tag v1.0.0: error: no signature found'
+            );
+            expect(mockExec).toHaveBeenCalledWith('git', ['tag', '-d', 'v1.0.0']);
+            expect(mockExec).not.toHaveBeenCalledWith('git', ['push', 'origin', 'v1.0.0']);
+        });
+    });
+
+    describe('deleteTag', () => {
+        it('should delete the tag on origin and locally', async () => {
+            mockExec.mockResolvedValue(0);
+
+            await gitService.deleteTag('v1.0.0');
+
+            expect(mockExec).toHaveBeenCalledTimes(2);
+            expect(mockExec).toHaveBeenNthCalledWith(1, 'git', ['push', 'origin', '--delete', 'refs/tags/v1.0.0']);
+            expect(mockExec).toHaveBeenNthCalledWith(2, 'git', ['tag', '-d', 'v1.0.0']);
+            expect(mockInfo).toHaveBeenCalledWith('Deleted tag: v1.0.0');
+        });
+    });
+
+    describe('moveTag', () => {
+        it('should point the tag at the commit of the target tag and force-push it', async () => {
+            mockExec.mockResolvedValue(0);
+
+            await gitService.moveTag('v1', 'v1.2.0');
+
+            expect(mockExec).toHaveBeenCalledTimes(2);
+            expect(mockExec).toHaveBeenNthCalledWith(1, 'git', ['tag', '-f', 'v1', 'v1.2.0^{commit}']);
+            expect(mockExec).toHaveBeenNthCalledWith(2, 'git', ['push', '--force', 'origin', 'refs/tags/v1']);
+            expect(mockInfo).toHaveBeenCalledWith('Moved tag v1 to v1.2.0');
+        });
+    });
+
+    describe('commitAndPush', () => {
+        it('should configure git, commit the files, and push', async () => {
+            mockExec.mockResolvedValue(0);
+
+            await gitService.commitAndPush(['CHANGELOG.md'], 'Update changelog for v1.1.0');
+
+            expect(mockExec).toHaveBeenCalledTimes(5);
+            expect(mockExec).toHaveBeenNthCalledWith(1, 'git', ['config', 'user.name', 'github-actions[bot]']);
+            expect(mockExec).toHaveBeenNthCalledWith(2, 'git', ['config', 'user.email', 'github-actions[bot]@users.noreply.github.com']);
+            expect(mockExec).toHaveBeenNthCalledWith(3, 'git', ['add', '--', 'CHANGELOG.md']);
+            expect(mockExec).toHaveBeenNthCalledWith(4, 'git', ['commit', '-m', 'Update changelog for v1.1.0']);
+            expect(mockExec).toHaveBeenNthCalledWith(5, 'git', ['push', 'origin', 'HEAD']);
+            expect(mockInfo).toHaveBeenCalledWith('Committed and pushed: CHANGELOG.md');
+        });
+    });
+
+    describe('getCommits', () => {
+        it('should parse commits between the ref and HEAD', async () => {
+            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
+                options.listeners.stdout(
+                    Buffer.from('abc123\x1fJane Doe\x1ffeat: add thing\n\nLonger body\n\x1e\ndef456\x1fJohn\x1ffix: bug\n\x1e\n')
+                );
+                return 0;
+            });
+
+            const result = await gitService.getCommits('v1.0.0', ['packages/a']);
+
+            expect(result).toEqual([
+                { sha: 'abc123', author: 'Jane Doe', message: 'feat: add thing\n\nLonger body' },
+                { sha: 'def456', author: 'John', message: 'fix: bug' },
+            ]);
+            expect(mockExec).toHaveBeenCalledWith(
+                'git',
+                ['log', '--no-merges', '--format=%H%x1f%an%x1f%B%x1e', 'v1.0.0..HEAD', '--', 'packages/a'],
+                expect.any(Object)
+            );
+        });
+
+        it('should read the whole history without a ref', async () => {
+            await gitService.getCommits(null);
+
+            expect(mockExec).toHaveBeenCalledWith(
+                'git',
+                ['log', '--no-merges', '--format=%H%x1f%an%x1f%B%x1e', 'HEAD'],
+                expect.any(Object)
+            );
+        });
+
+        it('should return empty array and log warning when git log fails', async () => {
+            mockExec.mockImplementation(async (_command: string, _args: string[], options: any) => {
+                options.listeners.stderr(Buffer.from('bad revision'));
+                return 128;
+            });
+
+            const result = await gitService.getCommits('v9.9.9');
+
+            expect(result).toEqual([]);
+            expect(mockWarning).toHaveBeenCalledWith('git log command failed: bad revision');
+        });
     });
 
     describe('getFileFromTag', () => {
@@ -165,3 +439,68 @@ describe('GitService', () => {
         });
     });
 });
+
+describe('DryRunGitService', () => {
+    let gitService: DryRunGitService;
+
+    beforeEach(() => {
+        gitService = new DryRunGitService();
+        vi.clearAllMocks();
+    });
+
+    it('should only log tags', async () => {
+        await gitService.createTag('v1.0.0', 'Release v1.0.0');
+
+        expect(actionsExec.exec).not.toHaveBeenCalled();
+        expect(core.info).toHaveBeenCalledWith('🧪 Dry run: would create and push tag v1.0.0 ("Release v1.0.0")');
+    });
+
+    it('should only log deleted tags', async () => {
+        await gitService.deleteTag('v1.0.0');
+
+        expect(actionsExec.exec).not.toHaveBeenCalled();
+        expect(core.info).toHaveBeenCalledWith('🧪 Dry run: would delete tag v1.0.0');
+    });
+
+    it('should only log moved tags', async () => {
+        await gitService.moveTag('v1', 'v1.2.0');
+
+        expect(actionsExec.exec).not.toHaveBeenCalled();
+        expect(core.info).toHaveBeenCalledWith('🧪 Dry run: would move tag v1 to v1.2.0');
+    });
+
+    it('should only log commits', async () => {
+        await gitService.commitAndPush(['CHANGELOG.md'], 'Update changelog for v1.0.0');
+
+        expect(actionsExec.exec).not.toHaveBeenCalled();
+        expect(core.info).toHaveBeenCalledWith(
+            '🧪 Dry run: would commit and push CHANGELOG.md ("Update changelog for v1.0.0")'
+        );
+    });
+
+    it('should pass reads to the wrapped service', async () => {
+        const wrapped = new GitService();
+        vi.spyOn(wrapped, 'tagExists').mockResolvedValue(true);
+        vi.spyOn(wrapped, 'getCommits').mockResolvedValue([]);
+        vi.spyOn(wrapped, 'getFileFromTag').mockResolvedValue('content');
+        const mockCreateTag = vi.spyOn(wrapped, 'createTag');
+        const dryRunService = new DryRunGitService(wrapped);
+
+        expect(await dryRunService.tagExists('v1.0.0')).toBe(true);
+        expect(await dryRunService.getCommits('v1.0.0', ['packages/a'])).toEqual([]);
+        expect(await dryRunService.getFileFromTag('v1.0.0', 'package.json')).toBe('content');
+        expect(wrapped.getCommits).toHaveBeenCalledWith('v1.0.0', ['packages/a']);
+
+        await dryRunService.createTag('v1.0.0', 'Release v1.0.0');
+        expect(mockCreateTag).not.toHaveBeenCalled();
+    });
+
+    it('should still read tags', async () => {
+        vi.mocked(actionsExec.exec).mockImplementation(async (_command: string, _args?: string[], options?: any) => {
+            options.listeners.stdout(Buffer.from('v1.0.0\n'));
+            return 0;
+        });
+
+        expect(await gitService.getTags('v')).toEqual(['v1.0.0']);
+    });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as core from '@actions/core';
+import { GitHubApiGitService } from '../../src/services/github-api-git.service';
+
+// Mock the fs and core modules
+vi.mock('fs');
+vi.mock('@actions/core');
+
+const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+
+describe('GitHubApiGitService', () => {
+    let octokit: any;
+    let gitService: GitHubApiGitService;
+
+    const createService = (ref = 'refs/heads/main') =>
+        new GitHubApiGitService({ octokit, owner: 'owner', repo: 'repo', sha: 'head-sha', ref });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        octokit = {
+            paginate: vi.fn(),
+            rest: {
+                git: {
+                    listMatchingRefs: vi.fn(),
+                    getRef: vi.fn(),
+                    getTag: vi.fn().mockResolvedValue({ data: { object: { sha: 'commit-sha' } } }),
+                    createTag: vi.fn().mockResolvedValue({ data: { sha: 'tag-sha' } }),
+                    createRef: vi.fn().mockResolvedValue({}),
+                    deleteRef: vi.fn().mockResolvedValue({}),
+                    getCommit: vi.fn().mockResolvedValue({ data: { tree: { sha: 'base-tree' } } }),
+                    createTree: vi.fn().mockResolvedValue({ data: { sha: 'new-tree' } }),
+                    createCommit: vi.fn().mockResolvedValue({ data: { sha: 'new-commit' } }),
+                    updateRef: vi.fn().mockResolvedValue({}),
+                },
+                repos: {
+                    getContent: vi.fn(),
+                    getCommit: vi.fn(),
+                    listCommits: vi.fn(),
+                },
+            },
+        };
+        gitService = createService();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('getTags', () => {
+        it('should list matching tag refs and sort them by version', async () => {
+            octokit.paginate.mockResolvedValue([
+                { ref: 'refs/tags/v1.2.0' },
+                { ref: 'refs/tags/v1.10.0' },
+                { ref: 'refs/tags/v-latest' },
+                { ref: 'refs/tags/v1.10.0-rc.1' },
+            ]);
+
+            const result = await gitService.getTags('v');
+
+            expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.git.listMatchingRefs, {
+                owner: 'owner',
+                repo: 'repo',
+                ref: 'tags/v',
+                per_page: 100,
+            });
+            expect(result).toEqual(['v1.10.0', 'v1.10.0-rc.1', 'v1.2.0', 'v-latest']);
+        });
+    });
+
+    describe('tagExists', () => {
+        it('should return true when the tag ref exists', async () => {
+            octokit.rest.git.getRef.mockResolvedValue({ data: {} });
+
+            expect(await gitService.tagExists('v1.0.0')).toBe(true);
+            expect(octokit.rest.git.getRef).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', ref: 'tags/v1.0.0' });
+        });
+
+        it('should return false when the tag ref is not found', async () => {
+            octokit.rest.git.getRef.mockRejectedValue(notFound);
+
+            expect(await gitService.tagExists('v1.0.0')).toBe(false);
+        });
+
+        it('should propagate other errors', async () => {
+            octokit.rest.git.getRef.mockRejectedValue(new Error('Bad credentials'));
+
+            await expect(gitService.tagExists('v1.0.0')).rejects.toThrow('Bad credentials');
+        });
+    });
+
+    describe('createTag', () => {
+        it('should create an annotated tag object and its ref', async () => {
+            await gitService.createTag('v1.0.0', 'Release v1.0.0');
+
+            expect(octokit.rest.git.createTag).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                tag: 'v1.0.0',
+                message: 'Release v1.0.0',
+                object: 'head-sha',
+                type: 'commit',
+                tagger: undefined,
+            });
+            expect(octokit.rest.git.createRef).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                ref: 'refs/tags/v1.0.0',
+                sha: 'tag-sha',
+            });
+            expect(core.info).toHaveBeenCalledWith('Created tag through the GitHub API: v1.0.0');
+        });
+
+        it('should set the configured tagger', async () => {
+            gitService = new GitHubApiGitService({
+                octokit,
+                owner: 'owner',
+                repo: 'repo',
+                sha: 'head-sha',
+                ref: 'refs/heads/main',
+                userName: 'Release Bot',
+            });
+
+            await gitService.createTag('v1.0.0', 'Release v1.0.0');
+
+            expect(octokit.rest.git.createTag).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    tagger: { name: 'Release Bot', email: 'github-actions[bot]@users.noreply.github.com' },
+                })
+            );
+        });
+    });
+
+    describe('deleteTag', () => {
+        it('should delete the tag ref', async () => {
+            await gitService.deleteTag('v1.0.0');
+
+            expect(octokit.rest.git.deleteRef).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', ref: 'tags/v1.0.0' });
+        });
+    });
+
+    describe('moveTag', () => {
+        it('should move an existing tag ref to the commit of an annotated tag', async () => {
+            octokit.rest.git.getRef.mockResolvedValue({ data: { object: { type: 'tag', sha: 'tag-object-sha' } } });
+
+            await gitService.moveTag('v1', 'v1.2.0');
+
+            expect(octokit.rest.git.getRef).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', ref: 'tags/v1.2.0' });
+            expect(octokit.rest.git.getTag).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', tag_sha: 'tag-object-sha' });
+            expect(octokit.rest.git.updateRef).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                ref: 'tags/v1',
+                sha: 'commit-sha',
+                force: true,
+            });
+            expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+        });
+
+        it('should create the tag ref when it does not exist yet', async () => {
+            octokit.rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+                if (ref === 'tags/v1') throw notFound;
+                return { data: { object: { type: 'commit', sha: 'commit-sha' } } };
+            });
+
+            await gitService.moveTag('v1', 'v1.2.0');
+
+            expect(octokit.rest.git.getTag).not.toHaveBeenCalled();
+            expect(octokit.rest.git.createRef).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                ref: 'refs/tags/v1',
+                sha: 'commit-sha',
+            });
+            expect(octokit.rest.git.updateRef).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('commitAndPush', () => {
+        it('should commit the files on top of the current commit and tag the new commit afterwards', async () => {
+            vi.mocked(fs.readFileSync).mockReturnValue('# Changelog');
+
+            await gitService.commitAndPush(['./CHANGELOG.md'], 'Update changelog for v1.0.0');
+            await gitService.createTag('v1.0.0', 'Release v1.0.0');
+
+            expect(octokit.rest.git.getCommit).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', commit_sha: 'head-sha' });
+            expect(octokit.rest.git.createTree).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                base_tree: 'base-tree',
+                tree: [{ path: 'CHANGELOG.md', mode: '100644', type: 'blob', content: '# Changelog' }],
+            });
+            expect(octokit.rest.git.createCommit).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                message: 'Update changelog for v1.0.0',
+                tree: 'new-tree',
+                parents: ['head-sha'],
+            });
+            expect(octokit.rest.git.updateRef).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                ref: 'heads/main',
+                sha: 'new-commit',
+            });
+            expect(octokit.rest.git.createTag).toHaveBeenCalledWith(expect.objectContaining({ object: 'new-commit' }));
+        });
+
+        it('should throw error when the workflow was not triggered from a branch', async () => {
+            await expect(createService('refs/tags/v1.0.0').commitAndPush(['CHANGELOG.md'], 'Update')).rejects.toThrow(
+                'Cannot push to refs/tags/v1.0.0: the workflow was not triggered from a branch'
+            );
+            expect(octokit.rest.git.createCommit).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getFileFromTag', () => {
+        it('should decode the file content at the tag', async () => {
+            octokit.rest.repos.getContent.mockResolvedValue({
+                data: { type: 'file', content: Buffer.from('{"version": "1.0.0"}').toString('base64') },
+            });
+
+            const result = await gitService.getFileFromTag('v1.0.0', 'package.json');
+
+            expect(result).toBe('{"version": "1.0.0"}');
+            expect(octokit.rest.repos.getContent).toHaveBeenCalledWith({
+                owner: 'owner',
+                repo: 'repo',
+                path: 'package.json',
+                ref: 'refs/tags/v1.0.0',
+            });
+        });
+
+        it('should read the file at a commit SHA', async () => {
+            const sha = 'a'.repeat(40);
+            octokit.rest.repos.getContent.mockResolvedValue({
+                data: { type: 'file', content: Buffer.from('{}').toString('base64') },
+            });
+
+            await gitService.getFileFromTag(sha, 'package.json');
+
+            expect(octokit.rest.repos.getContent).toHaveBeenCalledWith(expect.objectContaining({ ref: sha }));
+        });
+
+        it('should throw error when the file cannot be retrieved', async () => {
+            octokit.rest.repos.getContent.mockRejectedValue(notFound);
+
+            await expect(gitService.getFileFromTag('v1.0.0', 'package.json')).rejects.toThrow(
+                'Failed to get package.json from tag v1.0.0: Not Found'
+            );
+        });
+
+        it('should throw error for directories', async () => {
+            octokit.rest.repos.getContent.mockResolvedValue({ data: [] });
+
+            await expect(gitService.getFileFromTag('v1.0.0', 'packages')).rejects.toThrow('packages is not a file');
+        });
+    });
+
+    describe('getCommits', () => {
+        const listed = (sha: string, message: string, parents = 1) => ({
+            sha,
+            parents: Array.from({ length: parents }, () => ({ sha: 'parent' })),
+            commit: { message, author: { name: 'Jane Doe' } },
+        });
+
+        it('should list commits since the ref and skip the ref itself and merge commits', async () => {
+            octokit.rest.repos.getCommit.mockResolvedValue({
+                data: { sha: 'from-sha', commit: { committer: { date: '2024-01-15T10:00:00Z' } } },
+            });
+            octokit.paginate.mockResolvedValue([
+                listed('abc123', 'feat: add thing\n\nLonger body\n'),
+                listed('merge1', 'Merge pull request #1', 2),
+                listed('from-sha', 'chore: release'),
+            ]);
+
+            const result = await gitService.getCommits('v1.0.0', ['packages/a']);
+
+            expect(octokit.rest.repos.getCommit).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', ref: 'v1.0.0' });
+            expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.repos.listCommits, {
+                owner: 'owner',
+                repo: 'repo',
+                sha: 'head-sha',
+                path: 'packages/a',
+                since: '2024-01-15T10:00:00Z',
+                per_page: 100,
+            });
+            expect(result).toEqual([{ sha: 'abc123', author: 'Jane Doe', message: 'feat: add thing\n\nLonger body' }]);
+        });
+
+        it('should list the whole history of the repository root without a ref', async () => {
+            octokit.paginate.mockResolvedValue([listed('abc123', 'fix: bug')]);
+
+            const result = await gitService.getCommits(null, ['.']);
+
+            expect(octokit.rest.repos.getCommit).not.toHaveBeenCalled();
+            expect(octokit.paginate).toHaveBeenCalledWith(
+                octokit.rest.repos.listCommits,
+                expect.objectContaining({ path: undefined, since: undefined })
+            );
+            expect(result).toHaveLength(1);
+        });
+    });
+});
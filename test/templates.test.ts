@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateValues, buildCompareUrl, renderTemplate, validateTemplate } from '../src/templates';
+
+const values: TemplateValues = {
+    version: '1.2.0',
+    tag: 'v1.2.0',
+    name: '',
+    previousVersion: '1.1.0',
+    date: '2024-03-01',
+    changelog: '### Added\n- Export',
+    repo: 'owner/repo',
+    sha: 'abc123',
+    compareUrl: 'https://github.com/owner/repo/compare/v1.1.0...v1.2.0',
+};
+
+describe('validateTemplate', () => {
+    it('should accept known placeholders with or without spaces', () => {
+        expect(() => validateTemplate('{{ tag }} ({{date}}) {{compareUrl}}', 'release-name-template')).not.toThrow();
+        expect(() => validateTemplate('No placeholders', 'release-name-template')).not.toThrow();
+    });
+
+    it('should report unknown placeholders once with the template source', () => {
+        expect(() => validateTemplate('{{tag}} {{title}} {{title}} {{author}}', 'release-name-template')).toThrow(
+            'Unknown placeholder(s) in release-name-template: title, author. Available: version, tag, name'
+        );
+    });
+});
+
+describe('renderTemplate', () => {
+    it('should replace all placeholders', () => {
+        expect(renderTemplate('{{ tag }} of {{repo}} on {{date}} (was {{previousVersion}})', values)).toBe(
+            'v1.2.0 of owner/repo on 2024-03-01 (was 1.1.0)'
+        );
+    });
+
+    it('should not expand placeholders inside values', () => {
+        const result = renderTemplate('{{changelog}}', { ...values, changelog: 'Use {{version}} in templates' });
+
+        expect(result).toBe('Use {{version}} in templates');
+    });
+
+    it('should render empty values for a first release', () => {
+        expect(renderTemplate('{{name}}{{tag}}{{compareUrl}}', { ...values, compareUrl: '' })).toBe('v1.2.0');
+    });
+});
+
+describe('buildCompareUrl', () => {
+    it('should compare the previous tag with the new one', () => {
+        expect(buildCompareUrl('https://github.com', 'owner/repo', 'v1.1.0', 'v1.2.0')).toBe(
+            'https://github.com/owner/repo/compare/v1.1.0...v1.2.0'
+        );
+    });
+
+    it('should encode scoped monorepo tags but keep slashes', () => {
+        expect(buildCompareUrl('https://github.com', 'owner/repo', '@scope/pkg@1.0.0', '@scope/pkg@1.1.0')).toBe(
+            'https://github.com/owner/repo/compare/%40scope/pkg%401.0.0...%40scope/pkg%401.1.0'
+        );
+    });
+
+    it('should return empty string without a previous tag', () => {
+        expect(buildCompareUrl('https://github.com', 'owner/repo', null, 'v1.0.0')).toBe('');
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { buildTagName, isBlank, replaceTabs, trimEmptyEdges } from '../src/utils';
+import { buildTagName, escapeHtml, isBlank, parseListInput, replaceTabs, trimEmptyEdges } from '../src/utils';
 
 describe('utils', () => {
     describe('buildTagName', () => {
@@ -16,6 +16,26 @@ describe('utils', () => {
         });
     });
 
+    describe('escapeHtml', () => {
+        it('escapes HTML special characters', () => {
+            expect(escapeHtml('<a href="x">Tom & Jerry</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&lt;/a&gt;');
+        });
+    });
+
+    describe('parseListInput', () => {
+        it('splits on newlines and trims entries', () => {
+            expect(parseListInput('  a \nb\n')).toEqual(['a', 'b']);
+        });
+
+        it('drops blank lines', () => {
+            expect(parseListInput('a\n\n   \nb')).toEqual(['a', 'b']);
+        });
+
+        it('returns empty array for empty input', () => {
+            expect(parseListInput('')).toEqual([]);
+        });
+    });
+
     describe('isBlank', () => {
         it('returns true for undefined/null', () => {
             expect(isBlank(undefined)).toBe(true);